@@ -6,6 +6,10 @@ import {
   getNoteroPref,
   NoteroPref,
 } from '../prefs/notero-pref';
+import {
+  getBotIDForDatabase,
+  unbindDatabaseConnections,
+} from '../prefs/notion-database-connections';
 import type {
   EventManager,
   PreferencePaneManager,
@@ -109,13 +113,24 @@ export class NotionAuthManager implements Service {
     return getNoteroPref(NoteroPref.notionToken);
   }
 
-  public async getOptionalAuthToken(): Promise<string | undefined> {
-    const tokenResponses = await this.getAllConnections();
-    return tokenResponses[0]?.access_token || this.getLegacyAuthToken();
+  /**
+   * Return the auth token of the connection bound to a database, falling back
+   * to the first connection if the database is not bound to an existing one.
+   * @param databaseID The ID of the Notion database to access.
+   */
+  public async getOptionalAuthToken(
+    databaseID?: string,
+  ): Promise<string | undefined> {
+    const connections = await this.getAllConnections();
+    const botID = databaseID && getBotIDForDatabase(databaseID);
+    const connection =
+      connections.find((connection) => connection.bot_id === botID) ||
+      connections[0];
+    return connection?.access_token || this.getLegacyAuthToken();
   }
 
-  public async getRequiredAuthToken(): Promise<string> {
-    const authToken = await this.getOptionalAuthToken();
+  public async getRequiredAuthToken(databaseID?: string): Promise<string> {
+    const authToken = await this.getOptionalAuthToken(databaseID);
     if (authToken) return authToken;
 
     throw new LocalizableError(
@@ -134,6 +149,7 @@ export class NotionAuthManager implements Service {
 
   public async removeConnection(connection: NotionConnection): Promise<void> {
     await removeConnection(connection.bot_id);
+    unbindDatabaseConnections(connection.bot_id);
     this.eventManager.emit('notion-connection.remove', connection);
   }
 
@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import { createZoteroItemMock, mockZoteroPrefs } from '../../../../test/utils';
 import { NoteroPref, setNoteroPref } from '../../prefs/notero-pref';
 import {
+  getPropertiesFingerprint,
   getSyncedNotesFromAttachment,
   saveNotionLinkAttachment,
 } from '../item-data';
@@ -53,6 +54,109 @@ describe('getSyncedNotesFromAttachment', () => {
       },
     });
   });
+
+  it('loads saved blocks of synced notes', () => {
+    const json = JSON.stringify({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          blocks: [
+            {
+              id: 'child',
+              type: 'toggle',
+              fingerprint: 'fingerprint',
+              children: [{ id: 'invalid' }],
+            },
+          ],
+        },
+      },
+    });
+    const attachment = createZoteroItemMock();
+    attachment.getNote.mockReturnValue(
+      `<pre id="notero-synced-notes">${json}</pre>`,
+    );
+
+    expect(getSyncedNotesFromAttachment(attachment)).toStrictEqual({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          blocks: [
+            {
+              id: 'child',
+              type: 'toggle',
+              fingerprint: 'fingerprint',
+              children: [],
+            },
+          ],
+          syncedAt: undefined,
+        },
+      },
+    });
+  });
+
+  it('loads saved blocks of synced annotations', () => {
+    const json = JSON.stringify({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          annotations: {
+            ABCD1234: { callout: 'block-1', divider: 2 },
+            invalid: 'block-3',
+          },
+        },
+      },
+    });
+    const attachment = createZoteroItemMock();
+    attachment.getNote.mockReturnValue(
+      `<pre id="notero-synced-notes">${json}</pre>`,
+    );
+
+    expect(getSyncedNotesFromAttachment(attachment)).toStrictEqual({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          annotations: { ABCD1234: { callout: 'block-1' } },
+          syncedAt: undefined,
+        },
+      },
+    });
+  });
+
+  it('loads saved images of synced annotations', () => {
+    const json = JSON.stringify({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          annotationImages: {
+            ABCD1234: { position: 'position', url: 'https://image.png' },
+            invalid: { url: 'https://invalid.png' },
+          },
+        },
+      },
+    });
+    const attachment = createZoteroItemMock();
+    attachment.getNote.mockReturnValue(
+      `<pre id="notero-synced-notes">${json}</pre>`,
+    );
+
+    expect(getSyncedNotesFromAttachment(attachment)).toStrictEqual({
+      containerBlockID: 'container',
+      notes: {
+        keyA: {
+          blockID: 'blockA',
+          annotationImages: {
+            ABCD1234: { position: 'position', url: 'https://image.png' },
+          },
+          syncedAt: undefined,
+        },
+      },
+    });
+  });
 });
 
 describe('saveNotionLinkAttachment', () => {
@@ -98,6 +202,49 @@ describe('saveNotionLinkAttachment', () => {
     );
   });
 
+  it('saves properties fingerprint after synced notes', async () => {
+    mockZoteroPrefs();
+    const pageURL =
+      'notion://www.notion.so/page-00000000000000000000000000000000';
+    const syncedNotes =
+      '<pre id="notero-synced-notes">{"existing":"notes"}</pre>';
+    const item = createZoteroItemMock();
+    const attachment = createZoteroItemMock();
+    item.getAttachments.mockReturnValue([attachment.id]);
+    attachment.getField.calledWith('url').mockReturnValue(pageURL);
+    attachment.getNote.mockReturnValue(syncedNotes);
+
+    await saveNotionLinkAttachment(item, pageURL, 'fingerprint');
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(attachment.setNote).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `${syncedNotes}<pre id="notero-properties-fingerprint">fingerprint</pre>`,
+      ),
+    );
+  });
+
+  it('preserves properties fingerprint when not provided', async () => {
+    mockZoteroPrefs();
+    const pageURL =
+      'notion://www.notion.so/page-00000000000000000000000000000000';
+    const fingerprint =
+      '<pre id="notero-properties-fingerprint">fingerprint</pre>';
+    const item = createZoteroItemMock();
+    const attachment = createZoteroItemMock();
+    item.getAttachments.mockReturnValue([attachment.id]);
+    attachment.getField.calledWith('url').mockReturnValue(pageURL);
+    attachment.getNote.mockReturnValue(fingerprint);
+
+    await saveNotionLinkAttachment(item, pageURL);
+
+    expect(getPropertiesFingerprint(item)).toBe('fingerprint');
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(attachment.setNote).toHaveBeenCalledWith(
+      expect.stringContaining(fingerprint),
+    );
+  });
+
   it('resets synced notes when page ID changes', async () => {
     mockZoteroPrefs();
     setNoteroPref(NoteroPref.syncNotes, true);
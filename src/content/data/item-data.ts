@@ -1,22 +1,61 @@
 import { NOTION_TAG_NAME } from '../constants';
+import { TrashedItemAction } from '../prefs/notero-pref';
 import { getPageIDFromURL, isNotionURL } from '../sync/notion-utils';
 import { isObject } from '../utils';
 
+const PROPERTIES_FINGERPRINT_ID = 'notero-properties-fingerprint';
 const SYNCED_NOTES_ID = 'notero-synced-notes';
+const TRASHED_ITEM_ACTION_ID = 'notero-trashed-item-action';
+
+/**
+ * A block that was sent to Notion, saved so that later syncs can patch only
+ * the blocks that changed
+ */
+export type SyncedBlock = {
+  id: string;
+  type: string;
+  /** Fingerprint of the block content, excluding children */
+  fingerprint: string;
+  children?: SyncedBlock[];
+};
+
+/**
+ * IDs of the blocks that were built from each annotation of an item, by the
+ * role of each block within the annotation (such as its callout or comment)
+ */
+export type SyncedAnnotations = {
+  [annotationKey: Zotero.DataObjectKey]: { [role: string]: string };
+};
+
+/**
+ * Images uploaded for image annotations, along with the position of each
+ * annotation when its image was uploaded, so that images are only uploaded
+ * again when their annotations move
+ */
+export type SyncedAnnotationImages = {
+  [annotationKey: Zotero.DataObjectKey]: { position: string; url: string };
+};
 
 export type SyncedNotes = {
   containerBlockID?: string;
   notes?: {
     [noteItemKey: Zotero.DataObjectKey]: {
+      /** Images of image annotations, if the note contains annotations */
+      annotationImages?: SyncedAnnotationImages;
+      /** Blocks of each annotation, if the note contains annotations */
+      annotations?: SyncedAnnotations;
       blockID: string;
+      /** Children of the note block as of the last sync */
+      blocks?: SyncedBlock[];
       syncedAt?: Date;
     };
   };
 };
 
 function getAllNotionLinkAttachments(item: Zotero.Item): Zotero.Item[] {
+  // Attachments of a trashed item are trashed along with it
   const attachmentIDs = item
-    .getAttachments(false)
+    .getAttachments(item.deleted)
     .slice()
     // Sort to get largest ID first
     .sort((a, b) => b - a);
@@ -37,9 +76,21 @@ export function getNotionPageID(item: Zotero.Item): string | undefined {
   return notionURL && getPageIDFromURL(notionURL);
 }
 
+/**
+ * Save the Notion link attachment for an item.
+ * @param item The Zotero item that was synced.
+ * @param appURL The Notion app URL of the synced page.
+ * @param propertiesFingerprint A fingerprint of the properties that were sent
+ * to Notion. If omitted, any previously saved fingerprint is preserved.
+ * @param syncedNotes The synced notes of the page, such as when it was migrated
+ * from a different database. If omitted, synced notes are preserved unless the
+ * page ID changed, in which case they are cleared.
+ */
 export async function saveNotionLinkAttachment(
   item: Zotero.Item,
   appURL: string,
+  propertiesFingerprint?: string,
+  syncedNotes?: SyncedNotes,
 ): Promise<void> {
   const attachments = getAllNotionLinkAttachments(item);
 
@@ -67,17 +118,56 @@ export async function saveNotionLinkAttachment(
     });
   }
 
-  const syncedNotes = pageIDChanged ? {} : undefined;
-  updateNotionLinkAttachmentNote(attachment, syncedNotes);
+  updateNotionLinkAttachmentNote(attachment, {
+    propertiesFingerprint,
+    syncedNotes: syncedNotes ?? (pageIDChanged ? {} : undefined),
+  });
 
   await attachment.saveTx();
 }
 
-function getSyncedNotesJSON(attachment: Zotero.Item): string | undefined {
+function getNoteElementContent(
+  attachment: Zotero.Item,
+  elementID: string,
+): string | undefined {
   const domParser = new DOMParser();
   const doc = domParser.parseFromString(attachment.getNote(), 'text/html');
 
-  return doc.getElementById(SYNCED_NOTES_ID)?.innerHTML;
+  return doc.getElementById(elementID)?.innerHTML;
+}
+
+function getSyncedNotesJSON(attachment: Zotero.Item): string | undefined {
+  return getNoteElementContent(attachment, SYNCED_NOTES_ID);
+}
+
+/**
+ * Return the fingerprint of the properties that were last sent to Notion for
+ * an item, if any.
+ */
+export function getPropertiesFingerprint(
+  item: Zotero.Item,
+): string | undefined {
+  const attachment = getNotionLinkAttachment(item);
+  if (!attachment) return;
+
+  return (
+    getNoteElementContent(attachment, PROPERTIES_FINGERPRINT_ID) || undefined
+  );
+}
+
+/**
+ * Clear the saved properties fingerprint for an item so that its properties
+ * are sent to Notion on the next sync, even if they have not changed.
+ */
+export async function clearPropertiesFingerprint(
+  item: Zotero.Item,
+): Promise<void> {
+  const attachment = getNotionLinkAttachment(item);
+  if (!attachment) return;
+
+  updateNotionLinkAttachmentNote(attachment, { propertiesFingerprint: '' });
+
+  await attachment.saveTx();
 }
 
 export function getSyncedNotes(item: Zotero.Item): SyncedNotes {
@@ -117,11 +207,19 @@ export function getSyncedNotesFromAttachment(
     Object.entries(parsedValue.notes).forEach(([key, value]) => {
       if (!isObject(value)) return;
 
-      const { blockID, syncedAt } = value;
+      const { annotationImages, annotations, blockID, blocks, syncedAt } =
+        value;
       if (typeof blockID !== 'string') return;
 
       notes[key] = {
+        ...(isObject(annotationImages) && {
+          annotationImages: parseSyncedAnnotationImages(annotationImages),
+        }),
+        ...(isObject(annotations) && {
+          annotations: parseSyncedAnnotations(annotations),
+        }),
         blockID,
+        ...(Array.isArray(blocks) && { blocks: parseSyncedBlocks(blocks) }),
         syncedAt: typeof syncedAt === 'string' ? new Date(syncedAt) : undefined,
       };
     });
@@ -130,11 +228,86 @@ export function getSyncedNotesFromAttachment(
   return { containerBlockID, notes };
 }
 
+function parseSyncedBlocks(value: unknown[]): SyncedBlock[] {
+  return value.flatMap((block) => {
+    if (!isObject(block)) return [];
+
+    const { id, type, fingerprint, children } = block;
+    if (
+      typeof id !== 'string' ||
+      typeof type !== 'string' ||
+      typeof fingerprint !== 'string'
+    ) {
+      return [];
+    }
+
+    return {
+      id,
+      type,
+      fingerprint,
+      ...(Array.isArray(children) && {
+        children: parseSyncedBlocks(children),
+      }),
+    };
+  });
+}
+
+function parseSyncedAnnotations(
+  value: Record<string, unknown>,
+): SyncedAnnotations {
+  const annotations: SyncedAnnotations = {};
+
+  Object.entries(value).forEach(([annotationKey, blockIDs]) => {
+    if (!isObject(blockIDs)) return;
+
+    annotations[annotationKey] = Object.fromEntries(
+      Object.entries(blockIDs).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string',
+      ),
+    );
+  });
+
+  return annotations;
+}
+
+function parseSyncedAnnotationImages(
+  value: Record<string, unknown>,
+): SyncedAnnotationImages {
+  const images: SyncedAnnotationImages = {};
+
+  Object.entries(value).forEach(([annotationKey, image]) => {
+    if (!isObject(image)) return;
+
+    const { position, url } = image;
+    if (typeof position === 'string' && typeof url === 'string') {
+      images[annotationKey] = { position, url };
+    }
+  });
+
+  return images;
+}
+
+/**
+ * Save the blocks of a synced note for an item.
+ * @param item The regular item that the note belongs to.
+ * @param containerBlockID The ID of the container block of all notes.
+ * @param noteBlockID The ID of the note block, if it was created.
+ * @param noteItemKey The key of the note item.
+ * @param blocks The children of the note block as sent to Notion. If not
+ * given, the note block is recreated on the next sync.
+ * @param annotations The blocks of each annotation, if the note contains
+ * annotations.
+ * @param annotationImages The images of image annotations, if the note
+ * contains annotations.
+ */
 export async function saveSyncedNote(
   item: Zotero.Item,
   containerBlockID: string,
   noteBlockID: string | undefined,
   noteItemKey: Zotero.DataObjectKey,
+  blocks?: SyncedBlock[],
+  annotations?: SyncedAnnotations,
+  annotationImages?: SyncedAnnotationImages,
 ) {
   const attachment = getNotionLinkAttachment(item);
   if (!attachment) return;
@@ -147,21 +320,80 @@ export async function saveSyncedNote(
       ...notes,
       ...(noteBlockID && {
         [noteItemKey]: {
+          annotationImages,
+          annotations,
           blockID: noteBlockID,
+          blocks,
           syncedAt: new Date(),
         },
       }),
     },
   };
 
-  updateNotionLinkAttachmentNote(attachment, syncedNotes);
+  updateNotionLinkAttachmentNote(attachment, { syncedNotes });
+
+  await attachment.saveTx();
+}
+
+/**
+ * Return the action that was applied to the Notion page of an item when it
+ * was moved to the trash, if any.
+ */
+export function getTrashedItemAction(
+  item: Zotero.Item,
+): TrashedItemAction | undefined {
+  const attachment = getNotionLinkAttachment(item);
+  if (!attachment) return;
+
+  const action = getNoteElementContent(attachment, TRASHED_ITEM_ACTION_ID);
+
+  return Object.values<string>(TrashedItemAction).includes(action ?? '')
+    ? (action as TrashedItemAction)
+    : undefined;
+}
+
+/**
+ * Save the action that was applied to the Notion page of a trashed item so
+ * that it can be reverted if the item is restored.
+ * @param item The Zotero item that was trashed or restored.
+ * @param action The action that was applied, or `undefined` to clear it once
+ * the item has been restored.
+ */
+export async function saveTrashedItemAction(
+  item: Zotero.Item,
+  action: TrashedItemAction | undefined,
+): Promise<void> {
+  const attachment = getNotionLinkAttachment(item);
+  if (!attachment) return;
+
+  updateNotionLinkAttachmentNote(attachment, {
+    trashedItemAction: action ?? '',
+  });
 
   await attachment.saveTx();
 }
 
+/**
+ * Rewrite the note of a Notion link attachment. Any data that is not provided
+ * is preserved from the existing note.
+ * @param attachment The Notion link attachment.
+ * @param data.propertiesFingerprint The properties fingerprint to save. An
+ * empty string removes the existing fingerprint.
+ * @param data.syncedNotes The synced notes to save.
+ * @param data.trashedItemAction The trashed item action to save. An empty
+ * string removes the existing action.
+ */
 function updateNotionLinkAttachmentNote(
   attachment: Zotero.Item,
-  syncedNotes?: SyncedNotes,
+  {
+    propertiesFingerprint,
+    syncedNotes,
+    trashedItemAction,
+  }: {
+    propertiesFingerprint?: string;
+    syncedNotes?: SyncedNotes;
+    trashedItemAction?: string;
+  },
 ) {
   let note = `
 <h2 style="background-color: #ff666680;">Do not modify or delete!</h2>
@@ -179,6 +411,22 @@ so that it can properly update the Notion page for this item.</p>
     note += `<pre id="${SYNCED_NOTES_ID}">${syncedNotesJSON}</pre>`;
   }
 
+  const fingerprint =
+    propertiesFingerprint ??
+    getNoteElementContent(attachment, PROPERTIES_FINGERPRINT_ID);
+
+  if (fingerprint) {
+    note += `<pre id="${PROPERTIES_FINGERPRINT_ID}">${fingerprint}</pre>`;
+  }
+
+  const action =
+    trashedItemAction ??
+    getNoteElementContent(attachment, TRASHED_ITEM_ACTION_ID);
+
+  if (action) {
+    note += `<pre id="${TRASHED_ITEM_ACTION_ID}">${action}</pre>`;
+  }
+
   attachment.setNote(note);
 }
 
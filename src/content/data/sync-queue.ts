@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+import { logger } from '../utils';
+
+const SYNC_QUEUE_FILENAME = 'notero-sync-queue.json';
+
+const persistedSyncQueueSchema = z.object({
+  inFlightItemIDs: z.array(z.number()),
+  pendingItemIDs: z.array(z.number()),
+});
+
+/**
+ * Sync queue state persisted to disk so that queued and interrupted syncs can
+ * be resumed after Zotero restarts.
+ */
+export type PersistedSyncQueue = {
+  /** IDs of items in the sync job that was running when last saved */
+  inFlightItemIDs: Zotero.Item['id'][];
+  /** IDs of items waiting for a sync job to start */
+  pendingItemIDs: Zotero.Item['id'][];
+};
+
+const EMPTY_SYNC_QUEUE: PersistedSyncQueue = {
+  inFlightItemIDs: [],
+  pendingItemIDs: [],
+};
+
+let lastOperation: Promise<unknown> = Promise.resolve();
+
+function getSyncQueuePath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, SYNC_QUEUE_FILENAME);
+}
+
+/**
+ * Run file operations one at a time, in the order they are requested, so
+ * that a load never observes a partially applied sequence of saves and the
+ * file always reflects the most recently saved state.
+ */
+function enqueueOperation<T>(operation: () => Promise<T>): Promise<T> {
+  const result = lastOperation.then(operation, operation);
+  lastOperation = result.catch(() => {});
+  return result;
+}
+
+export function loadSyncQueue(): Promise<PersistedSyncQueue> {
+  return enqueueOperation(async () => {
+    const path = getSyncQueuePath();
+
+    try {
+      if (!(await IOUtils.exists(path))) return EMPTY_SYNC_QUEUE;
+
+      return persistedSyncQueueSchema.parse(await IOUtils.readJSON(path));
+    } catch (error) {
+      logger.warn('Ignoring invalid sync queue file:', path, error);
+      return EMPTY_SYNC_QUEUE;
+    }
+  });
+}
+
+export function saveSyncQueue(queue: PersistedSyncQueue): Promise<void> {
+  return enqueueOperation(async () => {
+    const path = getSyncQueuePath();
+    const isEmpty =
+      !queue.inFlightItemIDs.length && !queue.pendingItemIDs.length;
+
+    try {
+      if (isEmpty) {
+        await IOUtils.remove(path, { ignoreAbsent: true });
+      } else {
+        await IOUtils.writeJSON(path, queue, { tmpPath: `${path}.tmp` });
+      }
+    } catch (error) {
+      logger.error('Failed to save sync queue:', path, error);
+    }
+  });
+}
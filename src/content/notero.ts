@@ -2,6 +2,7 @@ import type { Client } from '@notionhq/client';
 
 import { NotionAuthManager } from './auth';
 import type { PluginInfo } from './plugin-info';
+import { getNoteroPref, NoteroPref } from './prefs/notero-pref';
 import {
   EventManager,
   PreferencePaneManager,
@@ -18,6 +19,7 @@ import { logger } from './utils';
 export class Notero {
   public readonly eventManager: EventManager;
   public readonly notionAuthManager: NotionAuthManager;
+  public readonly syncManager: SyncManager;
 
   private readonly preferencePaneManager: PreferencePaneManager;
   private readonly services: Service[];
@@ -26,13 +28,14 @@ export class Notero {
     this.eventManager = new EventManager();
     this.notionAuthManager = new NotionAuthManager();
     this.preferencePaneManager = new PreferencePaneManager();
+    this.syncManager = new SyncManager();
 
     this.services = [
       this.eventManager,
       this.notionAuthManager,
       this.preferencePaneManager,
       new ProtocolHandlerExtension(),
-      new SyncManager(),
+      this.syncManager,
       new UIManager(),
     ];
   }
@@ -117,7 +120,9 @@ export class Notero {
     const mainWindow = Zotero.getMainWindow();
     if (!mainWindow) throw new Error('No window available');
 
-    const authToken = await this.notionAuthManager.getRequiredAuthToken();
+    const authToken = await this.notionAuthManager.getRequiredAuthToken(
+      getNoteroPref(NoteroPref.notionDatabaseID),
+    );
 
     return getNotionClient(authToken, mainWindow);
   }
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { mockZoteroPrefs } from '../../../../test/utils';
+import {
+  loadCollectionPages,
+  parseCollectionPages,
+  saveCollectionPage,
+} from '../collection-pages';
+
+beforeEach(() => {
+  mockZoteroPrefs();
+});
+
+describe('parseCollectionPages', () => {
+  it('returns empty object for invalid JSON', () => {
+    expect(parseCollectionPages('not json')).toStrictEqual({});
+  });
+
+  it('ignores invalid collection IDs and pages', () => {
+    const json = JSON.stringify({
+      1: { name: 'Name', pageID: 'page-1', parentPageID: 0 },
+      2: 2,
+      3: { name: 'Name' },
+      foo: { pageID: 'page-4' },
+    });
+
+    expect(parseCollectionPages(json)).toStrictEqual({
+      1: { name: 'Name', pageID: 'page-1' },
+    });
+  });
+
+  it('loads pages saved as page IDs', () => {
+    const json = JSON.stringify({ 1: 'page-1' });
+
+    expect(parseCollectionPages(json)).toStrictEqual({
+      1: { pageID: 'page-1' },
+    });
+  });
+});
+
+describe('saveCollectionPage', () => {
+  it('adds and removes page of collection', () => {
+    saveCollectionPage(1, { pageID: 'page-1' });
+    saveCollectionPage(2, { name: 'Name', pageID: 'page-2' });
+    saveCollectionPage(1, undefined);
+
+    expect(loadCollectionPages()).toStrictEqual({
+      2: { name: 'Name', pageID: 'page-2' },
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createZoteroCollectionMock,
+  createZoteroItemMock,
+} from '../../../../test/utils';
+import {
+  type CollectionSyncConfigsRecord,
+  getNotionDatabaseIDForItem,
+} from '../collection-sync-config';
+
+const parent = createZoteroCollectionMock({ name: 'Parent' });
+const child = createZoteroCollectionMock({ name: 'Child' });
+const other = createZoteroCollectionMock({ name: 'Other' });
+
+child.parentID = parent.id;
+
+function setup(collectionIDs: Zotero.Collection['id'][]) {
+  const item = createZoteroItemMock();
+  item.getCollections.mockReturnValue(collectionIDs);
+  return item;
+}
+
+describe('getNotionDatabaseIDForItem', () => {
+  it('returns undefined when no collection has a target database', () => {
+    const item = setup([parent.id, other.id]);
+    const configs: CollectionSyncConfigsRecord = {
+      [parent.id]: { syncEnabled: true },
+      [other.id]: { syncEnabled: true },
+    };
+
+    expect(getNotionDatabaseIDForItem(item, configs)).toBeUndefined();
+  });
+
+  it('ignores collections that are not sync-enabled', () => {
+    const item = setup([other.id]);
+
+    expect(getNotionDatabaseIDForItem(item, {})).toBeUndefined();
+  });
+
+  it('prefers collections with a target database over those without', () => {
+    const item = setup([child.id, other.id]);
+    const configs: CollectionSyncConfigsRecord = {
+      [child.id]: { syncEnabled: true },
+      [other.id]: { notionDatabaseID: 'other-db', syncEnabled: true },
+    };
+
+    expect(getNotionDatabaseIDForItem(item, configs)).toBe('other-db');
+  });
+
+  it('prefers deeper collections over their ancestors', () => {
+    const item = setup([parent.id, child.id]);
+    const configs: CollectionSyncConfigsRecord = {
+      [parent.id]: { notionDatabaseID: 'parent-db', syncEnabled: true },
+      [child.id]: { notionDatabaseID: 'child-db', syncEnabled: true },
+    };
+
+    expect(getNotionDatabaseIDForItem(item, configs)).toBe('child-db');
+  });
+
+  it('prefers collections with lower IDs at the same depth', () => {
+    const item = setup([other.id, parent.id]);
+    const configs: CollectionSyncConfigsRecord = {
+      [parent.id]: { notionDatabaseID: 'parent-db', syncEnabled: true },
+      [other.id]: { notionDatabaseID: 'other-db', syncEnabled: true },
+    };
+
+    expect(getNotionDatabaseIDForItem(item, configs)).toBe('parent-db');
+  });
+});
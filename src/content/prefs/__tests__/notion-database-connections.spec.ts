@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { mockZoteroPrefs } from '../../../../test/utils';
+import {
+  bindDatabaseConnections,
+  getBotIDForDatabase,
+  loadDatabaseConnections,
+  parseDatabaseConnections,
+  saveDatabaseConnections,
+  unbindDatabaseConnections,
+} from '../notion-database-connections';
+
+beforeEach(() => {
+  mockZoteroPrefs();
+});
+
+describe('parseDatabaseConnections', () => {
+  it('returns empty object for invalid JSON', () => {
+    expect(parseDatabaseConnections('not json')).toStrictEqual({});
+  });
+
+  it('normalizes database IDs and ignores invalid bot IDs', () => {
+    const json = JSON.stringify({ 'db-1': 'bot-1', 'db-2': 2 });
+
+    expect(parseDatabaseConnections(json)).toStrictEqual({ db1: 'bot-1' });
+  });
+});
+
+describe('getBotIDForDatabase', () => {
+  it('returns bot ID bound to database with any ID format', () => {
+    saveDatabaseConnections({ db1: 'bot-1' });
+
+    expect(getBotIDForDatabase('db-1')).toBe('bot-1');
+    expect(getBotIDForDatabase('db-2')).toBeUndefined();
+  });
+});
+
+describe('bindDatabaseConnections', () => {
+  it('binds unbound databases to first connection that can access them', () => {
+    bindDatabaseConnections(
+      new Map([
+        ['bot-1', ['db-1', 'db-2']],
+        ['bot-2', ['db-2', 'db-3']],
+      ]),
+    );
+
+    expect(loadDatabaseConnections()).toStrictEqual({
+      db1: 'bot-1',
+      db2: 'bot-1',
+      db3: 'bot-2',
+    });
+  });
+
+  it('keeps existing binding when connection can still access database', () => {
+    saveDatabaseConnections({ db1: 'bot-2' });
+
+    bindDatabaseConnections(
+      new Map([
+        ['bot-1', ['db-1']],
+        ['bot-2', ['db-1']],
+      ]),
+    );
+
+    expect(getBotIDForDatabase('db-1')).toBe('bot-2');
+  });
+
+  it('rebinds database when bound connection is no longer available', () => {
+    saveDatabaseConnections({ db1: 'bot-2' });
+
+    bindDatabaseConnections(new Map([['bot-1', ['db-1']]]));
+
+    expect(getBotIDForDatabase('db-1')).toBe('bot-1');
+  });
+});
+
+describe('unbindDatabaseConnections', () => {
+  it('removes bindings of given connection only', () => {
+    saveDatabaseConnections({ db1: 'bot-1', db2: 'bot-2', db3: 'bot-1' });
+
+    unbindDatabaseConnections('bot-1');
+
+    expect(loadDatabaseConnections()).toStrictEqual({ db2: 'bot-2' });
+  });
+});
@@ -0,0 +1,188 @@
+import { type Client } from '@notionhq/client';
+import type {
+  DatabaseObjectResponse,
+  GetPageResponse,
+  SearchResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import { describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import {
+  filterNotionDatabaseListings,
+  type NotionDatabaseListing,
+  retrieveNotionDatabaseListings,
+} from '../notion-database-search';
+
+const fakeLastEditedTime = '2024-01-02T03:04:05.000Z';
+
+function createDatabase(
+  id: string,
+  title: string,
+  parent: DatabaseObjectResponse['parent'] = {
+    type: 'workspace',
+    workspace: true,
+  },
+): DatabaseObjectResponse {
+  return {
+    icon: null,
+    id,
+    last_edited_time: fakeLastEditedTime,
+    object: 'database',
+    parent,
+    title: [{ plain_text: title }],
+  } as unknown as DatabaseObjectResponse;
+}
+
+function createPage(
+  title: string,
+  parent: DatabaseObjectResponse['parent'],
+): GetPageResponse {
+  return {
+    object: 'page',
+    parent,
+    properties: { Name: { type: 'title', title: [{ plain_text: title }] } },
+    url: 'https://www.notion.so/fake-page',
+  } as unknown as GetPageResponse;
+}
+
+function createSearchResponse(
+  results: DatabaseObjectResponse[],
+  nextCursor: string | null = null,
+): SearchResponse {
+  return {
+    has_more: nextCursor !== null,
+    next_cursor: nextCursor,
+    object: 'list',
+    results,
+  } as unknown as SearchResponse;
+}
+
+function createListing(
+  listing: Partial<NotionDatabaseListing> & Pick<NotionDatabaseListing, 'id'>,
+): NotionDatabaseListing {
+  return {
+    icon: null,
+    label: listing.id,
+    lastEditedTime: fakeLastEditedTime,
+    parentTitles: [],
+    title: listing.id,
+    ...listing,
+  };
+}
+
+describe('retrieveNotionDatabaseListings', () => {
+  it('returns databases from all pages of search results', async () => {
+    const notion = mockDeep<Client>();
+    notion.search
+      .mockResolvedValueOnce(
+        createSearchResponse([createDatabase('database-1', 'First')], 'next'),
+      )
+      .mockResolvedValueOnce(
+        createSearchResponse([createDatabase('database-2', 'Second')]),
+      );
+
+    const listings = await retrieveNotionDatabaseListings(notion);
+
+    expect(listings.map(({ id }) => id)).toStrictEqual([
+      'database1',
+      'database2',
+    ]);
+    expect(notion.search).toHaveBeenLastCalledWith({
+      filter: { property: 'object', value: 'database' },
+      start_cursor: 'next',
+    });
+  });
+
+  it('returns titles of parent pages outermost first', async () => {
+    const notion = mockDeep<Client>();
+    notion.search.mockResolvedValue(
+      createSearchResponse([
+        createDatabase('database-1', 'Zotero', {
+          type: 'page_id',
+          page_id: 'child-page',
+        }),
+      ]),
+    );
+    notion.pages.retrieve.mockImplementation(({ page_id }) =>
+      Promise.resolve(
+        page_id === 'child-page'
+          ? createPage('Research', { type: 'page_id', page_id: 'root-page' })
+          : createPage('Home', { type: 'workspace', workspace: true }),
+      ),
+    );
+
+    const [listing] = await retrieveNotionDatabaseListings(notion, 'Work');
+
+    expect(listing).toStrictEqual({
+      icon: null,
+      id: 'database1',
+      label: 'Zotero (Work)',
+      lastEditedTime: fakeLastEditedTime,
+      parentTitles: ['Work', 'Home', 'Research'],
+      title: 'Zotero',
+    });
+  });
+
+  it('retrieves each parent page once', async () => {
+    const notion = mockDeep<Client>();
+    const parent = { type: 'page_id', page_id: 'shared-page' } as const;
+    notion.search.mockResolvedValue(
+      createSearchResponse([
+        createDatabase('database-1', 'First', parent),
+        createDatabase('database-2', 'Second', parent),
+      ]),
+    );
+    notion.pages.retrieve.mockResolvedValue(
+      createPage('Shared', { type: 'workspace', workspace: true }),
+    );
+
+    const listings = await retrieveNotionDatabaseListings(notion);
+
+    expect(listings.map(({ parentTitles }) => parentTitles)).toStrictEqual([
+      ['Shared'],
+      ['Shared'],
+    ]);
+    expect(notion.pages.retrieve).toHaveBeenCalledOnce();
+  });
+
+  it('ends parent path at inaccessible page', async () => {
+    const notion = mockDeep<Client>();
+    notion.search.mockResolvedValue(
+      createSearchResponse([
+        createDatabase('database-1', 'Zotero', {
+          type: 'page_id',
+          page_id: 'private-page',
+        }),
+      ]),
+    );
+    notion.pages.retrieve.mockRejectedValue(new Error('Not found'));
+
+    const [listing] = await retrieveNotionDatabaseListings(notion);
+
+    expect(listing?.parentTitles).toStrictEqual([]);
+  });
+});
+
+describe('filterNotionDatabaseListings', () => {
+  const listings = [
+    createListing({ id: 'a', label: '📚 Zotero', parentTitles: ['Research'] }),
+    createListing({ id: 'b', label: 'Reading List', parentTitles: ['Home'] }),
+    createListing({ id: 'c', label: 'Zotero Archive', parentTitles: ['Home'] }),
+  ];
+
+  it('returns all databases for empty query', () => {
+    expect(filterNotionDatabaseListings(listings, '  ')).toBe(listings);
+  });
+
+  it('matches label ignoring case', () => {
+    const result = filterNotionDatabaseListings(listings, 'zotero');
+
+    expect(result.map(({ id }) => id)).toStrictEqual(['a', 'c']);
+  });
+
+  it('requires every word to match label or parent titles', () => {
+    const result = filterNotionDatabaseListings(listings, 'home zotero');
+
+    expect(result.map(({ id }) => id)).toStrictEqual(['c']);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { mockZoteroPrefs } from '../../../../test/utils';
+import {
+  bindPropertyMappings,
+  buildItemFieldSource,
+  ComputedValue,
+  DEFAULT_PROPERTY_MAPPINGS,
+  loadPropertyMappings,
+  parsePropertyMappings,
+  savePropertyMappings,
+} from '../property-mappings';
+
+beforeEach(() => {
+  mockZoteroPrefs();
+});
+
+describe('parsePropertyMappings', () => {
+  it('returns undefined for invalid JSON', () => {
+    expect(parsePropertyMappings('not json')).toBeUndefined();
+  });
+
+  it('ignores invalid mappings', () => {
+    const json = JSON.stringify([
+      { propertyName: 'Year', source: ComputedValue.year },
+      { propertyName: 'Volume', source: 'field:volume' },
+      { propertyName: '', source: ComputedValue.title },
+      { propertyName: 'Unknown', source: 'unknown' },
+      { propertyName: 'Empty Field', source: 'field:' },
+    ]);
+
+    expect(parsePropertyMappings(json)).toStrictEqual([
+      { propertyName: 'Year', source: ComputedValue.year },
+      { propertyName: 'Volume', source: 'field:volume' },
+    ]);
+  });
+
+  it('ignores mappings with invalid property IDs', () => {
+    const json = JSON.stringify([
+      { propertyName: 'Year', propertyIDs: { db1: 1 }, source: 'year' },
+      { propertyName: 'Date', propertyIDs: { db1: 'id' }, source: 'date' },
+    ]);
+
+    expect(parsePropertyMappings(json)).toStrictEqual([
+      { propertyName: 'Date', propertyIDs: { db1: 'id' }, source: 'date' },
+    ]);
+  });
+});
+
+describe('loadPropertyMappings', () => {
+  it('returns default mappings when none have been saved', () => {
+    expect(loadPropertyMappings()).toStrictEqual(DEFAULT_PROPERTY_MAPPINGS);
+  });
+
+  it('returns saved mappings', () => {
+    const mappings = [
+      { propertyName: 'Volume', source: buildItemFieldSource('volume') },
+    ];
+
+    savePropertyMappings(mappings);
+
+    expect(loadPropertyMappings()).toStrictEqual(mappings);
+  });
+});
+
+describe('bindPropertyMappings', () => {
+  it('records property IDs of bound mappings by normalized database ID', () => {
+    const year = { propertyName: 'Year', source: ComputedValue.year };
+    const volume = {
+      propertyName: 'Volume',
+      propertyIDs: { db2: 'id2' },
+      source: buildItemFieldSource('volume'),
+    };
+    savePropertyMappings([year, volume]);
+
+    bindPropertyMappings('db-1', [
+      { mapping: year, propertyID: 'id1' },
+      { mapping: volume, propertyID: 'id3' },
+    ]);
+
+    expect(loadPropertyMappings()).toStrictEqual([
+      { ...year, propertyIDs: { db1: 'id1' } },
+      { ...volume, propertyIDs: { db1: 'id3', db2: 'id2' } },
+    ]);
+  });
+});
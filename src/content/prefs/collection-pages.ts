@@ -0,0 +1,94 @@
+import { isObject, logger } from '../utils';
+
+import { getNoteroPref, NoteroPref, setNoteroPref } from './notero-pref';
+
+/**
+ * A Notion page that mirrors a collection in the Collections database, along
+ * with the values last sent to it, so that unchanged pages are not updated
+ */
+export type CollectionPage = {
+  /** Normalized ID of the database of the page */
+  databaseID?: string;
+  name?: string;
+  pageID: string;
+  /** ID of the page of the parent collection, if any */
+  parentPageID?: string;
+};
+
+/**
+ * Notion pages that mirror collections in the Collections database, keyed by
+ * collection ID
+ */
+export type CollectionPagesRecord = Record<
+  Zotero.Collection['id'],
+  CollectionPage | undefined
+>;
+
+/**
+ * Load collection pages from preferences.
+ * @returns An object of pages keyed by collection ID.
+ */
+export function loadCollectionPages(): CollectionPagesRecord {
+  const json = getNoteroPref(NoteroPref.collectionPages);
+  return parseCollectionPages(json);
+}
+
+/**
+ * Save the Notion page that mirrors a collection.
+ * @param collectionID The ID of the collection.
+ * @param page The page, or `undefined` to remove the page.
+ */
+export function saveCollectionPage(
+  collectionID: Zotero.Collection['id'],
+  page: CollectionPage | undefined,
+): void {
+  const pages = { ...loadCollectionPages(), [collectionID]: page };
+
+  // Removed pages are left out as JSON omits undefined values
+  setNoteroPref(NoteroPref.collectionPages, JSON.stringify(pages));
+}
+
+/**
+ * Parse collection pages from a JSON string.
+ * @param json A JSON string representing collection pages.
+ * @returns An object of pages keyed by collection ID, or an empty object if
+ * parsing fails.
+ */
+export function parseCollectionPages(json: unknown): CollectionPagesRecord {
+  if (typeof json !== 'string') return {};
+
+  try {
+    const parsedValue: unknown = JSON.parse(json);
+    if (!isObject(parsedValue)) return {};
+
+    return Object.entries(parsedValue).reduce(
+      (pages: CollectionPagesRecord, [key, value]) => {
+        const collectionID = Number(key);
+        const page = parseCollectionPage(value);
+        if (collectionID > 0 && page) {
+          pages[collectionID] = page;
+        }
+        return pages;
+      },
+      {},
+    );
+  } catch (error) {
+    logger.error('Failed to parse collection pages:', error);
+    return {};
+  }
+}
+
+function parseCollectionPage(value: unknown): CollectionPage | undefined {
+  // Pages were saved as page IDs before the values sent to them were saved
+  if (typeof value === 'string') return { pageID: value };
+  if (!isObject(value) || typeof value.pageID !== 'string') return;
+
+  const { databaseID, name, pageID, parentPageID } = value;
+
+  return {
+    ...(typeof databaseID === 'string' && { databaseID }),
+    ...(typeof name === 'string' && { name }),
+    pageID,
+    ...(typeof parentPageID === 'string' && { parentPageID }),
+  };
+}
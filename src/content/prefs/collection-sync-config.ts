@@ -3,6 +3,8 @@ import { isObject, logger } from '../utils';
 import { getNoteroPref, NoteroPref, setNoteroPref } from './notero-pref';
 
 export type CollectionSyncConfig = {
+  /** Notion database to sync items to, instead of the default database */
+  notionDatabaseID?: string;
   notionOptionID?: string;
   syncEnabled: boolean;
 };
@@ -53,6 +55,57 @@ export function loadSyncEnabledCollectionIDs(): Set<Zotero.Collection['id']> {
   return new Set(collectionIDs);
 }
 
+/**
+ * Return the ID of the Notion database that an item should sync to, based on
+ * the sync-enabled collections that contain it.
+ *
+ * When the collections target different databases, the target of the deepest
+ * collection wins, so that a subcollection can override its ancestors. Ties
+ * go to the collection that was created first (i.e. has the lowest ID).
+ * Collections without a target database never override those with one.
+ *
+ * @param item A regular Zotero item.
+ * @param syncEnabledConfigs Sync configs of sync-enabled collections.
+ * @returns The target database ID, or `undefined` to use the default database.
+ */
+export function getNotionDatabaseIDForItem(
+  item: Zotero.Item,
+  syncEnabledConfigs: CollectionSyncConfigsRecord = loadSyncEnabledConfigs(),
+): string | undefined {
+  return getNotionDatabaseIDForCollections(
+    item.getCollections(),
+    syncEnabledConfigs,
+  );
+}
+
+/**
+ * Return the ID of the Notion database that an item in the given collections
+ * should sync to, following the rules of `getNotionDatabaseIDForItem`.
+ *
+ * @param collectionIDs IDs of the collections containing an item.
+ * @param syncEnabledConfigs Sync configs of sync-enabled collections.
+ * @returns The target database ID, or `undefined` to use the default database.
+ */
+export function getNotionDatabaseIDForCollections(
+  collectionIDs: Zotero.Collection['id'][],
+  syncEnabledConfigs: CollectionSyncConfigsRecord = loadSyncEnabledConfigs(),
+): string | undefined {
+  const [target] = collectionIDs
+    .reduce<{ collectionID: number; databaseID: string; depth: number }[]>(
+      (targets, collectionID) => {
+        const databaseID = syncEnabledConfigs[collectionID]?.notionDatabaseID;
+        if (!databaseID) return targets;
+
+        const depth = getCollectionDepth(collectionID);
+        return [...targets, { collectionID, databaseID, depth }];
+      },
+      [],
+    )
+    .sort((a, b) => b.depth - a.depth || a.collectionID - b.collectionID);
+
+  return target?.databaseID;
+}
+
 /**
  * Save collection sync configs to preferences as a JSON string.
  * @param configs An object of sync configs.
@@ -91,6 +144,18 @@ export function parseSyncConfigs(json: unknown): CollectionSyncConfigsRecord {
 
 // Helper functions
 
+function getCollectionDepth(collectionID: Zotero.Collection['id']): number {
+  let depth = 0;
+  let collection = Zotero.Collections.get(collectionID);
+
+  while (collection && collection.parentID) {
+    depth += 1;
+    collection = Zotero.Collections.get(collection.parentID);
+  }
+
+  return depth;
+}
+
 function convertKeyToNumber([key, value]: [string, unknown]): [
   number,
   unknown,
@@ -2,12 +2,20 @@ import { FluentMessageId } from '../../locale/fluent-types';
 import { MissingPrefError } from '../errors';
 
 export enum NoteroPref {
+  collectionPages = 'collectionPages',
   collectionSyncConfigs = 'collectionSyncConfigs',
+  collectionsDatabaseID = 'collectionsDatabaseID',
+  notionDatabaseConnections = 'notionDatabaseConnections',
   notionDatabaseID = 'notionDatabaseID',
   notionToken = 'notionToken',
   pageTitleFormat = 'pageTitleFormat',
+  pageTitleTemplate = 'pageTitleTemplate',
+  peopleDatabaseID = 'peopleDatabaseID',
+  propertyMappings = 'propertyMappings',
+  removedItemAction = 'removedItemAction',
   syncNotes = 'syncNotes',
   syncOnModifyItems = 'syncOnModifyItems',
+  trashedItemAction = 'trashedItemAction',
 }
 
 export enum PageTitleFormat {
@@ -16,6 +24,7 @@ export enum PageTitleFormat {
   itemFullCitation = 'itemFullCitation',
   itemInTextCitation = 'itemInTextCitation',
   itemShortTitle = 'itemShortTitle',
+  itemTemplate = 'itemTemplate',
   itemTitle = 'itemTitle',
 }
 
@@ -32,16 +41,45 @@ export const PAGE_TITLE_FORMAT_L10N_IDS: Record<
   [PageTitleFormat.itemInTextCitation]:
     'notero-page-title-format-item-in-text-citation',
   [PageTitleFormat.itemShortTitle]: 'notero-page-title-format-item-short-title',
+  [PageTitleFormat.itemTemplate]: 'notero-page-title-format-item-template',
   [PageTitleFormat.itemTitle]: 'notero-page-title-format-item-title',
 };
 
+/**
+ * What to do with the Notion page of an item that is moved to the trash or,
+ * for `NoteroPref.removedItemAction`, that is removed from the last
+ * sync-enabled collection it belonged to
+ */
+export enum TrashedItemAction {
+  archivePage = 'archivePage',
+  flagPage = 'flagPage',
+  none = 'none',
+}
+
+export const TRASHED_ITEM_ACTION_L10N_IDS: Record<
+  TrashedItemAction,
+  FluentMessageId
+> = {
+  [TrashedItemAction.archivePage]: 'notero-trashed-item-action-archive-page',
+  [TrashedItemAction.flagPage]: 'notero-trashed-item-action-flag-page',
+  [TrashedItemAction.none]: 'notero-trashed-item-action-none',
+};
+
 export type NoteroPrefValue = {
+  collectionPages: string;
   collectionSyncConfigs: string;
+  collectionsDatabaseID: string;
+  notionDatabaseConnections: string;
   notionDatabaseID: string;
   notionToken: string;
   pageTitleFormat: PageTitleFormat;
+  pageTitleTemplate: string;
+  peopleDatabaseID: string;
+  propertyMappings: string;
+  removedItemAction: TrashedItemAction;
   syncNotes: boolean;
   syncOnModifyItems: boolean;
+  trashedItemAction: TrashedItemAction;
   imgurCache: string | null;
 };
 
@@ -72,6 +110,21 @@ function getPageTitleFormatPref(
   return isPageTitleFormat(value) ? value : undefined;
 }
 
+function isTrashedItemAction(
+  value: Zotero.Prefs.Value,
+): value is TrashedItemAction {
+  return (
+    typeof value === 'string' &&
+    Object.values<string>(TrashedItemAction).includes(value)
+  );
+}
+
+function getTrashedItemActionPref(
+  value: Zotero.Prefs.Value,
+): TrashedItemAction | undefined {
+  return isTrashedItemAction(value) ? value : undefined;
+}
+
 function convertRawPrefValue<P extends NoteroPref>(
   pref: P,
   value: Zotero.Prefs.Value,
@@ -83,13 +136,27 @@ function convertRawPrefValue<P extends NoteroPref>(
     (pref === NoteroPref.pageTitleFormat && getPageTitleFormatPref(value)) ||
     undefined;
 
+  const trashedItemActionPref =
+    ((pref === NoteroPref.removedItemAction ||
+      pref === NoteroPref.trashedItemAction) &&
+      getTrashedItemActionPref(value)) ||
+    undefined;
+
   return {
+    [NoteroPref.collectionPages]: stringPref,
     [NoteroPref.collectionSyncConfigs]: stringPref,
+    [NoteroPref.collectionsDatabaseID]: stringPref,
+    [NoteroPref.notionDatabaseConnections]: stringPref,
     [NoteroPref.notionDatabaseID]: stringPref,
     [NoteroPref.notionToken]: stringPref,
     [NoteroPref.pageTitleFormat]: pageTitleFormatPref,
+    [NoteroPref.pageTitleTemplate]: stringPref,
+    [NoteroPref.peopleDatabaseID]: stringPref,
+    [NoteroPref.propertyMappings]: stringPref,
+    [NoteroPref.removedItemAction]: trashedItemActionPref,
     [NoteroPref.syncNotes]: booleanPref,
     [NoteroPref.syncOnModifyItems]: booleanPref,
+    [NoteroPref.trashedItemAction]: trashedItemActionPref,
     [NoteroPref.imgurCache]: stringPref,
   }[pref];
 }
@@ -0,0 +1,116 @@
+import type { NotionConnection } from '../auth';
+import { normalizeID } from '../sync/notion-utils';
+import { isObject, logger } from '../utils';
+
+import { getNoteroPref, NoteroPref, setNoteroPref } from './notero-pref';
+
+/**
+ * Bot IDs of the Notion connections whose tokens can access each database,
+ * keyed by normalized database ID
+ */
+export type DatabaseConnectionsRecord = Record<
+  string,
+  NotionConnection['bot_id'] | undefined
+>;
+
+/**
+ * Load database connections from preferences.
+ * @returns An object of bot IDs keyed by normalized database ID.
+ */
+export function loadDatabaseConnections(): DatabaseConnectionsRecord {
+  const json = getNoteroPref(NoteroPref.notionDatabaseConnections);
+  return parseDatabaseConnections(json);
+}
+
+/**
+ * Return the bot ID of the Notion connection bound to a database.
+ * @param databaseID The ID of a Notion database.
+ * @returns The bot ID, or `undefined` if the database is not bound.
+ */
+export function getBotIDForDatabase(
+  databaseID: string,
+): NotionConnection['bot_id'] | undefined {
+  return loadDatabaseConnections()[normalizeID(databaseID)];
+}
+
+/**
+ * Bind databases to the Notion connections that can access them. Databases
+ * already bound to a connection that can still access them keep their
+ * binding, so that databases shared between workspaces do not switch back and
+ * forth between connections.
+ * @param databaseIDsByBotID The IDs of databases accessible to each connection,
+ * keyed by bot ID.
+ */
+export function bindDatabaseConnections(
+  databaseIDsByBotID: Map<NotionConnection['bot_id'], string[]>,
+): void {
+  const connections = loadDatabaseConnections();
+
+  databaseIDsByBotID.forEach((databaseIDs, botID) => {
+    databaseIDs.map(normalizeID).forEach((databaseID) => {
+      const boundBotID = connections[databaseID];
+      if (!boundBotID || !databaseIDsByBotID.has(boundBotID)) {
+        connections[databaseID] = botID;
+      }
+    });
+  });
+
+  saveDatabaseConnections(connections);
+}
+
+/**
+ * Remove the bindings of all databases bound to a Notion connection.
+ * @param botID The bot ID of the removed connection.
+ */
+export function unbindDatabaseConnections(
+  botID: NotionConnection['bot_id'],
+): void {
+  const connections = Object.entries(loadDatabaseConnections()).filter(
+    ([, boundBotID]) => boundBotID !== botID,
+  );
+
+  saveDatabaseConnections(Object.fromEntries(connections));
+}
+
+/**
+ * Save database connections to preferences as a JSON string.
+ * @param connections An object of bot IDs keyed by normalized database ID.
+ */
+export function saveDatabaseConnections(
+  connections: DatabaseConnectionsRecord,
+): void {
+  setNoteroPref(
+    NoteroPref.notionDatabaseConnections,
+    JSON.stringify(connections),
+  );
+}
+
+/**
+ * Parse database connections from a JSON string.
+ * @param json A JSON string representing database connections.
+ * @returns An object of bot IDs keyed by normalized database ID, or an empty
+ * object if parsing fails.
+ */
+export function parseDatabaseConnections(
+  json: unknown,
+): DatabaseConnectionsRecord {
+  if (typeof json !== 'string') return {};
+
+  try {
+    const parsedValue: unknown = JSON.parse(json);
+    if (!isObject(parsedValue)) return {};
+
+    return Object.entries(parsedValue).reduce(
+      (connections: DatabaseConnectionsRecord, [databaseID, botID]) => {
+        if (typeof botID === 'string') {
+          connections[normalizeID(databaseID)] = botID;
+        }
+        return connections;
+      },
+      {},
+    );
+  } catch (error) {
+    logger.error('Failed to parse database connections:', error);
+    return {};
+  }
+}
@@ -0,0 +1,170 @@
+import VirtualizedTable, {
+  makeRowRenderer,
+  type TreeSelection,
+  // eslint-disable-next-line import/no-unresolved
+} from 'components/virtualized-table';
+import React from 'react';
+
+import {
+  filterNotionDatabaseListings,
+  type NotionDatabaseListing,
+} from './notion-database-search';
+
+const COLUMNS = [
+  {
+    dataKey: 'label',
+    flex: 2,
+  },
+  {
+    dataKey: 'parentPath',
+    flex: 2,
+  },
+  {
+    dataKey: 'lastEdited',
+    flex: 1,
+  },
+] as const;
+
+export type DataKey = (typeof COLUMNS)[number]['dataKey'];
+
+type NotionDatabasePickerRow = NotionDatabaseListing & {
+  lastEdited: string;
+  parentPath: string;
+};
+
+type Props = {
+  columnLabels: Record<DataKey, string>;
+  container: Element;
+  databases: NotionDatabaseListing[];
+  onSelect: (databaseID: string) => void;
+  /** Text used to filter the databases */
+  query: string;
+  selectedDatabaseID?: string;
+};
+
+const DATE_FORMAT = new Intl.DateTimeFormat(Zotero.locale, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const PARENT_PATH_SEPARATOR = ' / ';
+
+export class NotionDatabasePicker extends React.Component<Props> {
+  private _rows?: NotionDatabasePickerRow[];
+
+  private observer?: IntersectionObserver;
+  private table: VirtualizedTable<DataKey> | null = null;
+
+  private observeFirstView() {
+    this.observer = new IntersectionObserver(
+      (entries: IntersectionObserverEntry[]) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            this.refreshUponFirstView();
+          }
+        });
+      },
+    );
+    this.observer.observe(this.props.container);
+  }
+
+  private refreshUponFirstView() {
+    this.table?.invalidate();
+    this.observer?.disconnect();
+  }
+
+  private buildRows(): NotionDatabasePickerRow[] {
+    const { databases, query } = this.props;
+
+    return filterNotionDatabaseListings(databases, query).map((database) => ({
+      ...database,
+      lastEdited: DATE_FORMAT.format(new Date(database.lastEditedTime)),
+      parentPath: database.parentTitles.join(PARENT_PATH_SEPARATOR),
+    }));
+  }
+
+  private get rows(): NotionDatabasePickerRow[] {
+    if (!this._rows) {
+      this._rows = this.buildRows();
+    }
+    return this._rows;
+  }
+
+  private refresh() {
+    this._rows = undefined;
+    this.table?.invalidate();
+    this.selectCurrentDatabase();
+  }
+
+  /**
+   * Reflect the selected database in the table, such as after the rows
+   * are filtered or the database is changed elsewhere.
+   */
+  private selectCurrentDatabase() {
+    const selection = this.table?.selection;
+    if (!selection) return;
+
+    const index = this.rows.findIndex(
+      ({ id }) => id === this.props.selectedDatabaseID,
+    );
+
+    if (index === -1) {
+      selection.clearSelection();
+    } else if (!selection.isSelected(index)) {
+      selection.select(index, false);
+    }
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (
+      prevProps.databases !== this.props.databases ||
+      prevProps.query !== this.props.query ||
+      prevProps.selectedDatabaseID !== this.props.selectedDatabaseID
+    ) {
+      this.refresh();
+    }
+  }
+
+  getRowCount = () => this.rows.length;
+
+  getRowString = (index: number) => this.rows[index]?.title || '';
+
+  handleSelectionChange = (selection: TreeSelection) => {
+    const databaseID = this.rows[selection.focused]?.id;
+    if (
+      selection.isSelected(selection.focused) &&
+      databaseID &&
+      databaseID !== this.props.selectedDatabaseID
+    ) {
+      this.props.onSelect(databaseID);
+    }
+  };
+
+  renderItem = makeRowRenderer((index) => this.rows[index] || {});
+
+  setTableRef = (ref: typeof this.table) => {
+    this.table = ref;
+    this.observeFirstView();
+    this.selectCurrentDatabase();
+  };
+
+  render() {
+    const columns = COLUMNS.map((column) => ({
+      ...column,
+      label: this.props.columnLabels[column.dataKey],
+    }));
+
+    return (
+      <VirtualizedTable
+        id="notero-notionDatabasePicker"
+        columns={columns}
+        getRowCount={this.getRowCount}
+        getRowString={this.getRowString}
+        ref={this.setTableRef}
+        renderItem={this.renderItem}
+        showHeader
+        onSelectionChange={this.handleSelectionChange}
+      />
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  type Client,
+  collectPaginatedAPI,
+  isFullBlock,
+  isFullDatabase,
+  isFullPage,
+} from '@notionhq/client';
+import type {
+  DatabaseObjectResponse,
+  PageObjectResponse,
+  RichTextItemResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+
+import { normalizeID } from '../sync/notion-utils';
+import { logger } from '../utils';
+
+import type { NotionDatabaseOption } from './sync-configs-table';
+
+/**
+ * A Notion database that can be chosen in the database picker
+ */
+export type NotionDatabaseListing = NotionDatabaseOption & {
+  icon: string | null;
+  /** ISO 8601 timestamp of when the database was last edited */
+  lastEditedTime: string;
+  /** Titles of the pages that contain the database, outermost first */
+  parentTitles: string[];
+  title: string;
+};
+
+type NotionParent = DatabaseObjectResponse['parent'];
+
+type ParentObject = { parent: NotionParent; title?: string };
+
+/** Cache of parent objects by ID, shared by the databases of a workspace */
+type ParentCache = Map<string, Promise<ParentObject | undefined>>;
+
+/**
+ * Maximum number of ancestors to retrieve for a database, to limit the
+ * number of requests made for deeply nested databases
+ */
+const MAX_PARENT_DEPTH = 5;
+
+const UNTITLED = 'Untitled';
+
+/**
+ * Retrieve all databases accessible to a Notion connection, paging through
+ * all search results.
+ * @param notion The Notion client of the connection.
+ * @param workspaceName If given, the workspace name is included in the label
+ * and parent path of each database.
+ */
+export async function retrieveNotionDatabaseListings(
+  notion: Client,
+  workspaceName?: string,
+): Promise<NotionDatabaseListing[]> {
+  const results = await collectPaginatedAPI(notion.search, {
+    filter: { property: 'object', value: 'database' },
+  });
+  const parentCache: ParentCache = new Map();
+
+  return Promise.all(
+    results
+      .filter(isFullDatabase)
+      .map((database) =>
+        buildNotionDatabaseListing(
+          notion,
+          database,
+          parentCache,
+          workspaceName,
+        ),
+      ),
+  );
+}
+
+/**
+ * Retrieve a single database by ID, such as one entered by the user.
+ * @throws If the database does not exist or is not accessible.
+ */
+export async function retrieveNotionDatabaseListing(
+  notion: Client,
+  databaseID: string,
+  workspaceName?: string,
+): Promise<NotionDatabaseListing> {
+  const database = await notion.databases.retrieve({
+    database_id: databaseID,
+  });
+  if (!isFullDatabase(database)) {
+    throw new Error(`Database is not accessible: ${databaseID}`);
+  }
+
+  return buildNotionDatabaseListing(notion, database, new Map(), workspaceName);
+}
+
+/**
+ * Filter databases to those matching every word of a search query.
+ * Titles, parent page titles, and workspace names are searched.
+ */
+export function filterNotionDatabaseListings(
+  listings: NotionDatabaseListing[],
+  query: string,
+): NotionDatabaseListing[] {
+  const terms = query.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return listings;
+
+  return listings.filter((listing) => {
+    const text = [listing.label, ...listing.parentTitles]
+      .join('\n')
+      .toLocaleLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * Get the title of a page from its title property.
+ */
+export function getNotionPageTitle(page: PageObjectResponse): string {
+  const titleProperty = Object.values(page.properties).find(
+    (property) => property.type === 'title',
+  );
+  return titleProperty?.type === 'title'
+    ? getPlainText(titleProperty.title)
+    : '';
+}
+
+async function buildNotionDatabaseListing(
+  notion: Client,
+  database: DatabaseObjectResponse,
+  parentCache: ParentCache,
+  workspaceName: string | undefined,
+): Promise<NotionDatabaseListing> {
+  const title = getPlainText(database.title) || UNTITLED;
+  const icon = database.icon?.type === 'emoji' ? database.icon.emoji : null;
+  const label = icon ? `${icon} ${title}` : title;
+  const parentTitles = await getParentTitles(
+    notion,
+    database.parent,
+    parentCache,
+  );
+
+  return {
+    icon,
+    id: normalizeID(database.id),
+    label: workspaceName ? `${label} (${workspaceName})` : label,
+    lastEditedTime: database.last_edited_time,
+    parentTitles: workspaceName
+      ? [workspaceName, ...parentTitles]
+      : parentTitles,
+    title,
+  };
+}
+
+/**
+ * Get the titles of the ancestors of an object. Blocks are skipped, as they
+ * have no title, and ancestors that are not accessible end the path.
+ */
+async function getParentTitles(
+  notion: Client,
+  parent: NotionParent,
+  parentCache: ParentCache,
+): Promise<string[]> {
+  const titles: string[] = [];
+  let currentParent = parent;
+
+  for (let depth = 0; depth < MAX_PARENT_DEPTH; depth++) {
+    if (currentParent.type === 'workspace') break;
+
+    const parentID = getParentID(currentParent);
+    let parentObject = parentCache.get(parentID);
+    if (!parentObject) {
+      parentObject = retrieveParentObject(notion, currentParent);
+      parentCache.set(parentID, parentObject);
+    }
+
+    const resolvedParent = await parentObject;
+    if (!resolvedParent) break;
+
+    if (resolvedParent.title !== undefined) {
+      titles.unshift(resolvedParent.title || UNTITLED);
+    }
+    currentParent = resolvedParent.parent;
+  }
+
+  return titles;
+}
+
+function getParentID(parent: Exclude<NotionParent, { type: 'workspace' }>) {
+  switch (parent.type) {
+    case 'block_id':
+      return parent.block_id;
+    case 'database_id':
+      return parent.database_id;
+    case 'page_id':
+      return parent.page_id;
+  }
+}
+
+async function retrieveParentObject(
+  notion: Client,
+  parent: Exclude<NotionParent, { type: 'workspace' }>,
+): Promise<ParentObject | undefined> {
+  try {
+    switch (parent.type) {
+      case 'block_id': {
+        const block = await notion.blocks.retrieve({
+          block_id: parent.block_id,
+        });
+        return isFullBlock(block) ? { parent: block.parent } : undefined;
+      }
+      case 'database_id': {
+        const database = await notion.databases.retrieve({
+          database_id: parent.database_id,
+        });
+        return isFullDatabase(database)
+          ? { parent: database.parent, title: getPlainText(database.title) }
+          : undefined;
+      }
+      case 'page_id': {
+        const page = await notion.pages.retrieve({ page_id: parent.page_id });
+        return isFullPage(page)
+          ? { parent: page.parent, title: getNotionPageTitle(page) }
+          : undefined;
+      }
+    }
+  } catch (error) {
+    logger.debug('Failed to retrieve parent', getParentID(parent), error);
+    return undefined;
+  }
+}
+
+function getPlainText(richText: RichTextItemResponse[]): string {
+  return richText.map((t) => t.plain_text).join('');
+}
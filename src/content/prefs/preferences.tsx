@@ -1,15 +1,36 @@
-import { APIErrorCode, type Client, isFullDatabase } from '@notionhq/client';
-import type { DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import {
+  APIErrorCode,
+  type Client,
+  collectPaginatedAPI,
+  isFullPage,
+} from '@notionhq/client';
+import type { PageObjectResponse } from '@notionhq/client/build/src/api-endpoints';
 import React from 'react';
 import ReactDOM from 'react-dom';
-import type { createRoot } from 'react-dom/client';
+import type { createRoot, Root } from 'react-dom/client';
 
 import type { FluentMessageId } from '../../locale/fluent-types';
-import type { NotionAuthManager } from '../auth';
+import type { NotionAuthManager, NotionConnection } from '../auth';
 import { LocalizableError } from '../errors';
-import type { EventManager } from '../services';
+import type { EventManager, SyncManager } from '../services';
+import {
+  addDatabaseProperties,
+  createDatabase,
+  getMissingProperties,
+} from '../sync/database-schema';
 import { getNotionClient } from '../sync/notion-client';
-import { isNotionErrorWithCode, normalizeID } from '../sync/notion-utils';
+import type { DatabaseProperties } from '../sync/notion-types';
+import {
+  isNotionErrorWithCode,
+  normalizeID,
+  parseNotionID,
+} from '../sync/notion-utils';
+import { buildPageTitle } from '../sync/property-builder';
+import {
+  PROPERTY_MAPPING_STATUS_L10N_IDS,
+  type PropertyMappingStatus,
+} from '../sync/property-mapping';
+import { getCitationFormat } from '../sync/sync-job';
 import {
   createXULElement,
   getGlobalNotero,
@@ -18,11 +39,61 @@ import {
   logger,
 } from '../utils';
 
-import { PAGE_TITLE_FORMAT_L10N_IDS, PageTitleFormat } from './notero-pref';
+import {
+  getNoteroPref,
+  NoteroPref,
+  PAGE_TITLE_FORMAT_L10N_IDS,
+  PageTitleFormat,
+  registerNoteroPrefObserver,
+  setNoteroPref,
+  TRASHED_ITEM_ACTION_L10N_IDS,
+  TrashedItemAction,
+  unregisterNoteroPrefObserver,
+} from './notero-pref';
+import { bindDatabaseConnections } from './notion-database-connections';
+import { NotionDatabasePicker } from './notion-database-picker';
+import {
+  getNotionPageTitle,
+  type NotionDatabaseListing,
+  retrieveNotionDatabaseListing,
+  retrieveNotionDatabaseListings,
+} from './notion-database-search';
+import {
+  buildItemFieldSource,
+  COMPUTED_VALUE_L10N_IDS,
+  ComputedValue,
+  getItemFieldName,
+  isItemFieldSource,
+  loadPropertyMappings,
+  type PropertySource,
+  resetPropertyMappings,
+  savePropertyMappings,
+} from './property-mappings';
+import {
+  PropertyMappingsTable,
+  promptPropertyName,
+} from './property-mappings-table';
 import { SyncConfigsTable } from './sync-configs-table';
 
 type ReactDOMClient = typeof ReactDOM & { createRoot: typeof createRoot };
 
+type NotionDatabasePickerProps = React.ComponentProps<
+  typeof NotionDatabasePicker
+>;
+
+type NotionWorkspace = {
+  /** The OAuth connection, or `undefined` for a legacy integration token */
+  connection?: NotionConnection;
+  notion: Client;
+  workspaceName: string;
+};
+
+type NotionPageOption = {
+  label: string;
+  page: PageObjectResponse;
+  workspace: NotionWorkspace;
+};
+
 type MenuItem = {
   disabled?: boolean;
   l10nId?: FluentMessageId;
@@ -46,23 +117,49 @@ function setMenuItems(menuList: XUL.MenuListElement, items: MenuItem[]): void {
   });
 }
 
+function getNotionPageLabel(page: PageObjectResponse): string {
+  const title = getNotionPageTitle(page);
+  const icon = page.icon?.type === 'emoji' ? page.icon.emoji : null;
+
+  return [icon, title || 'Untitled'].filter(Boolean).join(' ');
+}
+
 class Preferences {
+  private collectionsDatabaseMenu!: XUL.MenuListElement;
+  private database?: { id: string; properties: DatabaseProperties };
   private eventManager!: EventManager;
   private notionAuthManager!: NotionAuthManager;
   private notionConnectionContainer!: XUL.XULElement;
   private notionConnectionSpinner!: XUL.XULElement;
   private notionConnectButton!: XUL.ButtonElement;
-  private notionUpgradeConnectionButton!: XUL.ButtonElement;
-  private notionDatabaseMenu!: XUL.MenuListElement;
+  private notionDatabases: NotionDatabaseListing[] = [];
+  private notionDatabaseSearch!: HTMLInputElement;
   private notionError!: XUL.LabelElement;
-  private notionWorkspaceLabel!: XUL.LabelElement;
+  private notionWorkspaceList!: XUL.XULElement;
+  private notionWorkspaces: NotionWorkspace[] = [];
   private pageTitleFormatMenu!: XUL.MenuListElement;
+  private peopleDatabaseMenu!: XUL.MenuListElement;
+  private pageTitleTemplateContainer!: XUL.XULElement;
+  private pageTitleTemplateInput!: HTMLInputElement;
+  private pageTitleTemplatePreview!: XUL.LabelElement;
+  private prefObservers: symbol[] = [];
+  private propertyMappingsAddMenu!: XUL.MenuPopupElement;
+  private removedItemActionMenu!: XUL.MenuListElement;
+  private renderPropertyMappingsTable?: () => void;
+  private renderNotionDatabasePicker?: () => void;
+  private renderSyncConfigsTable?: () => void;
+  private syncManager!: SyncManager;
+  private syncQueueClearButton!: XUL.ButtonElement;
+  private syncQueueLabel!: XUL.LabelElement;
+  private syncQueueShowButton!: XUL.ButtonElement;
+  private trashedItemActionMenu!: XUL.MenuListElement;
 
   public async init(): Promise<void> {
     await Zotero.uiReadyPromise;
 
     this.eventManager = getGlobalNotero().eventManager;
     this.notionAuthManager = getGlobalNotero().notionAuthManager;
+    this.syncManager = getGlobalNotero().syncManager;
 
     /* eslint-disable @typescript-eslint/no-non-null-assertion */
     this.notionConnectionContainer = getXULElementById(
@@ -72,21 +169,46 @@ class Preferences {
       'notero-notionConnection-spinner',
     )!;
     this.notionConnectButton = getXULElementById('notero-notionConnect')!;
-    this.notionUpgradeConnectionButton = getXULElementById(
-      'notero-notionUpgradeConnection',
-    )!;
-    this.notionWorkspaceLabel = getXULElementById('notero-notionWorkspace')!;
-    this.notionDatabaseMenu = getXULElementById('notero-notionDatabase')!;
+    this.notionWorkspaceList = getXULElementById('notero-notionWorkspaces')!;
+    this.notionDatabaseSearch = document.getElementById(
+      'notero-notionDatabase-search',
+    ) as HTMLInputElement;
     this.notionError = getXULElementById('notero-notionError')!;
     this.pageTitleFormatMenu = getXULElementById('notero-pageTitleFormat')!;
+    this.peopleDatabaseMenu = getXULElementById('notero-peopleDatabase')!;
+    this.collectionsDatabaseMenu = getXULElementById(
+      'notero-collectionsDatabase',
+    )!;
+    this.pageTitleTemplateContainer = getXULElementById(
+      'notero-pageTitleTemplate-container',
+    )!;
+    this.pageTitleTemplateInput = document.getElementById(
+      'notero-pageTitleTemplate',
+    ) as HTMLInputElement;
+    this.pageTitleTemplatePreview = getXULElementById(
+      'notero-pageTitleTemplate-preview',
+    )!;
+    this.propertyMappingsAddMenu = getXULElementById(
+      'notero-propertyMappingsAdd-menu',
+    )!;
+    this.removedItemActionMenu = getXULElementById('notero-removedItemAction')!;
+    this.syncQueueClearButton = getXULElementById('notero-syncQueueClear')!;
+    this.syncQueueLabel = getXULElementById('notero-syncQueue')!;
+    this.syncQueueShowButton = getXULElementById('notero-syncQueueShow')!;
+    this.trashedItemActionMenu = getXULElementById('notero-trashedItemAction')!;
     /* eslint-enable @typescript-eslint/no-non-null-assertion */
 
     window.addEventListener('unload', () => {
       this.deinit();
     });
 
+    await this.initNotionDatabasePicker();
     await this.initPageTitleFormatMenu();
+    this.initPageTitleTemplate();
+    await this.initPropertyMappingsTable();
     await this.initSyncConfigsTable();
+    this.initTrashedItemActionMenus();
+    this.refreshSyncQueueSection();
 
     // Don't block window from loading while waiting for network responses
     setTimeout(() => {
@@ -97,6 +219,15 @@ class Preferences {
       'notion-connection.add',
       this.handleNotionConnectionAdd,
     );
+    this.prefObservers = [
+      registerNoteroPrefObserver(NoteroPref.notionDatabaseID, () => {
+        this.renderNotionDatabasePicker?.();
+        void this.refreshDatabaseProperties();
+      }),
+      registerNoteroPrefObserver(NoteroPref.pageTitleFormat, () => {
+        void this.refreshPageTitlePreview();
+      }),
+    ];
   }
 
   private deinit(): void {
@@ -104,6 +235,50 @@ class Preferences {
       'notion-connection.add',
       this.handleNotionConnectionAdd,
     );
+    this.prefObservers.forEach(unregisterNoteroPrefObserver);
+  }
+
+  private async initNotionDatabasePicker(): Promise<void> {
+    const pickerContainer = document.getElementById(
+      'notero-notionDatabasePicker-container',
+    );
+    if (!pickerContainer) return;
+
+    const [database, parentPage, lastEdited] = await document.l10n.formatValues(
+      [
+        'notero-preferences-notion-database-column',
+        'notero-preferences-notion-parent-page-column',
+        'notero-preferences-notion-last-edited-column',
+      ],
+    );
+    const columnLabels: NotionDatabasePickerProps['columnLabels'] = {
+      label: database || 'Notion Database',
+      lastEdited: lastEdited || 'Last Edited',
+      parentPath: parentPage || 'Parent Page',
+    };
+
+    const root: Root = (ReactDOM as ReactDOMClient).createRoot(pickerContainer);
+
+    this.renderNotionDatabasePicker = () => {
+      root.render(
+        <NotionDatabasePicker
+          columnLabels={columnLabels}
+          container={pickerContainer}
+          databases={this.notionDatabases}
+          query={this.notionDatabaseSearch.value}
+          selectedDatabaseID={getNoteroPref(NoteroPref.notionDatabaseID)}
+          onSelect={(databaseID) => {
+            setNoteroPref(NoteroPref.notionDatabaseID, databaseID);
+          }}
+        />,
+      );
+    };
+
+    this.notionDatabaseSearch.addEventListener('input', () => {
+      this.renderNotionDatabasePicker?.();
+    });
+
+    this.renderNotionDatabasePicker();
   }
 
   private async initPageTitleFormatMenu(): Promise<void> {
@@ -122,30 +297,212 @@ class Preferences {
     this.pageTitleFormatMenu.disabled = false;
   }
 
+  private initPageTitleTemplate(): void {
+    this.pageTitleTemplateInput.addEventListener('input', () => {
+      void this.refreshPageTitlePreview();
+    });
+
+    void this.refreshPageTitlePreview();
+  }
+
+  /**
+   * Show the page title template of the item selected in the main window, as
+   * it would sync with the template being edited.
+   */
+  private async refreshPageTitlePreview(): Promise<void> {
+    const pageTitleFormat = getNoteroPref(NoteroPref.pageTitleFormat);
+    const isTemplate = pageTitleFormat === PageTitleFormat.itemTemplate;
+
+    this.pageTitleTemplateContainer.hidden = !isTemplate;
+    if (!isTemplate) return;
+
+    const item = Zotero.getActiveZoteroPane()
+      ?.getSelectedItems(false)
+      .map(({ topLevelItem }) => topLevelItem)
+      .find((selectedItem) => selectedItem.isRegularItem());
+
+    if (!item) {
+      document.l10n.setAttributes(
+        this.pageTitleTemplatePreview,
+        'notero-preferences-page-title-template-preview-unavailable',
+      );
+      return;
+    }
+
+    const title = await buildPageTitle({
+      citationFormat: getCitationFormat(),
+      item,
+      pageTitleFormat,
+      pageTitleTemplate: this.pageTitleTemplateInput.value,
+    });
+
+    document.l10n.setAttributes(
+      this.pageTitleTemplatePreview,
+      'notero-preferences-page-title-template-preview',
+      { title },
+    );
+  }
+
+  private async initPropertyMappingsTable(): Promise<void> {
+    /* eslint-disable @typescript-eslint/no-non-null-assertion */
+    const propertyMappingsTableContainer = document.getElementById(
+      'notero-propertyMappingsTable-container',
+    )!;
+    const contextMenu = getXULElementById<XUL.MenuPopupElement>(
+      'notero-propertyMappingsTable-contextMenu',
+    )!;
+    /* eslint-enable @typescript-eslint/no-non-null-assertion */
+    const [source, property, status] = await document.l10n.formatValues([
+      'notero-preferences-source-column',
+      'notero-preferences-property-column',
+      'notero-preferences-status-column',
+    ]);
+    const columnLabels = {
+      propertyName: property || 'Notion Property',
+      sourceLabel: source || 'Zotero Value',
+      statusLabel: status || 'Status',
+    };
+
+    const computedValues = Object.values(ComputedValue);
+    const computedValueLabels = await document.l10n.formatValues(
+      computedValues.map((value) => COMPUTED_VALUE_L10N_IDS[value]),
+    );
+    const getSourceLabel = (source: PropertySource): string => {
+      if (isItemFieldSource(source)) {
+        const field = getItemFieldName(source);
+        return Zotero.ItemFields.getID(field)
+          ? Zotero.ItemFields.getLocalizedString(field)
+          : field;
+      }
+      return computedValueLabels[computedValues.indexOf(source)] || source;
+    };
+
+    const statuses = Object.keys(
+      PROPERTY_MAPPING_STATUS_L10N_IDS,
+    ) as PropertyMappingStatus[];
+    const statusValues = await document.l10n.formatValues(
+      statuses.map((status) => PROPERTY_MAPPING_STATUS_L10N_IDS[status]),
+    );
+    const statusLabels = Object.fromEntries(
+      statuses.map((status, index) => [status, statusValues[index] || status]),
+    ) as Record<PropertyMappingStatus, string>;
+
+    const root: Root = (ReactDOM as ReactDOMClient).createRoot(
+      propertyMappingsTableContainer,
+    );
+
+    this.renderPropertyMappingsTable = () => {
+      root.render(
+        <PropertyMappingsTable
+          columnLabels={columnLabels}
+          container={propertyMappingsTableContainer}
+          contextMenu={contextMenu}
+          database={this.database}
+          getSourceLabel={getSourceLabel}
+          statusLabels={statusLabels}
+        />,
+      );
+    };
+
+    this.renderPropertyMappingsTable();
+    this.initPropertyMappingsAddMenu(getSourceLabel);
+  }
+
+  private initPropertyMappingsAddMenu(
+    getSourceLabel: (source: PropertySource) => string,
+  ): void {
+    const createMenuItem = (source: PropertySource) => {
+      const label = getSourceLabel(source);
+      const item = createXULElement(document, 'menuitem');
+      item.label = label;
+      item.addEventListener('command', () => {
+        void this.addPropertyMapping(source, label);
+      });
+      return item;
+    };
+
+    const computedValueItems = Object.values(ComputedValue).map(createMenuItem);
+    const itemFieldItems = Zotero.ItemFields.getAll()
+      .map(({ name }) => buildItemFieldSource(name))
+      .sort((a, b) => getSourceLabel(a).localeCompare(getSourceLabel(b)))
+      .map(createMenuItem);
+
+    this.propertyMappingsAddMenu.replaceChildren(
+      ...computedValueItems,
+      createXULElement(document, 'menuseparator'),
+      ...itemFieldItems,
+    );
+  }
+
+  private async addPropertyMapping(
+    source: PropertySource,
+    sourceLabel: string,
+  ): Promise<void> {
+    const propertyName = await promptPropertyName(sourceLabel, sourceLabel);
+    if (!propertyName) return;
+
+    savePropertyMappings([...loadPropertyMappings(), { propertyName, source }]);
+  }
+
   private async initSyncConfigsTable(): Promise<void> {
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    /* eslint-disable @typescript-eslint/no-non-null-assertion */
     const syncConfigsTableContainer = document.getElementById(
       'notero-syncConfigsTable-container',
     )!;
-    const collection = await document.l10n.formatValue(
-      'notero-preferences-collection-column',
-    );
-    const syncEnabled = await document.l10n.formatValue(
-      'notero-preferences-sync-enabled-column',
-    );
+    const databaseMenu = getXULElementById<XUL.MenuPopupElement>(
+      'notero-syncConfigsTable-databaseMenu',
+    )!;
+    /* eslint-enable @typescript-eslint/no-non-null-assertion */
+    const [collection, syncEnabled, notionDatabase, defaultDatabase] =
+      await document.l10n.formatValues([
+        'notero-preferences-collection-column',
+        'notero-preferences-sync-enabled-column',
+        'notero-preferences-notion-database-column',
+        'notero-preferences-default-database',
+      ]);
     const columnLabels = {
       collectionFullName: collection || 'Collection',
+      notionDatabaseName: notionDatabase || 'Notion Database',
       syncEnabled: syncEnabled || 'Sync Enabled',
     };
 
-    (ReactDOM as ReactDOMClient)
-      .createRoot(syncConfigsTableContainer)
-      .render(
+    const root: Root = (ReactDOM as ReactDOMClient).createRoot(
+      syncConfigsTableContainer,
+    );
+
+    this.renderSyncConfigsTable = () => {
+      root.render(
         <SyncConfigsTable
           columnLabels={columnLabels}
           container={syncConfigsTableContainer}
+          databaseMenu={databaseMenu}
+          databases={this.notionDatabases}
+          defaultDatabaseLabel={defaultDatabase || 'Default Database'}
         />,
       );
+    };
+
+    this.renderSyncConfigsTable();
+  }
+
+  private initTrashedItemActionMenus(): void {
+    const menuItems = Object.values(TrashedItemAction).map<MenuItem>(
+      (action) => ({
+        l10nId: TRASHED_ITEM_ACTION_L10N_IDS[action],
+        value: action,
+      }),
+    );
+
+    setMenuItems(this.removedItemActionMenu, menuItems);
+    setMenuItems(this.trashedItemActionMenu, menuItems);
+  }
+
+  private refreshSyncQueueSection(): void {
+    const count = this.syncManager.getQueuedItemIDs().length;
+
+    document.l10n.setArgs(this.syncQueueLabel, { count });
+    this.syncQueueClearButton.disabled = count === 0;
+    this.syncQueueShowButton.disabled = count === 0;
   }
 
   private async isBetterBibTeXActive(): Promise<boolean> {
@@ -163,10 +520,10 @@ class Preferences {
   };
 
   private async refreshNotionConnectionSection(): Promise<void> {
-    const connection = await this.notionAuthManager.getFirstConnection();
+    const connections = await this.notionAuthManager.getAllConnections();
     const legacyToken = this.notionAuthManager.getLegacyAuthToken();
 
-    const authToken = connection?.access_token || legacyToken;
+    const authToken = connections[0]?.access_token || legacyToken;
 
     this.notionError.hidden = true;
 
@@ -179,80 +536,448 @@ class Preferences {
     this.notionConnectionSpinner.setAttribute('status', 'animate');
 
     try {
-      const notion = getNotionClient(authToken, window);
-
-      const user = await notion.users.me({});
-      const workspaceName =
-        (user.type === 'bot' && user.bot.workspace_name) || 'Connected';
+      const workspaces = connections.length
+        ? connections.map<NotionWorkspace>((connection) => ({
+            connection,
+            notion: getNotionClient(connection.access_token, window),
+            workspaceName: connection.workspace_name || connection.workspace_id,
+          }))
+        : [await this.getLegacyWorkspace(authToken)];
 
-      document.l10n.setArgs(this.notionWorkspaceLabel, {
-        'workspace-name': workspaceName,
-      });
+      this.notionWorkspaces = workspaces;
+      this.renderNotionWorkspaces(workspaces);
 
       this.notionConnectButton.hidden = true;
-      this.notionUpgradeConnectionButton.hidden = Boolean(connection);
       this.notionConnectionContainer.hidden = false;
       this.notionConnectionSpinner.removeAttribute('status');
 
-      await this.refreshNotionDatabaseMenu(notion);
+      await this.refreshNotionDatabases(workspaces);
+      await this.refreshDatabaseProperties();
     } catch (error) {
-      logger.error(error);
-
       this.notionConnectionSpinner.removeAttribute('status');
-      this.notionError.hidden = false;
-      this.notionError.value = await getLocalizedErrorMessage(
-        error,
-        document.l10n,
+      await this.showNotionError(error);
+    }
+  }
+
+  private async showNotionError(error: unknown): Promise<void> {
+    logger.error(error);
+
+    this.notionError.hidden = false;
+    this.notionError.value = await getLocalizedErrorMessage(
+      error,
+      document.l10n,
+    );
+
+    if (isNotionErrorWithCode(error, APIErrorCode.Unauthorized)) {
+      this.notionConnectButton.hidden = false;
+    }
+  }
+
+  private async getLegacyWorkspace(
+    authToken: string,
+  ): Promise<NotionWorkspace> {
+    const notion = getNotionClient(authToken, window);
+
+    const user = await notion.users.me({});
+    const workspaceName =
+      (user.type === 'bot' && user.bot.workspace_name) || 'Connected';
+
+    return { notion, workspaceName };
+  }
+
+  private renderNotionWorkspaces(workspaces: NotionWorkspace[]): void {
+    const rows = workspaces.map(({ connection, workspaceName }) => {
+      const row = createXULElement(document, 'hbox');
+      row.setAttribute('align', 'center');
+
+      const label = createXULElement(document, 'label');
+      document.l10n.setAttributes(
+        label,
+        'notero-preferences-notion-workspace',
+        {
+          'workspace-name': workspaceName,
+        },
       );
+      row.append(label);
 
-      if (isNotionErrorWithCode(error, APIErrorCode.Unauthorized)) {
-        this.notionConnectButton.hidden = false;
+      if (!connection) {
+        const upgradeButton = createXULElement(document, 'button');
+        document.l10n.setAttributes(
+          upgradeButton,
+          'notero-preferences-notion-upgrade-button',
+        );
+        upgradeButton.addEventListener('command', (event) => {
+          void this.upgradeNotionConnection(event);
+        });
+        row.append(upgradeButton);
       }
-    }
+
+      const disconnectButton = createXULElement(document, 'button');
+      document.l10n.setAttributes(
+        disconnectButton,
+        'notero-preferences-notion-disconnect-button',
+      );
+      disconnectButton.addEventListener('command', () => {
+        void this.disconnectNotion(connection);
+      });
+      row.append(disconnectButton);
+
+      return row;
+    });
+
+    this.notionWorkspaceList.replaceChildren(...rows);
   }
 
-  private async refreshNotionDatabaseMenu(notion: Client): Promise<void> {
-    let menuItems: MenuItem[] = [];
+  /**
+   * Refresh the databases accessible to any connected workspace, and bind
+   * each database to the connection that can access it. A workspace that
+   * fails to load does not prevent databases of other workspaces from loading.
+   */
+  private async refreshNotionDatabases(
+    workspaces: NotionWorkspace[],
+  ): Promise<void> {
+    const databases: NotionDatabaseListing[] = [];
+    const databaseIDsByBotID = new Map<NotionConnection['bot_id'], string[]>();
 
-    this.notionDatabaseMenu.disabled = true;
+    this.notionDatabaseSearch.disabled = true;
 
     try {
-      const databases = await this.retrieveNotionDatabases(notion);
+      for (const { connection, notion, workspaceName } of workspaces) {
+        let listings: NotionDatabaseListing[];
 
-      menuItems = databases.map<MenuItem>((database) => {
-        const title = database.title.map((t) => t.plain_text).join('');
-        const icon =
-          database.icon?.type === 'emoji' ? database.icon.emoji : null;
+        try {
+          listings = await retrieveNotionDatabaseListings(
+            notion,
+            workspaces.length > 1 ? workspaceName : undefined,
+          );
+        } catch (error) {
+          logger.warn('Failed to load databases of workspace', workspaceName);
+          await this.showNotionError(error);
+          continue;
+        }
 
-        return {
-          label: icon ? `${icon} ${title}` : title,
-          value: normalizeID(database.id),
-        };
-      });
+        listings.forEach((listing) => {
+          if (!databases.some(({ id }) => id === listing.id)) {
+            databases.push(listing);
+          }
+        });
+
+        if (connection) {
+          databaseIDsByBotID.set(
+            connection.bot_id,
+            listings.map(({ id }) => id),
+          );
+        }
+      }
 
-      this.notionDatabaseMenu.disabled = false;
+      bindDatabaseConnections(databaseIDsByBotID);
+
+      if (databases.length === 0) {
+        throw new LocalizableError(
+          'No Notion databases are accessible',
+          'notero-error-no-notion-databases',
+        );
+      }
     } finally {
-      setMenuItems(this.notionDatabaseMenu, menuItems);
+      this.notionDatabaseSearch.disabled = databases.length === 0;
+      this.setNotionDatabases(databases);
+    }
+
+    // Databases entered by URL may be missing from search results
+    const databaseID = getNoteroPref(NoteroPref.notionDatabaseID);
+    if (databaseID && !databases.some(({ id }) => id === databaseID)) {
+      await this.addNotionDatabase(databaseID).catch((error: unknown) => {
+        logger.warn('Failed to load selected database', databaseID);
+        logger.error(error);
+      });
     }
   }
 
-  private async retrieveNotionDatabases(
-    notion: Client,
-  ): Promise<DatabaseObjectResponse[]> {
-    const response = await notion.search({
-      filter: { property: 'object', value: 'database' },
-    });
+  private setNotionDatabases(databases: NotionDatabaseListing[]): void {
+    this.notionDatabases = databases;
+    this.renderNotionDatabasePicker?.();
+    this.renderSyncConfigsTable?.();
+
+    setMenuItems(this.peopleDatabaseMenu, [
+      { l10nId: 'notero-preferences-people-database-none', value: '' },
+      ...databases.map(({ id, label }) => ({ label, value: id })),
+    ]);
+    this.peopleDatabaseMenu.disabled = databases.length === 0;
+
+    setMenuItems(this.collectionsDatabaseMenu, [
+      { l10nId: 'notero-preferences-collections-database-none', value: '' },
+      ...databases.map(({ id, label }) => ({ label, value: id })),
+    ]);
+    this.collectionsDatabaseMenu.disabled = databases.length === 0;
+  }
+
+  /**
+   * Retrieve a database that is not in the search results from the first
+   * connected workspace that can access it, and add it to the picker.
+   * @throws If no connected workspace can access the database.
+   */
+  private async addNotionDatabase(databaseID: string): Promise<void> {
+    let lastError: unknown;
 
-    const databases = response.results.filter(isFullDatabase);
+    for (const { connection, notion, workspaceName } of this.notionWorkspaces) {
+      let listing: NotionDatabaseListing;
+
+      try {
+        listing = await retrieveNotionDatabaseListing(
+          notion,
+          databaseID,
+          this.notionWorkspaces.length > 1 ? workspaceName : undefined,
+        );
+      } catch (error) {
+        lastError = error;
+        continue;
+      }
+
+      if (connection) {
+        bindDatabaseConnections(new Map([[connection.bot_id, [listing.id]]]));
+      }
+      if (!this.notionDatabases.some(({ id }) => id === listing.id)) {
+        this.setNotionDatabases([...this.notionDatabases, listing]);
+      }
+      this.notionDatabaseSearch.disabled = false;
+      return;
+    }
+
+    throw lastError;
+  }
 
-    if (databases.length === 0) {
-      throw new LocalizableError(
-        'No Notion databases are accessible',
-        'notero-error-no-notion-databases',
+  /**
+   * Select a database by a URL or ID entered by the user, which is useful
+   * when the database cannot be found by search.
+   */
+  public async enterNotionDatabase(): Promise<void> {
+    const [dialogTitle, dialogText, invalidText, inaccessibleText] =
+      await document.l10n.formatValues([
+        'notero-preferences-notion-enter-database-dialog-title',
+        'notero-preferences-notion-enter-database-dialog-text',
+        'notero-preferences-notion-enter-database-invalid',
+        'notero-preferences-notion-enter-database-inaccessible',
+      ]);
+    const title = dialogTitle || 'Enter Notion Database';
+    const input = { value: '' };
+
+    const confirmed = Services.prompt.prompt(
+      null,
+      title,
+      dialogText || 'Notion database URL or ID',
+      input,
+      null,
+      { value: false },
+    );
+    if (!confirmed || !input.value.trim()) return;
+
+    const databaseID = parseNotionID(input.value);
+    if (!databaseID) {
+      Zotero.alert(window, title, invalidText || 'Invalid URL or ID');
+      return;
+    }
+
+    try {
+      await this.addNotionDatabase(databaseID);
+    } catch (error) {
+      logger.warn('Failed to retrieve entered database', databaseID);
+      logger.error(error);
+      Zotero.alert(window, title, inaccessibleText || 'Database not found');
+      return;
+    }
+
+    this.notionDatabaseSearch.value = '';
+    setNoteroPref(NoteroPref.notionDatabaseID, databaseID);
+  }
+
+  /**
+   * Retrieve the properties of the default database so that property mappings
+   * can be validated against them.
+   */
+  private async refreshDatabaseProperties(): Promise<void> {
+    const databaseID = getNoteroPref(NoteroPref.notionDatabaseID);
+
+    try {
+      if (databaseID) {
+        const authToken =
+          await this.notionAuthManager.getRequiredAuthToken(databaseID);
+        const notion = getNotionClient(authToken, window);
+        const database = await notion.databases.retrieve({
+          database_id: databaseID,
+        });
+        this.database = { id: databaseID, properties: database.properties };
+      } else {
+        this.database = undefined;
+      }
+    } catch (error) {
+      logger.warn('Failed to retrieve properties of database', databaseID);
+      logger.error(error);
+      this.database = undefined;
+    }
+
+    this.renderPropertyMappingsTable?.();
+  }
+
+  /**
+   * Create a Notion database with all properties that Notero syncs to in a
+   * page chosen by the user, and select it as the default database.
+   */
+  public async createNotionDatabase(): Promise<void> {
+    const [dialogTitle, pageText, nameText, defaultName, noPagesText] =
+      await document.l10n.formatValues([
+        'notero-preferences-notion-create-database-dialog-title',
+        'notero-preferences-notion-create-database-page-text',
+        'notero-preferences-notion-create-database-name-text',
+        'notero-preferences-notion-create-database-default-name',
+        'notero-preferences-notion-create-database-no-pages',
+      ]);
+    const title = dialogTitle || 'Create Notion Database';
+
+    const pageOptions = await this.retrieveNotionPageOptions();
+    if (!pageOptions.length) {
+      Zotero.alert(window, title, noPagesText || 'No Notion pages are shared');
+      return;
+    }
+
+    const selection = { value: 0 };
+    const pageSelected = Services.prompt.select(
+      null,
+      title,
+      pageText || 'Notion page',
+      pageOptions.map(({ label }) => label),
+      selection,
+    );
+    const pageOption = pageOptions[selection.value];
+    if (!pageSelected || !pageOption) return;
+
+    const input = { value: defaultName || 'Zotero Library' };
+    const nameEntered = Services.prompt.prompt(
+      null,
+      title,
+      nameText || 'Database name',
+      input,
+      null,
+      { value: false },
+    );
+    const databaseTitle = input.value.trim();
+    if (!nameEntered || !databaseTitle) return;
+
+    const { page, workspace } = pageOption;
+
+    try {
+      const databaseID = normalizeID(
+        await createDatabase(
+          workspace.notion,
+          page.id,
+          databaseTitle,
+          loadPropertyMappings(),
+        ),
       );
+
+      if (workspace.connection) {
+        bindDatabaseConnections(
+          new Map([[workspace.connection.bot_id, [databaseID]]]),
+        );
+      }
+
+      await this.refreshNotionDatabases(this.notionWorkspaces);
+      // Newly created databases may not be returned by search right away
+      await this.addNotionDatabase(databaseID);
+      this.notionDatabaseSearch.value = '';
+      setNoteroPref(NoteroPref.notionDatabaseID, databaseID);
+    } catch (error) {
+      await this.showNotionError(error);
     }
+  }
+
+  /**
+   * Retrieve the pages of all connected workspaces that a database can be
+   * created in. A workspace that fails to load does not prevent pages of
+   * other workspaces from loading.
+   */
+  private async retrieveNotionPageOptions(): Promise<NotionPageOption[]> {
+    const pageOptions: NotionPageOption[] = [];
+
+    for (const workspace of this.notionWorkspaces) {
+      try {
+        const results = await collectPaginatedAPI(workspace.notion.search, {
+          filter: { property: 'object', value: 'page' },
+        });
+
+        results.filter(isFullPage).forEach((page) => {
+          const label = getNotionPageLabel(page);
+          pageOptions.push({
+            label:
+              this.notionWorkspaces.length > 1
+                ? `${label} (${workspace.workspaceName})`
+                : label,
+            page,
+            workspace,
+          });
+        });
+      } catch (error) {
+        logger.warn(
+          'Failed to load pages of workspace',
+          workspace.workspaceName,
+        );
+        await this.showNotionError(error);
+      }
+    }
+
+    return pageOptions;
+  }
 
-    return databases;
+  /**
+   * Add the properties that Notero syncs to but that are missing from the
+   * selected database, after confirming them with the user.
+   */
+  public async setUpDatabase(): Promise<void> {
+    const databaseID = getNoteroPref(NoteroPref.notionDatabaseID);
+    if (!databaseID) return;
+
+    const dialogTitle =
+      (await document.l10n.formatValue(
+        'notero-preferences-notion-set-up-database-dialog-title',
+      )) || 'Set Up Notion Database';
+
+    try {
+      const authToken =
+        await this.notionAuthManager.getRequiredAuthToken(databaseID);
+      const notion = getNotionClient(authToken, window);
+      const database = await notion.databases.retrieve({
+        database_id: databaseID,
+      });
+      const missingProperties = getMissingProperties(
+        loadPropertyMappings(),
+        databaseID,
+        database.properties,
+      );
+      const propertyNames = Object.keys(missingProperties);
+
+      if (!propertyNames.length) {
+        const completeText =
+          (await document.l10n.formatValue(
+            'notero-preferences-notion-set-up-database-complete',
+          )) || 'Database is already set up';
+        Zotero.alert(window, dialogTitle, completeText);
+        return;
+      }
+
+      const properties = propertyNames.map((name) => `• ${name}`).join('\n');
+      const dialogText =
+        (await document.l10n.formatValue(
+          'notero-preferences-notion-set-up-database-dialog-text',
+          { properties },
+        )) || properties;
+
+      const confirmed = Services.prompt.confirm(null, dialogTitle, dialogText);
+      if (!confirmed) return;
+
+      await addDatabaseProperties(notion, databaseID, missingProperties);
+      await this.refreshDatabaseProperties();
+    } catch (error) {
+      await this.showNotionError(error);
+    }
   }
 
   public async connectNotion(event: XUL.CommandEvent): Promise<void> {
@@ -271,7 +996,11 @@ class Preferences {
     await this.notionAuthManager.openLogin();
   }
 
-  public async disconnectNotion(): Promise<void> {
+  /**
+   * Disconnect a Notion workspace, or the legacy integration token if no
+   * connection is given.
+   */
+  private async disconnectNotion(connection?: NotionConnection): Promise<void> {
     const dialogTitle =
       (await document.l10n.formatValue(
         'notero-preferences-notion-disconnect-dialog-title',
@@ -284,12 +1013,18 @@ class Preferences {
     const confirmed = Services.prompt.confirm(null, dialogTitle, dialogText);
     if (!confirmed) return;
 
-    await this.notionAuthManager.removeAllConnections();
+    if (connection) {
+      await this.notionAuthManager.removeConnection(connection);
+    } else {
+      await this.notionAuthManager.removeAllConnections();
+    }
 
     await this.refreshNotionConnectionSection();
   }
 
-  public async upgradeNotionConnection(event: XUL.CommandEvent): Promise<void> {
+  private async upgradeNotionConnection(
+    event: XUL.CommandEvent,
+  ): Promise<void> {
     const dialogTitle =
       (await document.l10n.formatValue(
         'notero-preferences-notion-upgrade-dialog-title',
@@ -307,6 +1042,54 @@ class Preferences {
       void this.connectNotion(event);
     }, 100);
   }
+
+  public async resetPropertyMappings(): Promise<void> {
+    const dialogTitle =
+      (await document.l10n.formatValue(
+        'notero-preferences-property-mappings-reset-dialog-title',
+      )) || 'Reset Property Mappings';
+    const dialogText =
+      (await document.l10n.formatValue(
+        'notero-preferences-property-mappings-reset-dialog-text',
+      )) || 'Reset property mappings';
+
+    const confirmed = Services.prompt.confirm(null, dialogTitle, dialogText);
+    if (!confirmed) return;
+
+    resetPropertyMappings();
+  }
+
+  public async showSyncQueue(): Promise<void> {
+    const dialogTitle =
+      (await document.l10n.formatValue(
+        'notero-preferences-sync-queue-dialog-title',
+      )) || 'Items Waiting to Sync';
+
+    const items = Zotero.Items.get(this.syncManager.getQueuedItemIDs());
+    const itemTitles = items.map((item) => `• ${item.getDisplayTitle()}`);
+
+    Zotero.alert(window, dialogTitle, itemTitles.join('\n'));
+
+    this.refreshSyncQueueSection();
+  }
+
+  public async clearSyncQueue(): Promise<void> {
+    const dialogTitle =
+      (await document.l10n.formatValue(
+        'notero-preferences-sync-queue-dialog-title',
+      )) || 'Items Waiting to Sync';
+    const dialogText =
+      (await document.l10n.formatValue(
+        'notero-preferences-sync-queue-clear-dialog-text',
+      )) || 'Clear sync queue';
+
+    const confirmed = Services.prompt.confirm(null, dialogTitle, dialogText);
+    if (!confirmed) return;
+
+    await this.syncManager.clearQueue();
+
+    this.refreshSyncQueueSection();
+  }
 }
 
 module.exports = {
@@ -0,0 +1,271 @@
+import VirtualizedTable, {
+  makeRowRenderer,
+  // eslint-disable-next-line import/no-unresolved
+} from 'components/virtualized-table';
+import React from 'react';
+
+import type { DatabaseProperties } from '../sync/notion-types';
+import {
+  type PropertyMappingStatus,
+  validatePropertyMappings,
+} from '../sync/property-mapping';
+import { createXULElement } from '../utils';
+
+import {
+  NoteroPref,
+  registerNoteroPrefObserver,
+  unregisterNoteroPrefObserver,
+} from './notero-pref';
+import {
+  loadPropertyMappings,
+  type PropertyMapping,
+  type PropertySource,
+  savePropertyMappings,
+} from './property-mappings';
+
+const COLUMNS = [
+  {
+    dataKey: 'sourceLabel',
+  },
+  {
+    dataKey: 'propertyName',
+  },
+  {
+    dataKey: 'statusLabel',
+  },
+] as const;
+
+export type DataKey = (typeof COLUMNS)[number]['dataKey'];
+
+type PropertyMappingsTableRow = PropertyMapping & {
+  sourceLabel: string;
+  statusLabel: string;
+};
+
+type Props = {
+  columnLabels: Record<DataKey, string>;
+  container: Element;
+  /** Popup used to edit or remove selected mappings */
+  contextMenu: XUL.MenuPopupElement;
+  /** The default database, used to validate mappings */
+  database?: { id: string; properties: DatabaseProperties };
+  getSourceLabel: (source: PropertySource) => string;
+  statusLabels: Record<PropertyMappingStatus, string>;
+};
+
+/**
+ * Prompt for the name of the Notion property to sync a value to.
+ * @param sourceLabel The label of the value to sync.
+ * @param defaultName The initial property name.
+ * @returns The entered property name, or `undefined` if the prompt was
+ * cancelled or left empty.
+ */
+export async function promptPropertyName(
+  sourceLabel: string,
+  defaultName: string,
+): Promise<string | undefined> {
+  const [dialogTitle, dialogText] = await document.l10n.formatValues([
+    'notero-preferences-property-mapping-dialog-title',
+    {
+      id: 'notero-preferences-property-mapping-dialog-text',
+      args: { source: sourceLabel },
+    },
+  ]);
+  const input = { value: defaultName };
+
+  const confirmed = Services.prompt.prompt(
+    null,
+    dialogTitle || 'Notion Property',
+    dialogText || 'Notion property name',
+    input,
+    null,
+    { value: false },
+  );
+  const propertyName = input.value.trim();
+
+  return confirmed && propertyName ? propertyName : undefined;
+}
+
+export class PropertyMappingsTable extends React.Component<Props> {
+  private _mappings?: PropertyMapping[];
+  private _rows?: PropertyMappingsTableRow[];
+
+  private observer?: IntersectionObserver;
+  private prefObserver?: symbol;
+  private table: VirtualizedTable<DataKey> | null = null;
+
+  private observeFirstView() {
+    this.observer = new IntersectionObserver(
+      (entries: IntersectionObserverEntry[]) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            this.refreshUponFirstView();
+          }
+        });
+      },
+    );
+    this.observer.observe(this.props.container);
+  }
+
+  private refreshUponFirstView() {
+    this.table?.invalidate();
+    this.observer?.disconnect();
+  }
+
+  private buildRows(): PropertyMappingsTableRow[] {
+    const { database, getSourceLabel, statusLabels } = this.props;
+    const statuses =
+      database &&
+      validatePropertyMappings(this.mappings, database.id, database.properties);
+
+    return this.mappings.map((mapping, index) => {
+      const status = statuses?.[index];
+      return {
+        ...mapping,
+        sourceLabel: getSourceLabel(mapping.source),
+        statusLabel: status ? statusLabels[status] : '',
+      };
+    });
+  }
+
+  private get rows(): PropertyMappingsTableRow[] {
+    if (!this._rows) {
+      this._rows = this.buildRows();
+    }
+    return this._rows;
+  }
+
+  private get mappings(): PropertyMapping[] {
+    if (!this._mappings) {
+      this._mappings = loadPropertyMappings();
+    }
+    return this._mappings;
+  }
+
+  private set mappings(updatedMappings: PropertyMapping[]) {
+    this._mappings = updatedMappings;
+    savePropertyMappings(updatedMappings);
+  }
+
+  private async renameProperty(index: number) {
+    const mapping = this.mappings[index];
+    if (!mapping) return;
+
+    const propertyName = await promptPropertyName(
+      this.props.getSourceLabel(mapping.source),
+      mapping.propertyName,
+    );
+    if (!propertyName) return;
+
+    // Renaming binds the mapping to a different property, so drop its bindings
+    this.mappings = this.mappings.map((existingMapping, existingIndex) =>
+      existingIndex === index
+        ? { propertyName, source: existingMapping.source }
+        : existingMapping,
+    );
+  }
+
+  private removeMappings(indices: number[]) {
+    this.mappings = this.mappings.filter(
+      (_, index) => !indices.includes(index),
+    );
+  }
+
+  private refresh() {
+    this._mappings = undefined;
+    this._rows = undefined;
+    this.table?.invalidate();
+  }
+
+  componentDidMount() {
+    this.prefObserver = registerNoteroPrefObserver(
+      NoteroPref.propertyMappings,
+      () => {
+        this.refresh();
+      },
+    );
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (
+      prevProps.database !== this.props.database ||
+      prevProps.statusLabels !== this.props.statusLabels
+    ) {
+      this.refresh();
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.prefObserver) unregisterNoteroPrefObserver(this.prefObserver);
+  }
+
+  getRowCount = () => this.rows.length;
+
+  getRowString = (index: number) => this.rows[index]?.propertyName || '';
+
+  handleActivate = (_event: KeyboardEvent | MouseEvent, indices: number[]) => {
+    const [index] = indices;
+    if (index !== undefined) void this.renameProperty(index);
+  };
+
+  handleItemContextMenu = (
+    _event: KeyboardEvent | MouseEvent,
+    x: number,
+    y: number,
+  ) => {
+    const indices = Array.from(this.table?.selection.selected ?? []);
+    const [firstIndex] = indices;
+    if (firstIndex === undefined) return;
+
+    const renameItem = createXULElement(document, 'menuitem');
+    document.l10n.setAttributes(
+      renameItem,
+      'notero-preferences-property-mapping-rename',
+    );
+    renameItem.disabled = indices.length > 1;
+    renameItem.addEventListener('command', () => {
+      void this.renameProperty(firstIndex);
+    });
+
+    const removeItem = createXULElement(document, 'menuitem');
+    document.l10n.setAttributes(
+      removeItem,
+      'notero-preferences-property-mapping-remove',
+    );
+    removeItem.addEventListener('command', () => {
+      this.removeMappings(indices);
+    });
+
+    this.props.contextMenu.replaceChildren(renameItem, removeItem);
+    this.props.contextMenu.openPopupAtScreen(x, y, true);
+  };
+
+  renderItem = makeRowRenderer((index) => this.rows[index] || {});
+
+  setTableRef = (ref: typeof this.table) => {
+    this.table = ref;
+    this.observeFirstView();
+  };
+
+  render() {
+    const columns = COLUMNS.map((column) => ({
+      ...column,
+      label: this.props.columnLabels[column.dataKey],
+    }));
+
+    return (
+      <VirtualizedTable
+        id="notero-propertyMappingsTable"
+        columns={columns}
+        getRowCount={this.getRowCount}
+        getRowString={this.getRowString}
+        ref={this.setTableRef}
+        renderItem={this.renderItem}
+        multiSelect
+        showHeader
+        onActivate={this.handleActivate}
+        onItemContextMenu={this.handleItemContextMenu}
+      />
+    );
+  }
+}
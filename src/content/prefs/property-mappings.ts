@@ -0,0 +1,238 @@
+import type { FluentMessageId } from '../../locale/fluent-types';
+import { normalizeID } from '../sync/notion-utils';
+import { isObject, logger } from '../utils';
+
+import {
+  clearNoteroPref,
+  getNoteroPref,
+  NoteroPref,
+  setNoteroPref,
+} from './notero-pref';
+
+/**
+ * Values computed from Zotero items that can be synced to Notion properties
+ */
+export enum ComputedValue {
+  abstract = 'abstract',
+  authors = 'authors',
+  citationKey = 'citationKey',
+  collections = 'collections',
+  date = 'date',
+  dateAdded = 'dateAdded',
+  dateModified = 'dateModified',
+  doi = 'doi',
+  editors = 'editors',
+  extra = 'extra',
+  filePath = 'filePath',
+  fullCitation = 'fullCitation',
+  inTextCitation = 'inTextCitation',
+  itemType = 'itemType',
+  place = 'place',
+  proceedingsTitle = 'proceedingsTitle',
+  publication = 'publication',
+  relatedItems = 'relatedItems',
+  seriesTitle = 'seriesTitle',
+  shortTitle = 'shortTitle',
+  tags = 'tags',
+  title = 'title',
+  url = 'url',
+  year = 'year',
+  zoteroURI = 'zoteroURI',
+}
+
+export const COMPUTED_VALUE_L10N_IDS: Record<ComputedValue, FluentMessageId> = {
+  [ComputedValue.abstract]: 'notero-computed-value-abstract',
+  [ComputedValue.authors]: 'notero-computed-value-authors',
+  [ComputedValue.citationKey]: 'notero-computed-value-citation-key',
+  [ComputedValue.collections]: 'notero-computed-value-collections',
+  [ComputedValue.date]: 'notero-computed-value-date',
+  [ComputedValue.dateAdded]: 'notero-computed-value-date-added',
+  [ComputedValue.dateModified]: 'notero-computed-value-date-modified',
+  [ComputedValue.doi]: 'notero-computed-value-doi',
+  [ComputedValue.editors]: 'notero-computed-value-editors',
+  [ComputedValue.extra]: 'notero-computed-value-extra',
+  [ComputedValue.filePath]: 'notero-computed-value-file-path',
+  [ComputedValue.fullCitation]: 'notero-computed-value-full-citation',
+  [ComputedValue.inTextCitation]: 'notero-computed-value-in-text-citation',
+  [ComputedValue.itemType]: 'notero-computed-value-item-type',
+  [ComputedValue.place]: 'notero-computed-value-place',
+  [ComputedValue.proceedingsTitle]: 'notero-computed-value-proceedings-title',
+  [ComputedValue.publication]: 'notero-computed-value-publication',
+  [ComputedValue.relatedItems]: 'notero-computed-value-related-items',
+  [ComputedValue.seriesTitle]: 'notero-computed-value-series-title',
+  [ComputedValue.shortTitle]: 'notero-computed-value-short-title',
+  [ComputedValue.tags]: 'notero-computed-value-tags',
+  [ComputedValue.title]: 'notero-computed-value-title',
+  [ComputedValue.url]: 'notero-computed-value-url',
+  [ComputedValue.year]: 'notero-computed-value-year',
+  [ComputedValue.zoteroURI]: 'notero-computed-value-zotero-uri',
+};
+
+const ITEM_FIELD_PREFIX = 'field:';
+
+/** A Zotero item field, such as `field:volume` */
+export type ItemFieldSource = `${typeof ITEM_FIELD_PREFIX}${string}`;
+
+/** Where the value of a Notion property comes from */
+export type PropertySource = ComputedValue | ItemFieldSource;
+
+export type PropertyMapping = {
+  /** Name of the Notion property to sync to */
+  propertyName: string;
+  /**
+   * IDs of the Notion properties that the mapping is bound to, keyed by
+   * normalized database ID. Bound properties are found by ID so that they can
+   * be renamed in Notion.
+   */
+  propertyIDs?: Record<string, string>;
+  source: PropertySource;
+};
+
+export const DEFAULT_PROPERTY_MAPPINGS: readonly PropertyMapping[] = [
+  { propertyName: 'Abstract', source: ComputedValue.abstract },
+  { propertyName: 'Authors', source: ComputedValue.authors },
+  { propertyName: 'Citation Key', source: ComputedValue.citationKey },
+  { propertyName: 'Collections', source: ComputedValue.collections },
+  { propertyName: 'Date', source: ComputedValue.date },
+  { propertyName: 'Date Added', source: ComputedValue.dateAdded },
+  { propertyName: 'Date Modified', source: ComputedValue.dateModified },
+  { propertyName: 'DOI', source: ComputedValue.doi },
+  { propertyName: 'Editors', source: ComputedValue.editors },
+  { propertyName: 'Extra', source: ComputedValue.extra },
+  { propertyName: 'File Path', source: ComputedValue.filePath },
+  { propertyName: 'Full Citation', source: ComputedValue.fullCitation },
+  { propertyName: 'In-Text Citation', source: ComputedValue.inTextCitation },
+  { propertyName: 'Item Type', source: ComputedValue.itemType },
+  { propertyName: 'Place', source: ComputedValue.place },
+  {
+    propertyName: 'Proceedings Title',
+    source: ComputedValue.proceedingsTitle,
+  },
+  { propertyName: 'Publication', source: ComputedValue.publication },
+  { propertyName: 'Series Title', source: ComputedValue.seriesTitle },
+  { propertyName: 'Short Title', source: ComputedValue.shortTitle },
+  { propertyName: 'Tags', source: ComputedValue.tags },
+  { propertyName: 'Title', source: ComputedValue.title },
+  { propertyName: 'URL', source: ComputedValue.url },
+  { propertyName: 'Year', source: ComputedValue.year },
+  { propertyName: 'Zotero URI', source: ComputedValue.zoteroURI },
+];
+
+/**
+ * Load property mappings from preferences.
+ * @returns The saved property mappings, or the default mappings if none have
+ * been saved.
+ */
+export function loadPropertyMappings(): PropertyMapping[] {
+  const json = getNoteroPref(NoteroPref.propertyMappings);
+  return parsePropertyMappings(json) ?? [...DEFAULT_PROPERTY_MAPPINGS];
+}
+
+/**
+ * Save property mappings to preferences as a JSON string.
+ * @param mappings An array of property mappings.
+ */
+export function savePropertyMappings(mappings: PropertyMapping[]): void {
+  setNoteroPref(NoteroPref.propertyMappings, JSON.stringify(mappings));
+}
+
+/**
+ * Bind property mappings to the IDs of the Notion properties they resolved to.
+ * @param databaseID The ID of the Notion database containing the properties.
+ * @param bindings The mappings to bind, along with their property IDs.
+ */
+export function bindPropertyMappings(
+  databaseID: string,
+  bindings: { mapping: PropertyMapping; propertyID: string }[],
+): void {
+  const normalizedDatabaseID = normalizeID(databaseID);
+
+  const mappings = loadPropertyMappings().map((mapping) => {
+    const binding = bindings.find(
+      ({ mapping: boundMapping }) =>
+        boundMapping.propertyName === mapping.propertyName &&
+        boundMapping.source === mapping.source,
+    );
+    if (!binding) return mapping;
+
+    return {
+      ...mapping,
+      propertyIDs: {
+        ...mapping.propertyIDs,
+        [normalizedDatabaseID]: binding.propertyID,
+      },
+    };
+  });
+
+  savePropertyMappings(mappings);
+}
+
+/**
+ * Clear saved property mappings so that the default mappings are used.
+ */
+export function resetPropertyMappings(): void {
+  clearNoteroPref(NoteroPref.propertyMappings);
+}
+
+/**
+ * Parse property mappings from a JSON string. Invalid mappings are ignored.
+ * @param json A JSON string representing property mappings.
+ * @returns An array of property mappings, or `undefined` if parsing fails.
+ */
+export function parsePropertyMappings(
+  json: unknown,
+): PropertyMapping[] | undefined {
+  if (typeof json !== 'string') return;
+
+  try {
+    const parsedValue: unknown = JSON.parse(json);
+    if (!Array.isArray(parsedValue)) return;
+
+    return parsedValue.filter(isPropertyMapping);
+  } catch (error) {
+    logger.error('Failed to parse property mappings:', error);
+    return;
+  }
+}
+
+export function buildItemFieldSource(field: string): ItemFieldSource {
+  return `${ITEM_FIELD_PREFIX}${field}`;
+}
+
+export function getItemFieldName(source: ItemFieldSource): string {
+  return source.slice(ITEM_FIELD_PREFIX.length);
+}
+
+export function isItemFieldSource(value: unknown): value is ItemFieldSource {
+  return (
+    typeof value === 'string' &&
+    value.startsWith(ITEM_FIELD_PREFIX) &&
+    value.length > ITEM_FIELD_PREFIX.length
+  );
+}
+
+// Helper functions
+
+function isComputedValue(value: unknown): value is ComputedValue {
+  return (
+    typeof value === 'string' &&
+    Object.values<string>(ComputedValue).includes(value)
+  );
+}
+
+function isPropertyMapping(value: unknown): value is PropertyMapping {
+  return (
+    isObject(value) &&
+    typeof value.propertyName === 'string' &&
+    Boolean(value.propertyName) &&
+    (isComputedValue(value.source) || isItemFieldSource(value.source)) &&
+    (value.propertyIDs === undefined || isPropertyIDs(value.propertyIDs))
+  );
+}
+
+function isPropertyIDs(value: unknown): value is Record<string, string> {
+  return (
+    isObject(value) &&
+    Object.values(value).every((propertyID) => typeof propertyID === 'string')
+  );
+}
@@ -4,7 +4,7 @@ import VirtualizedTable, {
 } from 'components/virtualized-table';
 import React from 'react';
 
-import { buildCollectionFullName } from '../utils';
+import { buildCollectionFullName, createXULElement } from '../utils';
 
 import {
   CollectionSyncConfig,
@@ -23,6 +23,9 @@ const COLUMNS = [
   {
     dataKey: 'collectionFullName',
   },
+  {
+    dataKey: 'notionDatabaseName',
+  },
 ] as const;
 
 export type DataKey = (typeof COLUMNS)[number]['dataKey'];
@@ -30,6 +33,12 @@ export type DataKey = (typeof COLUMNS)[number]['dataKey'];
 type SyncConfigsTableRow = CollectionSyncConfig & {
   collection: Zotero.Collection;
   collectionFullName: string;
+  notionDatabaseName: string;
+};
+
+export type NotionDatabaseOption = {
+  id: string;
+  label: string;
 };
 
 type SortDirection = 1 | -1;
@@ -43,6 +52,10 @@ type RowSortCompareFn = (
 type Props = {
   columnLabels: Record<DataKey, string>;
   container: Element;
+  /** Popup used to choose the target database of selected collections */
+  databaseMenu: XUL.MenuPopupElement;
+  databases: NotionDatabaseOption[];
+  defaultDatabaseLabel: string;
 };
 
 const COLLATOR = new Intl.Collator(Zotero.locale, {
@@ -57,6 +70,11 @@ const COMPARATORS: Record<DataKey, RowSortCompareFn> = {
       COLLATOR.compare(a.collectionFullName, b.collectionFullName)
     );
   },
+  notionDatabaseName(a, b, sortDirection) {
+    const result = COLLATOR.compare(a.notionDatabaseName, b.notionDatabaseName);
+    if (result !== 0) return result * sortDirection;
+    return this.collectionFullName(a, b, 1);
+  },
   syncEnabled(a, b, sortDirection) {
     const result = Number(a.syncEnabled) - Number(b.syncEnabled);
     if (result !== 0) return result * sortDirection;
@@ -93,14 +111,25 @@ export class SyncConfigsTable extends React.Component<Props> {
 
   private buildRows(): SyncConfigsTableRow[] {
     return Zotero.Collections.getLoaded()
-      .map((collection) => ({
-        collection,
-        collectionFullName: buildCollectionFullName(collection),
-        ...(this.syncConfigs[collection.id] || { syncEnabled: false }),
-      }))
+      .map((collection) => {
+        const config = this.syncConfigs[collection.id];
+        return {
+          collection,
+          collectionFullName: buildCollectionFullName(collection),
+          notionDatabaseName: this.getDatabaseName(config?.notionDatabaseID),
+          ...(config || { syncEnabled: false }),
+        };
+      })
       .sort((a, b) => COMPARATORS[this.sortKey](a, b, this.sortDirection));
   }
 
+  private getDatabaseName(databaseID: string | undefined): string {
+    if (!databaseID) return this.props.defaultDatabaseLabel;
+
+    const database = this.props.databases.find(({ id }) => id === databaseID);
+    return database?.label || databaseID;
+  }
+
   private get rows(): SyncConfigsTableRow[] {
     if (!this._rows) {
       this._rows = this.buildRows();
@@ -134,27 +163,91 @@ export class SyncConfigsTable extends React.Component<Props> {
       return {
         ...configs,
         [collection.id]: {
+          ...configs[collection.id],
           syncEnabled: enable,
         },
       };
     }, this.syncConfigs);
   }
 
+  private setNotionDatabase(indices: number[], databaseID?: string) {
+    this.syncConfigs = indices.reduce((configs, index) => {
+      const collection = this.rows[index]?.collection;
+      if (!collection) return configs;
+
+      return {
+        ...configs,
+        [collection.id]: {
+          syncEnabled: false,
+          ...configs[collection.id],
+          notionDatabaseID: databaseID,
+        },
+      };
+    }, this.syncConfigs);
+  }
+
+  private refresh() {
+    this.invalidateRows();
+    this.table?.invalidate();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (
+      prevProps.databases !== this.props.databases ||
+      prevProps.defaultDatabaseLabel !== this.props.defaultDatabaseLabel
+    ) {
+      this.refresh();
+    }
+  }
+
   getRowCount = () => this.rows.length;
 
   getRowString = (index: number) => this.rows[index]?.collectionFullName || '';
 
   handleActivate = (_event: KeyboardEvent | MouseEvent, indices: number[]) => {
     this.toggleEnabled(indices);
-    this.invalidateRows();
-    this.table?.invalidate();
+    this.refresh();
   };
 
   handleColumnSort = (columnIndex: number, sortDirection: SortDirection) => {
     this.sortDirection = sortDirection;
     this.sortKey = COLUMNS[columnIndex]?.['dataKey'] || 'collectionFullName';
-    this.invalidateRows();
-    this.table?.invalidate();
+    this.refresh();
+  };
+
+  handleItemContextMenu = (
+    _event: KeyboardEvent | MouseEvent,
+    x: number,
+    y: number,
+  ) => {
+    const indices = Array.from(this.table?.selection.selected ?? []);
+    if (!indices.length) return;
+
+    const { databaseMenu, databases, defaultDatabaseLabel } = this.props;
+    const selectedIDs = new Set(
+      indices.map((index) => this.rows[index]?.notionDatabaseID),
+    );
+    const options = [
+      { id: undefined, label: defaultDatabaseLabel },
+      ...databases,
+    ];
+
+    const menuItems = options.map(({ id, label }) => {
+      const menuItem = createXULElement(document, 'menuitem');
+      menuItem.label = label;
+      menuItem.setAttribute('type', 'radio');
+      if (selectedIDs.size === 1 && selectedIDs.has(id)) {
+        menuItem.setAttribute('checked', 'true');
+      }
+      menuItem.addEventListener('command', () => {
+        this.setNotionDatabase(indices, id);
+        this.refresh();
+      });
+      return menuItem;
+    });
+
+    databaseMenu.replaceChildren(...menuItems);
+    databaseMenu.openPopupAtScreen(x, y, true);
   };
 
   renderItem = makeRowRenderer((index) => this.rows[index] || {});
@@ -182,6 +275,7 @@ export class SyncConfigsTable extends React.Component<Props> {
         showHeader
         onActivate={this.handleActivate}
         onColumnSort={this.handleColumnSort}
+        onItemContextMenu={this.handleItemContextMenu}
       />
     );
   }
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createZoteroItemMock, zoteroMock } from '../../../../test/utils';
+import { EventManager } from '../index';
+
+const fakeAnnotationID = 5678;
+const fakeLibraryID = 1;
+
+function setup() {
+  const eventManager = new EventManager();
+  const listener = vi.fn();
+  eventManager.addListener('notifier-event', listener);
+  eventManager.startup();
+
+  const observer = zoteroMock.Notifier.registerObserver.mock.lastCall?.[0];
+
+  return { listener, observer };
+}
+
+describe('EventManager', () => {
+  describe('receiving item delete events', () => {
+    it('routes deleted annotation that was not seen since startup', () => {
+      const { listener, observer } = setup();
+      const attachmentItem = createZoteroItemMock({ isAttachment: () => true });
+      zoteroMock.Items.getByLibraryAndKey
+        .calledWith(fakeLibraryID, 'PARENT')
+        .mockReturnValue(attachmentItem);
+
+      observer?.notify('delete', 'item', [fakeAnnotationID], {
+        [fakeAnnotationID]: {
+          libraryID: fakeLibraryID,
+          key: 'ANNOTATE',
+          parentKey: 'PARENT',
+        },
+      });
+
+      expect(listener).toHaveBeenCalledWith('annotation.delete', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+    });
+
+    it('emits item delete event for deleted items without attachment parent', () => {
+      const { listener, observer } = setup();
+      const regularItem = createZoteroItemMock({ isAttachment: () => false });
+      zoteroMock.Items.getByLibraryAndKey
+        .calledWith(fakeLibraryID, 'PARENT')
+        .mockReturnValue(regularItem);
+
+      observer?.notify('delete', 'item', [fakeAnnotationID], {
+        [fakeAnnotationID]: {
+          libraryID: fakeLibraryID,
+          key: 'NOTEITEM',
+          parentKey: 'PARENT',
+        },
+      });
+
+      expect(listener).toHaveBeenCalledWith('item.delete', [fakeAnnotationID]);
+      expect(listener).not.toHaveBeenCalledWith(
+        'annotation.delete',
+        expect.anything(),
+      );
+    });
+  });
+});
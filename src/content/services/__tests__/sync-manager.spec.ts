@@ -8,20 +8,35 @@ import {
   zoteroMock,
 } from '../../../../test/utils';
 import { NotionAuthManager } from '../../auth';
-import { getSyncedNotes } from '../../data/item-data';
+import {
+  clearPropertiesFingerprint,
+  getNotionPageID,
+  getSyncedNotes,
+  getTrashedItemAction,
+} from '../../data/item-data';
+import { loadSyncQueue, saveSyncQueue } from '../../data/sync-queue';
 import { saveSyncConfigs } from '../../prefs/collection-sync-config';
-import { NoteroPref, setNoteroPref } from '../../prefs/notero-pref';
-import { performSyncJob } from '../../sync/sync-job';
+import {
+  NoteroPref,
+  setNoteroPref,
+  TrashedItemAction,
+} from '../../prefs/notero-pref';
+import { performSyncJob, previewSyncJob } from '../../sync/sync-job';
 import { parseItemDate } from '../../utils';
 import { EventManager, SyncManager } from '../index';
 
 vi.mock('../../data/item-data');
+vi.mock('../../data/sync-queue');
 vi.mock('../../sync/sync-job');
 vi.mock('../../utils/parse-item-date');
 
 vi.mocked(parseItemDate).mockImplementation((date) => new Date(date));
 
+const mockedGetNotionPageID = vi.mocked(getNotionPageID);
 const mockedGetSyncedNotes = vi.mocked(getSyncedNotes);
+const mockedGetTrashedItemAction = vi.mocked(getTrashedItemAction);
+const mockedLoadSyncQueue = vi.mocked(loadSyncQueue);
+const mockedSaveSyncQueue = vi.mocked(saveSyncQueue);
 const mockedPerformSyncJob = vi.mocked(performSyncJob);
 
 const pluginInfo = {
@@ -73,6 +88,13 @@ const emptyNoteItem = createZoteroItemMock({
   topLevelItem: regularItem,
 });
 
+const attachmentItem = createZoteroItemMock({
+  deleted: false,
+  isRegularItem: () => false,
+  isTopLevelItem: () => false,
+  topLevelItem: regularItem,
+});
+
 const deletedItem = createZoteroItemMock({
   deleted: true,
   isRegularItem: () => true,
@@ -151,11 +173,21 @@ function setup({
   setNoteroPref(NoteroPref.syncNotes, syncNotes);
   setNoteroPref(NoteroPref.syncOnModifyItems, syncOnModifyItems);
 
-  return { eventManager };
+  return { eventManager, syncManager };
 }
 
 beforeEach(() => {
   vi.useFakeTimers();
+  mockedLoadSyncQueue.mockResolvedValue({
+    inFlightItemIDs: [],
+    pendingItemIDs: [],
+  });
+  mockedPerformSyncJob.mockResolvedValue({
+    relatedItemIDs: new Set(),
+    unreachableItemIDs: new Set(),
+  });
+  mockedGetNotionPageID.mockReturnValue(undefined);
+  mockedGetTrashedItemAction.mockReturnValue(undefined);
 });
 
 afterEach(() => {
@@ -196,6 +228,130 @@ describe('SyncManager', () => {
     expect(mockedPerformSyncJob.mock.lastCall?.[2]).toBe(secondWindow);
   });
 
+  it('syncs related items again after their pages are created', async () => {
+    const { eventManager } = setup();
+
+    mockedPerformSyncJob.mockResolvedValueOnce({
+      relatedItemIDs: new Set([regularItemNotInCollection.id]),
+      unreachableItemIDs: new Set(),
+    });
+
+    eventManager.emit('request-sync-items', [regularItem]);
+    await vi.runAllTimersAsync();
+
+    expect(performSyncJob).toHaveBeenCalledTimes(2);
+    expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+      new Set([regularItemNotInCollection.id]),
+    );
+  });
+
+  describe('persisted sync queue', () => {
+    it('resumes syncing persisted items on startup', async () => {
+      mockedLoadSyncQueue.mockResolvedValue({
+        inFlightItemIDs: [regularItem.id],
+        pendingItemIDs: [regularItemNotInCollection.id, deletedItem.id],
+      });
+
+      setup();
+
+      await vi.runAllTimersAsync();
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id, regularItemNotInCollection.id]),
+      );
+    });
+
+    it('persists queued items and clears them once synced', async () => {
+      const { eventManager } = setup();
+
+      eventManager.emit('request-sync-items', [regularItem]);
+
+      expect(mockedSaveSyncQueue).toHaveBeenLastCalledWith({
+        inFlightItemIDs: [],
+        pendingItemIDs: [regularItem.id],
+      });
+
+      await vi.runAllTimersAsync();
+
+      expect(mockedSaveSyncQueue).toHaveBeenLastCalledWith({
+        inFlightItemIDs: [],
+        pendingItemIDs: [],
+      });
+    });
+
+    it('does not sync items after the queue is cleared', async () => {
+      const { eventManager, syncManager } = setup();
+
+      eventManager.emit('request-sync-items', [regularItem]);
+
+      expect(syncManager.getQueuedItemIDs()).toStrictEqual([regularItem.id]);
+
+      await syncManager.clearQueue();
+      await vi.runAllTimersAsync();
+
+      expect(syncManager.getQueuedItemIDs()).toStrictEqual([]);
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe('unreachable Notion', () => {
+    it('retries unreachable items after a backoff delay', async () => {
+      const { eventManager } = setup();
+
+      mockedPerformSyncJob.mockResolvedValueOnce({
+        relatedItemIDs: new Set(),
+        unreachableItemIDs: new Set([regularItem.id]),
+      });
+
+      eventManager.emit('request-sync-items', [regularItem]);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(performSyncJob).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(29_000);
+
+      expect(performSyncJob).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(performSyncJob).toHaveBeenCalledTimes(2);
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id]),
+      );
+    });
+
+    it('retries unreachable items when the network comes back online', async () => {
+      const { eventManager, syncManager } = setup();
+      const statusListener = vi.fn();
+
+      eventManager.addListener('sync-status.change', statusListener);
+      syncManager.addToWindow(window as unknown as Zotero.ZoteroWindow);
+      window.dispatchEvent(new Event('offline'));
+
+      mockedPerformSyncJob.mockResolvedValueOnce({
+        relatedItemIDs: new Set(),
+        unreachableItemIDs: new Set([regularItem.id]),
+      });
+
+      eventManager.emit('request-sync-items', [regularItem]);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(statusListener).toHaveBeenLastCalledWith({
+        offline: true,
+        retryItemCount: 1,
+      });
+
+      window.dispatchEvent(new Event('online'));
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(performSyncJob).toHaveBeenCalledTimes(2);
+      expect(statusListener).toHaveBeenLastCalledWith({
+        offline: false,
+        retryItemCount: 0,
+      });
+    });
+  });
+
   describe('receiving `request-sync-collection` event', () => {
     it('does not sync deleted items in collection', () => {
       const { eventManager } = setup();
@@ -258,6 +414,35 @@ describe('SyncManager', () => {
       );
     });
 
+    it('previews items without syncing them when `dryRun` is enabled', async () => {
+      const { eventManager } = setup({ syncNotes: false });
+
+      eventManager.emit('request-sync-items', [regularItem], { dryRun: true });
+
+      await vi.runAllTimersAsync();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+      expect(vi.mocked(previewSyncJob).mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id]),
+      );
+    });
+
+    it('clears properties fingerprints before syncing when forced', async () => {
+      const { eventManager } = setup({ syncNotes: false });
+
+      eventManager.emit('request-sync-items', [regularItem, syncedNoteItem], {
+        force: true,
+      });
+
+      await vi.runAllTimersAsync();
+
+      expect(clearPropertiesFingerprint).toHaveBeenCalledTimes(1);
+      expect(clearPropertiesFingerprint).toHaveBeenCalledWith(regularItem);
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id, syncedNoteItem.id]),
+      );
+    });
+
     it('syncs non-empty note items that have not synced or have been modified since last sync when `syncNotes` is enabled', () => {
       const { eventManager } = setup({ syncNotes: true });
 
@@ -280,6 +465,65 @@ describe('SyncManager', () => {
     });
   });
 
+  describe('receiving `item.trash` notifier event', () => {
+    it('does not perform sync when `trashedItemAction` is none', () => {
+      const { eventManager } = setup();
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'item.trash', [deletedItem.id]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('does not perform sync when trashed item has no Notion page', () => {
+      const { eventManager } = setup();
+      setNoteroPref(
+        NoteroPref.trashedItemAction,
+        TrashedItemAction.archivePage,
+      );
+
+      eventManager.emit('notifier-event', 'item.trash', [deletedItem.id]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('syncs trashed item with Notion page even when `syncOnModifyItems` is disabled', () => {
+      const { eventManager } = setup({ syncOnModifyItems: false });
+      setNoteroPref(
+        NoteroPref.trashedItemAction,
+        TrashedItemAction.archivePage,
+      );
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'item.trash', [deletedItem.id]);
+
+      vi.runAllTimers();
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([deletedItem.id]),
+      );
+    });
+  });
+
+  describe('receiving `item.modify` notifier event for restored item', () => {
+    it('syncs restored item even when `syncOnModifyItems` is disabled', () => {
+      const { eventManager } = setup({ syncOnModifyItems: false });
+      mockedGetTrashedItemAction.mockReturnValue(TrashedItemAction.archivePage);
+
+      eventManager.emit('notifier-event', 'item.modify', [regularItem.id]);
+
+      vi.runAllTimers();
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id]),
+      );
+    });
+  });
+
   describe('receiving `collection.delete` notifier event', () => {
     it('does not perform sync when `syncOnModifyItems` is disabled', () => {
       const { eventManager } = setup({ syncOnModifyItems: false });
@@ -390,6 +634,91 @@ describe('SyncManager', () => {
     });
   });
 
+  describe('receiving `collection-item.remove` notifier event', () => {
+    it('does not perform sync when item has no Notion page', () => {
+      const { eventManager } = setup();
+
+      eventManager.emit('notifier-event', 'collection-item.remove', [
+        [1234, regularItem.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('syncs item when `syncOnModifyItems` is disabled and item is still in sync-enabled collection', () => {
+      const { eventManager } = setup({ syncOnModifyItems: false });
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'collection-item.remove', [
+        [1234, regularItem.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItem.id]),
+      );
+    });
+
+    it('syncs item no longer in sync-enabled collection when `removedItemAction` is none', () => {
+      const { eventManager } = setup();
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'collection-item.remove', [
+        [collection.id, regularItemNotInCollection.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([regularItemNotInCollection.id]),
+      );
+    });
+
+    it('does not sync item no longer in sync-enabled collection when `removedItemAction` is set', () => {
+      const { eventManager } = setup();
+      setNoteroPref(
+        NoteroPref.removedItemAction,
+        TrashedItemAction.archivePage,
+      );
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'collection-item.remove', [
+        [collection.id, regularItemNotInCollection.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('updates page of removed item in the database of the collection it was removed from', async () => {
+      const getRequiredAuthToken = vi
+        .spyOn(NotionAuthManager.prototype, 'getRequiredAuthToken')
+        .mockRejectedValue(new Error('No token'));
+      const { eventManager } = setup();
+      saveSyncConfigs({
+        [collection.id]: { notionDatabaseID: 'other-db', syncEnabled: true },
+      });
+      setNoteroPref(
+        NoteroPref.removedItemAction,
+        TrashedItemAction.archivePage,
+      );
+      mockedGetNotionPageID.mockReturnValue('fake-page-id');
+
+      eventManager.emit('notifier-event', 'collection-item.remove', [
+        [collection.id, regularItemNotInCollection.id],
+      ]);
+
+      await vi.runAllTimersAsync();
+
+      expect(getRequiredAuthToken).toHaveBeenCalledWith('other-db');
+      getRequiredAuthToken.mockRestore();
+    });
+  });
+
   describe('receiving `item.modify` notifier event', () => {
     it('does not perform sync when `syncOnModifyItems` is disabled', () => {
       const { eventManager } = setup({ syncOnModifyItems: false });
@@ -587,4 +916,89 @@ describe('SyncManager', () => {
       );
     });
   });
+
+  describe('receiving annotation notifier events', () => {
+    const fakeAnnotationID = 5678;
+
+    it('does not perform sync when `syncNotes` is disabled', () => {
+      const { eventManager } = setup({ syncNotes: false });
+      mockedGetNotionPageID.mockReturnValue('page-id');
+
+      eventManager.emit('notifier-event', 'annotation.add', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('does not perform sync when parent item has no Notion page', () => {
+      const { eventManager } = setup();
+
+      eventManager.emit('notifier-event', 'annotation.modify', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+    });
+
+    it('syncs attachment once annotations of parent item stop changing', () => {
+      const { eventManager } = setup();
+      mockedGetNotionPageID.mockReturnValue('page-id');
+
+      eventManager.emit('notifier-event', 'annotation.add', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+      vi.advanceTimersByTime(4000);
+      eventManager.emit('notifier-event', 'annotation.delete', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+      vi.advanceTimersByTime(4000);
+
+      expect(performSyncJob).toHaveBeenCalledTimes(0);
+
+      vi.runAllTimers();
+
+      expect(performSyncJob).toHaveBeenCalledOnce();
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([attachmentItem.id]),
+      );
+    });
+
+    it('debounces annotations of each parent item separately', () => {
+      const { eventManager } = setup();
+      mockedGetNotionPageID.mockReturnValue('page-id');
+
+      const otherCollection = createZoteroCollectionMock();
+      const otherRegularItem = createZoteroItemMock({
+        isRegularItem: () => true,
+      });
+      const otherAttachmentItem = createZoteroItemMock({
+        deleted: false,
+        isTopLevelItem: () => false,
+        topLevelItem: otherRegularItem,
+      });
+      otherRegularItem.addToCollection(otherCollection.id);
+      saveSyncConfigs({
+        [collection.id]: { syncEnabled: true },
+        [otherCollection.id]: { syncEnabled: true },
+      });
+
+      eventManager.emit('notifier-event', 'annotation.modify', [
+        [fakeAnnotationID, attachmentItem.id],
+      ]);
+      vi.advanceTimersByTime(4000);
+      eventManager.emit('notifier-event', 'annotation.modify', [
+        [fakeAnnotationID + 1, otherAttachmentItem.id],
+      ]);
+      vi.advanceTimersByTime(3500);
+
+      expect(mockedPerformSyncJob.mock.lastCall?.[0]).toStrictEqual(
+        new Set([attachmentItem.id]),
+      );
+    });
+  });
 });
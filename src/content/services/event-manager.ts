@@ -1,9 +1,10 @@
 import EventEmitter from 'eventemitter3';
 
 import type { NotionConnection } from '../auth';
-import { logger } from '../utils';
+import { isObject, logger } from '../utils';
 
 import type { Service } from './service';
+import type { SyncRequestOptions, SyncStatus } from './sync-manager';
 
 type CollectionID = Zotero.Collection['id'];
 type ItemID = Zotero.Item['id'];
@@ -12,10 +13,16 @@ type TagID = Zotero.DataObjectID;
 type NotifierIDs = readonly (number | string)[];
 
 type NotifierEvents = {
+  'annotation.add': [annotationID: ItemID, attachmentID: ItemID][];
+  'annotation.delete': [annotationID: ItemID, attachmentID: ItemID][];
+  'annotation.modify': [annotationID: ItemID, attachmentID: ItemID][];
   'collection.delete': CollectionID[];
   'collection.modify': CollectionID[];
   'collection-item.add': [collectionID: CollectionID, itemID: ItemID][];
+  'collection-item.remove': [collectionID: CollectionID, itemID: ItemID][];
+  'item.delete': ItemID[];
   'item.modify': ItemID[];
+  'item.trash': ItemID[];
   'item-tag.modify': [itemID: ItemID, tagID: TagID][];
   'item-tag.remove': [itemID: ItemID, tagID: TagID][];
 };
@@ -36,8 +43,16 @@ type EventTypes = {
   'notifier-event': NotifierEventListener;
   'notion-connection.add': (connection: NotionConnection) => void;
   'notion-connection.remove': (connection: NotionConnection) => void;
-  'request-sync-collection': (collection: Zotero.Collection) => void;
-  'request-sync-items': (items: Zotero.Item[]) => void;
+  'request-sync-collection': (
+    collection: Zotero.Collection,
+    options?: SyncRequestOptions,
+  ) => void;
+  'request-sync-items': (
+    items: Zotero.Item[],
+    options?: SyncRequestOptions,
+  ) => void;
+  'request-sync-retry': () => void;
+  'sync-status.change': (status: SyncStatus) => void;
 };
 
 export class EventManager implements Service {
@@ -49,6 +64,13 @@ export class EventManager implements Service {
 
   private observerID?: ReturnType<Zotero.Notifier['registerObserver']>;
 
+  /**
+   * Attachments of the annotations seen since startup, as deleted annotations
+   * can no longer be retrieved to find their attachments. Annotations that
+   * were not seen are routed using the data included with delete events.
+   */
+  private annotationAttachmentIDs = new Map<ItemID, ItemID>();
+
   public startup() {
     this.registerObserver();
   }
@@ -56,6 +78,7 @@ export class EventManager implements Service {
   public shutdown() {
     this.emitter.removeAllListeners();
     this.unregisterObserver();
+    this.annotationAttachmentIDs.clear();
   }
 
   private registerObserver() {
@@ -78,19 +101,40 @@ export class EventManager implements Service {
       event: string,
       type: Zotero.Notifier.Type,
       ids: NotifierIDs,
-      _extraData: Record<string, unknown>,
+      extraData: Record<string, unknown>,
     ) => {
       logger.debug(`Notified of ${event} ${type} for IDs`, ids);
 
       const eventName = `${type}.${event}`;
 
       switch (eventName) {
+        case 'item.add':
+        case 'item.delete':
+        case 'item.modify': {
+          const { annotationIDs, itemIDs } = this.splitAnnotationIDs(
+            event,
+            ids as number[],
+            extraData,
+          );
+          if (annotationIDs.length) {
+            this.emitter.emit(
+              'notifier-event',
+              `annotation.${event as 'add' | 'delete' | 'modify'}`,
+              annotationIDs,
+            );
+          }
+          if (itemIDs.length && eventName !== 'item.add') {
+            this.emitter.emit('notifier-event', eventName, itemIDs);
+          }
+          break;
+        }
         case 'collection.delete':
         case 'collection.modify':
-        case 'item.modify':
+        case 'item.trash':
           this.emitter.emit('notifier-event', eventName, ids as number[]);
           break;
         case 'collection-item.add':
+        case 'collection-item.remove':
         case 'item-tag.modify':
         case 'item-tag.remove':
           this.emitter.emit(
@@ -103,6 +147,56 @@ export class EventManager implements Service {
     },
   };
 
+  /**
+   * Separate the IDs of annotations from those of other items, pairing each
+   * annotation with the ID of its attachment.
+   */
+  private splitAnnotationIDs(
+    event: string,
+    ids: ItemID[],
+    extraData: Record<string, unknown>,
+  ): { annotationIDs: [ItemID, ItemID][]; itemIDs: ItemID[] } {
+    const annotationIDs: [ItemID, ItemID][] = [];
+    const itemIDs: ItemID[] = [];
+
+    if (event === 'delete') {
+      ids.forEach((id) => {
+        const attachmentID =
+          this.annotationAttachmentIDs.get(id) ??
+          getDeletedAnnotationAttachmentID(extraData[id]);
+        if (attachmentID) {
+          annotationIDs.push([id, attachmentID]);
+          this.annotationAttachmentIDs.delete(id);
+        } else {
+          itemIDs.push(id);
+        }
+      });
+      return { annotationIDs, itemIDs };
+    }
+
+    Zotero.Items.get(ids).forEach((item) => {
+      if (!item.isAnnotation() || !item.parentItem) {
+        itemIDs.push(item.id);
+        return;
+      }
+
+      annotationIDs.push([item.id, item.parentItem.id]);
+      this.cacheAnnotationAttachmentIDs(item.parentItem);
+    });
+
+    return { annotationIDs, itemIDs };
+  }
+
+  /**
+   * Remember the attachment of every annotation of an attachment, so that
+   * annotations created before startup can be routed when deleted.
+   */
+  private cacheAnnotationAttachmentIDs(attachment: Zotero.Item) {
+    attachment.getAnnotations().forEach((annotation) => {
+      this.annotationAttachmentIDs.set(annotation.id, attachment.id);
+    });
+  }
+
   private mapCompoundIDs(this: void, ids: NotifierIDs): [number, number][] {
     return (ids as string[]).map((compoundID) => {
       const ids = compoundID.split('-').map(Number) as [number, number];
@@ -110,3 +204,26 @@ export class EventManager implements Service {
     });
   }
 }
+
+/**
+ * Get the attachment of a deleted annotation from the data that Zotero
+ * includes with the delete event, which identifies the parent of the deleted
+ * item by its ID or by its library and key.
+ * @returns The ID of the attachment, or `undefined` if the deleted item was
+ * not an annotation.
+ */
+function getDeletedAnnotationAttachmentID(data: unknown): ItemID | undefined {
+  if (!isObject(data)) return;
+
+  const { libraryID, parentItemID, parentKey } = data;
+  let parentItem: Zotero.Item | false = false;
+
+  if (typeof parentItemID === 'number') {
+    parentItem = Zotero.Items.get(parentItemID);
+  } else if (typeof libraryID === 'number' && typeof parentKey === 'string') {
+    parentItem = Zotero.Items.getByLibraryAndKey(libraryID, parentKey);
+  }
+
+  // Only annotations have attachments as parents
+  return parentItem && parentItem.isAttachment() ? parentItem.id : undefined;
+}
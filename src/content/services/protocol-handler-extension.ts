@@ -1,6 +1,7 @@
 import type { NotionAuthManager } from '../auth';
 import { logger } from '../utils';
 
+import type { EventManager } from './event-manager';
 import type { Service, ServiceParams } from './service';
 
 const ZOTERO_SCHEME = 'zotero';
@@ -8,10 +9,14 @@ const NOTERO_PATH = '//notero';
 const EXTENSION_SPEC = `${ZOTERO_SCHEME}:${NOTERO_PATH}`;
 
 export class ProtocolHandlerExtension implements Service {
+  private eventManager!: EventManager;
   private notionAuthManager!: NotionAuthManager;
   private zoteroProtocolHandler?: Zotero.ZoteroProtocolHandler;
 
-  public startup({ dependencies }: ServiceParams<'notionAuthManager'>) {
+  public startup({
+    dependencies,
+  }: ServiceParams<'eventManager' | 'notionAuthManager'>) {
+    this.eventManager = dependencies.eventManager;
     this.notionAuthManager = dependencies.notionAuthManager;
     this.registerExtension();
   }
@@ -70,5 +75,15 @@ export class ProtocolHandlerExtension implements Service {
     'notion-auth': async (url) => {
       await this.notionAuthManager.handleTokenResponse(url.searchParams);
     },
+    'sync-items': (url) => {
+      const itemIDs = (url.searchParams.get('itemIDs') || '')
+        .split(',')
+        .map(Number)
+        .filter((id) => id > 0);
+      if (!itemIDs.length) return;
+
+      const items = Zotero.Items.get(itemIDs);
+      this.eventManager.emit('request-sync-items', items);
+    },
   };
 }
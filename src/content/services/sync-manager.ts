@@ -1,7 +1,28 @@
-import { getSyncedNotes } from '../data/item-data';
-import { loadSyncEnabledCollectionIDs } from '../prefs/collection-sync-config';
-import { getNoteroPref, NoteroPref } from '../prefs/notero-pref';
-import { performSyncJob } from '../sync/sync-job';
+import type { Client } from '@notionhq/client';
+
+import {
+  clearPropertiesFingerprint,
+  getNotionPageID,
+  getSyncedNotes,
+  getTrashedItemAction,
+  saveTrashedItemAction,
+} from '../data/item-data';
+import { loadSyncQueue, saveSyncQueue } from '../data/sync-queue';
+import { loadCollectionPages } from '../prefs/collection-pages';
+import {
+  getNotionDatabaseIDForCollections,
+  getNotionDatabaseIDForItem,
+  loadSyncEnabledCollectionIDs,
+} from '../prefs/collection-sync-config';
+import {
+  getNoteroPref,
+  NoteroPref,
+  TrashedItemAction,
+} from '../prefs/notero-pref';
+import { CollectionsDatabase } from '../sync/collections-database';
+import { getNotionClient } from '../sync/notion-client';
+import { performSyncJob, previewSyncJob } from '../sync/sync-job';
+import { applyTrashedItemAction } from '../sync/sync-trashed-item';
 import { getAllCollectionItems, logger, parseItemDate } from '../utils';
 
 import type { EventManager, NotifierEventParams } from './event-manager';
@@ -9,20 +30,86 @@ import type { Service, ServiceParams } from './service';
 
 const SYNC_DEBOUNCE_MS = 2000;
 
+/**
+ * Delay before syncing the annotations of an item, restarted by each change
+ * so that edits made in the reader in quick succession are synced together.
+ */
+const ANNOTATION_SYNC_DEBOUNCE_MS = 5000;
+
+/**
+ * Delays before retrying items that could not sync because Notion was
+ * unreachable. The last delay is repeated for any further attempts.
+ */
+const RETRY_DELAYS_MS = [30_000, 60_000, 2 * 60_000, 5 * 60_000, 15 * 60_000];
+
 type QueuedSync = {
   readonly itemIDs: Set<Zotero.Item['id']>;
   timeoutID?: ReturnType<typeof setTimeout>;
 };
 
+type RetrySync = {
+  attempt: number;
+  readonly itemIDs: Set<Zotero.Item['id']>;
+  timeoutID?: ReturnType<typeof setTimeout>;
+};
+
+type TrashedPage = {
+  /** Notion database of the item, or `undefined` for the default database */
+  readonly databaseID?: string;
+  readonly pageID: string;
+};
+
+type RemovedItem = {
+  /**
+   * Notion database of the item before it was removed from its collections,
+   * or `undefined` for the default database
+   */
+  readonly databaseID?: string;
+  readonly item: Zotero.Item;
+};
+
+export type SyncRequestOptions = {
+  /** Preview what would be sent to Notion without writing anything */
+  dryRun?: boolean;
+  /** Send item properties to Notion even if they have not changed */
+  force?: boolean;
+};
+
+export type SyncStatus = {
+  /** Whether the network is offline */
+  offline: boolean;
+  /** Number of items waiting to retry because Notion was unreachable */
+  retryItemCount: number;
+};
+
 export class SyncManager implements Service {
   private eventManager!: EventManager;
 
-  private getNotionAuthToken!: () => Promise<string>;
+  private getNotionAuthToken!: (databaseID?: string) => Promise<string>;
+
+  /** Pending annotation syncs, keyed by the ID of the parent regular item */
+  private annotationSyncs = new Map<
+    Zotero.Item['id'],
+    ReturnType<typeof setTimeout>
+  >();
 
   private queuedSync?: QueuedSync;
 
+  private inFlightItemIDs = new Set<Zotero.Item['id']>();
+
+  private offline = false;
+
+  private retrySync?: RetrySync;
+
   private syncInProgress = false;
 
+  /**
+   * Notion pages of trashed items, captured when they are trashed so that
+   * the trashed item action can still be applied if they are deleted from
+   * the trash (and lose their Notion link attachments) before they sync.
+   */
+  private trashedPages = new Map<Zotero.Item['id'], TrashedPage>();
+
   public startup({
     dependencies: { eventManager, notionAuthManager },
   }: ServiceParams<'eventManager' | 'notionAuthManager'>) {
@@ -36,6 +123,9 @@ export class SyncManager implements Service {
     addListener('notifier-event', this.handleNotifierEvent);
     addListener('request-sync-collection', this.handleSyncCollection);
     addListener('request-sync-items', this.handleSyncItems);
+    addListener('request-sync-retry', this.retryUnreachableItems);
+
+    void this.resumePersistedQueue();
   }
 
   public shutdown() {
@@ -44,22 +134,219 @@ export class SyncManager implements Service {
     removeListener('notifier-event', this.handleNotifierEvent);
     removeListener('request-sync-collection', this.handleSyncCollection);
     removeListener('request-sync-items', this.handleSyncItems);
+    removeListener('request-sync-retry', this.retryUnreachableItems);
+
+    if (this.retrySync?.timeoutID) {
+      clearTimeout(this.retrySync.timeoutID);
+    }
+
+    this.clearAnnotationSyncs();
   }
 
+  public addToWindow(window: Zotero.ZoteroWindow) {
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    this.offline = !window.navigator.onLine;
+    this.emitSyncStatus();
+  }
+
+  public removeFromWindow(window: Zotero.ZoteroWindow) {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+  }
+
+  /**
+   * Return the IDs of all items that are waiting to sync or were in the sync
+   * job currently in progress.
+   */
+  public getQueuedItemIDs(): Zotero.Item['id'][] {
+    return Array.from(
+      new Set([
+        ...this.inFlightItemIDs,
+        ...(this.queuedSync?.itemIDs.values() ?? []),
+        ...(this.retrySync?.itemIDs.values() ?? []),
+      ]),
+    );
+  }
+
+  /**
+   * Discard all items waiting to sync, both in memory and on disk. A sync
+   * job already in progress is allowed to finish, but it will not be resumed
+   * if Zotero restarts before it does.
+   */
+  public async clearQueue(): Promise<void> {
+    if (this.queuedSync?.timeoutID) {
+      clearTimeout(this.queuedSync.timeoutID);
+    }
+
+    if (this.retrySync?.timeoutID) {
+      clearTimeout(this.retrySync.timeoutID);
+    }
+
+    this.clearAnnotationSyncs();
+    this.queuedSync = undefined;
+    this.retrySync = undefined;
+    this.inFlightItemIDs.clear();
+
+    this.emitSyncStatus();
+    await this.persistQueue();
+  }
+
+  /**
+   * Enqueue items that were waiting to sync, or whose sync was interrupted,
+   * when Zotero last shut down.
+   */
+  private async resumePersistedQueue() {
+    const { inFlightItemIDs, pendingItemIDs } = await loadSyncQueue();
+    const itemIDs = Array.from(
+      new Set([...inFlightItemIDs, ...pendingItemIDs]),
+    );
+    if (!itemIDs.length) return;
+
+    logger.log(`Resuming sync of ${itemIDs.length} persisted item(s)`);
+
+    const items = Zotero.Items.get(itemIDs).filter(
+      (item) => !item.deleted || isTrashedItemToSync(item),
+    );
+
+    this.enqueueItemsToSync(items);
+  }
+
+  private persistQueue(): Promise<void> {
+    return saveSyncQueue({
+      inFlightItemIDs: Array.from(this.inFlightItemIDs),
+      pendingItemIDs: Array.from(
+        new Set([
+          ...(this.queuedSync?.itemIDs.values() ?? []),
+          ...(this.retrySync?.itemIDs.values() ?? []),
+        ]),
+      ),
+    });
+  }
+
+  private emitSyncStatus() {
+    this.eventManager.emit('sync-status.change', {
+      offline: this.offline,
+      retryItemCount: this.retrySync?.itemIDs.size ?? 0,
+    });
+  }
+
+  private handleOnline = () => {
+    if (!this.offline) return;
+
+    logger.log('Network is online');
+    this.offline = false;
+    this.retryUnreachableItems();
+  };
+
+  private handleOffline = () => {
+    if (this.offline) return;
+
+    logger.log('Network is offline');
+    this.offline = true;
+    this.emitSyncStatus();
+  };
+
+  /**
+   * Schedule a retry for items that could not sync because Notion was
+   * unreachable. Retries back off according to `RETRY_DELAYS_MS` until a
+   * sync job completes without any unreachable items. They are also retried
+   * as soon as the network comes back online.
+   * @param itemIDs The IDs of the items to retry.
+   */
+  private scheduleRetry(itemIDs: Set<Zotero.Item['id']>) {
+    const retrySync = this.retrySync ?? { attempt: 0, itemIDs: new Set() };
+    this.retrySync = retrySync;
+
+    itemIDs.forEach((id) => retrySync.itemIDs.add(id));
+
+    if (!retrySync.timeoutID) {
+      const delayIndex = Math.min(
+        retrySync.attempt,
+        RETRY_DELAYS_MS.length - 1,
+      );
+      const delay = RETRY_DELAYS_MS[delayIndex] ?? SYNC_DEBOUNCE_MS;
+
+      logger.log(
+        `Retrying sync of ${retrySync.itemIDs.size} item(s) in ${delay / 1000}s`,
+      );
+
+      retrySync.attempt += 1;
+      retrySync.timeoutID = setTimeout(this.retryUnreachableItems, delay);
+    }
+
+    this.emitSyncStatus();
+    void this.persistQueue();
+  }
+
+  private retryUnreachableItems = () => {
+    const { retrySync } = this;
+    if (!retrySync) return;
+
+    if (retrySync.timeoutID) {
+      clearTimeout(retrySync.timeoutID);
+      retrySync.timeoutID = undefined;
+    }
+
+    const items = Zotero.Items.get(Array.from(retrySync.itemIDs)).filter(
+      (item) => !item.deleted || isTrashedItemToSync(item),
+    );
+
+    // Keep the attempt count so that backoff continues if Notion is still
+    // unreachable, but move the items to the regular sync queue
+    retrySync.itemIDs.clear();
+
+    this.emitSyncStatus();
+    this.enqueueItemsToSync(items);
+  };
+
   private handleNotifierEvent = (...params: NotifierEventParams) => {
+    if (
+      params[0] === 'annotation.add' ||
+      params[0] === 'annotation.delete' ||
+      params[0] === 'annotation.modify'
+    ) {
+      this.handleChangedAnnotations(this.getIndexedIDs(1, params[1]));
+      return;
+    }
+
+    if (params[0] === 'item.trash') {
+      this.handleTrashedItems(params[1]);
+      return;
+    }
+
+    if (params[0] === 'item.delete') {
+      this.handleDeletedItems(params[1]);
+      return;
+    }
+
+    if (params[0] === 'collection-item.remove') {
+      this.handleRemovedItems(params[1]);
+      return;
+    }
+
+    if (params[0] === 'item.modify') {
+      this.handleRestoredItems(params[1]);
+    }
+
+    if (params[0] === 'collection.modify') {
+      this.handleModifiedCollections(params[1]);
+    }
+
+    if (params[0] === 'collection.delete') {
+      this.handleDeletedCollections(params[1]);
+    }
+
     const items = this.getItemsForNotifierEvent(...params);
     if (!items.length) return;
 
     const syncedCollectionIDs = loadSyncEnabledCollectionIDs();
     if (!syncedCollectionIDs.size) return;
 
-    const isItemInSyncedCollection = (item: Zotero.Item) =>
-      item
-        .getCollections()
-        .some((collectionID) => syncedCollectionIDs.has(collectionID));
-
     const isValidRegularItem = (item: Zotero.Item) =>
-      item.isRegularItem() && isItemInSyncedCollection(item);
+      item.isRegularItem() &&
+      isItemInSyncedCollection(item, syncedCollectionIDs);
 
     const isValidNoteItem = (item: Zotero.Item) =>
       item.isNote() &&
@@ -74,17 +361,300 @@ export class SyncManager implements Service {
     this.enqueueItemsToSync(validItems);
   };
 
-  private handleSyncCollection = (collection: Zotero.Collection) => {
+  /**
+   * Schedule a sync of the annotations of the parent items of attachments
+   * whose annotations were created, modified, or deleted. Each parent item is
+   * debounced separately so that annotating one item does not delay syncing
+   * the annotations of another.
+   */
+  private handleChangedAnnotations(attachmentIDs: Zotero.Item['id'][]) {
+    if (
+      !getNoteroPref(NoteroPref.syncOnModifyItems) ||
+      !getNoteroPref(NoteroPref.syncNotes)
+    ) {
+      return;
+    }
+
+    const syncedCollectionIDs = loadSyncEnabledCollectionIDs();
+
+    const attachments = Zotero.Items.get(
+      Array.from(new Set(attachmentIDs)),
+    ).filter(
+      (attachment) =>
+        !attachment.deleted &&
+        !attachment.isTopLevelItem() &&
+        isItemInSyncedCollection(
+          attachment.topLevelItem,
+          syncedCollectionIDs,
+        ) &&
+        Boolean(getNotionPageID(attachment.topLevelItem)),
+    );
+
+    attachments.forEach((attachment) => {
+      const parentItemID = attachment.topLevelItem.id;
+      const timeoutID = this.annotationSyncs.get(parentItemID);
+      if (timeoutID) clearTimeout(timeoutID);
+
+      // Syncing an attachment syncs the annotations of its parent item
+      this.annotationSyncs.set(
+        parentItemID,
+        setTimeout(() => {
+          this.annotationSyncs.delete(parentItemID);
+          this.enqueueItemsToSync([attachment]);
+        }, ANNOTATION_SYNC_DEBOUNCE_MS),
+      );
+    });
+  }
+
+  private clearAnnotationSyncs() {
+    this.annotationSyncs.forEach((timeoutID) => {
+      clearTimeout(timeoutID);
+    });
+    this.annotationSyncs.clear();
+  }
+
+  /**
+   * Enqueue trashed items so that the trashed item action is applied to
+   * their Notion pages. Their page IDs are captured right away in case they
+   * are deleted from the trash before they sync.
+   */
+  private handleTrashedItems(ids: Zotero.Item['id'][]) {
+    const items = Zotero.Items.get(ids).filter(isTrashedItemToSync);
+
+    items.forEach((item) => {
+      const pageID = getNotionPageID(item);
+      if (!pageID) return;
+
+      const databaseID = getNotionDatabaseIDForItem(item);
+      this.trashedPages.set(item.id, { databaseID, pageID });
+    });
+
+    this.enqueueItemsToSync(items);
+  }
+
+  /**
+   * Apply the trashed item action to the Notion pages of items that were
+   * deleted from the trash before they synced. Items that were already
+   * synced while in the trash, or that were erased without passing through
+   * the trash, are ignored.
+   */
+  private handleDeletedItems(ids: Zotero.Item['id'][]) {
+    const pages = ids.reduce<TrashedPage[]>((pages, id) => {
+      const page = this.trashedPages.get(id);
+      this.trashedPages.delete(id);
+      return page ? [...pages, page] : pages;
+    }, []);
+
+    const action = getNoteroPref(NoteroPref.trashedItemAction);
+
+    if (!pages.length || action === TrashedItemAction.none) {
+      return;
+    }
+
+    void this.applyActionToDeletedPages(pages, action);
+  }
+
+  private async applyActionToDeletedPages(
+    pages: TrashedPage[],
+    action: TrashedItemAction,
+  ) {
+    try {
+      for (const { databaseID, pageID } of pages) {
+        const notion = await this.createNotionClient(databaseID);
+        if (!notion) return;
+
+        await applyTrashedItemAction(notion, pageID, action);
+      }
+    } catch (error) {
+      logger.error('Failed to update pages of deleted items:', error);
+    }
+  }
+
+  /**
+   * Update the Notion pages of items removed from a collection. Items that
+   * remain in a sync-enabled collection are synced so that their Collections
+   * property is refreshed. Items that no longer are have the removed item
+   * action applied to their pages, or are synced if the action is none. Their
+   * databases are resolved with the collections they were removed from, as
+   * they no longer contain the items.
+   */
+  private handleRemovedItems(ids: [number, number][]) {
+    const action = getNoteroPref(NoteroPref.removedItemAction);
+    const syncedCollectionIDs = loadSyncEnabledCollectionIDs();
+    const itemIDs = this.getIndexedIDs(1, ids);
+
+    const items = Zotero.Items.get(Array.from(new Set(itemIDs))).filter(
+      (item) =>
+        !item.deleted && item.isRegularItem() && Boolean(getNotionPageID(item)),
+    );
+
+    const isRemovedFromSync = (item: Zotero.Item) =>
+      action !== TrashedItemAction.none &&
+      !isItemInSyncedCollection(item, syncedCollectionIDs);
+
+    const getRemovedCollectionIDs = (item: Zotero.Item) =>
+      ids
+        .filter(([, itemID]) => itemID === item.id)
+        .map(([collectionID]) => collectionID);
+
+    const removedItems = items
+      .filter(
+        (item) =>
+          isRemovedFromSync(item) && getTrashedItemAction(item) !== action,
+      )
+      .map(
+        (item): RemovedItem => ({
+          databaseID: getNotionDatabaseIDForCollections([
+            ...item.getCollections(),
+            ...getRemovedCollectionIDs(item),
+          ]),
+          item,
+        }),
+      );
+
+    if (removedItems.length) {
+      void this.applyActionToRemovedItems(removedItems, action);
+    }
+
+    this.enqueueItemsToSync(items.filter((item) => !isRemovedFromSync(item)));
+  }
+
+  private async applyActionToRemovedItems(
+    items: RemovedItem[],
+    action: TrashedItemAction,
+  ) {
+    try {
+      for (const { databaseID, item } of items) {
+        const pageID = getNotionPageID(item);
+
+        // Items moved between collections are removed before being added, so
+        // check again in case the item was added to a sync-enabled collection
+        if (
+          !pageID ||
+          isItemInSyncedCollection(item, loadSyncEnabledCollectionIDs())
+        ) {
+          continue;
+        }
+
+        const notion = await this.createNotionClient(databaseID);
+        if (!notion) return;
+
+        await applyTrashedItemAction(notion, pageID, action);
+        await saveTrashedItemAction(item, action);
+      }
+    } catch (error) {
+      logger.error('Failed to update pages of removed items:', error);
+    }
+  }
+
+  /**
+   * Update the pages mirroring collections that were renamed or moved,
+   * regardless of whether syncing on modify is enabled.
+   */
+  private handleModifiedCollections(ids: Zotero.Collection['id'][]) {
+    const collectionPages = loadCollectionPages();
+    const collections = Zotero.Collections.get(ids).filter(
+      (collection) => collectionPages[collection.id],
+    );
+
+    if (collections.length) void this.updateCollectionPages(collections);
+  }
+
+  private async updateCollectionPages(collections: Zotero.Collection[]) {
+    try {
+      const collectionsDatabase = await this.createCollectionsDatabase();
+      await collectionsDatabase?.updateCollectionPages(collections);
+    } catch (error) {
+      logger.error('Failed to update pages of collections:', error);
+    }
+  }
+
+  /**
+   * Archive the pages mirroring collections that were deleted.
+   */
+  private handleDeletedCollections(ids: Zotero.Collection['id'][]) {
+    const collectionPages = loadCollectionPages();
+    const deletedIDs = ids.filter((id) => collectionPages[id]);
+
+    if (deletedIDs.length) void this.archiveCollectionPages(deletedIDs);
+  }
+
+  private async archiveCollectionPages(ids: Zotero.Collection['id'][]) {
+    try {
+      const collectionsDatabase = await this.createCollectionsDatabase();
+      await collectionsDatabase?.archiveCollectionPages(ids);
+    } catch (error) {
+      logger.error('Failed to archive pages of deleted collections:', error);
+    }
+  }
+
+  private async createCollectionsDatabase(): Promise<
+    CollectionsDatabase | undefined
+  > {
+    const databaseID = getNoteroPref(NoteroPref.collectionsDatabaseID);
+    if (!databaseID) return;
+
+    const notion = await this.createNotionClient(databaseID);
+    return notion && new CollectionsDatabase(notion, databaseID);
+  }
+
+  /**
+   * Create a Notion client with the token of the workspace that can access
+   * the given database, or the default database if none is given.
+   */
+  private async createNotionClient(
+    databaseID = getNoteroPref(NoteroPref.notionDatabaseID),
+  ): Promise<Client | undefined> {
+    const mainWindow = Zotero.getMainWindow();
+    if (!mainWindow) {
+      logger.warn('Zotero main window not available - cannot update pages');
+      return;
+    }
+
+    return getNotionClient(
+      await this.getNotionAuthToken(databaseID),
+      mainWindow,
+    );
+  }
+
+  /**
+   * Enqueue items restored from the trash, or from removal from sync-enabled
+   * collections, so that the action applied to their Notion pages is
+   * reverted, regardless of whether syncing on modify is enabled.
+   */
+  private handleRestoredItems(ids: Zotero.Item['id'][]) {
+    const syncedCollectionIDs = loadSyncEnabledCollectionIDs();
+
+    const items = Zotero.Items.get(ids).filter(
+      (item) =>
+        !item.deleted &&
+        item.isRegularItem() &&
+        isItemInSyncedCollection(item, syncedCollectionIDs) &&
+        getTrashedItemAction(item) !== undefined,
+    );
+
+    items.forEach((item) => this.trashedPages.delete(item.id));
+
+    if (items.length) this.enqueueItemsToSync(items);
+  }
+
+  private handleSyncCollection = (
+    collection: Zotero.Collection,
+    options: SyncRequestOptions = {},
+  ) => {
     const validItems = collection
       .getChildItems(false)
       .filter((item) => !item.deleted && item.isRegularItem());
 
     const noteItems = this.getNotesToSync(validItems);
 
-    this.enqueueItemsToSync(validItems.concat(noteItems));
+    this.handleSyncRequest(validItems.concat(noteItems), options);
   };
 
-  private handleSyncItems = (items: Zotero.Item[]) => {
+  private handleSyncItems = (
+    items: Zotero.Item[],
+    options: SyncRequestOptions = {},
+  ) => {
     if (!items.length) return;
 
     const validItems = items.filter(
@@ -95,9 +665,58 @@ export class SyncManager implements Service {
 
     const noteItems = this.getNotesToSync(validItems);
 
-    this.enqueueItemsToSync(validItems.concat(noteItems));
+    this.handleSyncRequest(validItems.concat(noteItems), options);
   };
 
+  private handleSyncRequest(
+    items: Zotero.Item[],
+    { dryRun = false, force = false }: SyncRequestOptions,
+  ) {
+    if (dryRun) {
+      void this.previewSync(items);
+    } else if (force) {
+      void this.forceSyncItems(items);
+    } else {
+      this.enqueueItemsToSync(items);
+    }
+  }
+
+  /**
+   * Preview syncing items immediately, bypassing the sync queue as nothing is
+   * written to Notion.
+   */
+  private async previewSync(items: Zotero.Item[]) {
+    if (!items.length) {
+      logger.debug('No valid items to preview');
+      return;
+    }
+
+    const mainWindow = Zotero.getMainWindow();
+    if (!mainWindow) {
+      logger.warn('Zotero main window not available - cannot preview sync');
+      return;
+    }
+
+    const itemIDs = new Set(items.map(({ id }) => id));
+
+    await previewSyncJob(itemIDs, this.getNotionAuthToken, mainWindow);
+  }
+
+  /**
+   * Enqueue items to sync after clearing their properties fingerprints so
+   * that they are sent to Notion even if they have not changed since the
+   * last sync.
+   */
+  private async forceSyncItems(items: Zotero.Item[]) {
+    await Promise.all(
+      items
+        .filter((item) => item.isRegularItem())
+        .map((item) => clearPropertiesFingerprint(item)),
+    );
+
+    this.enqueueItemsToSync(items);
+  }
+
   /**
    * Return the Zotero items (if any) that should be synced for the given
    * notifier event.
@@ -244,6 +863,8 @@ export class SyncManager implements Service {
     }, SYNC_DEBOUNCE_MS);
 
     this.queuedSync = { itemIDs, timeoutID };
+
+    void this.persistQueue();
   }
 
   private async performSync() {
@@ -257,9 +878,37 @@ export class SyncManager implements Service {
 
     const { itemIDs } = this.queuedSync;
     this.queuedSync = undefined as QueuedSync | undefined;
+    this.inFlightItemIDs = new Set(itemIDs);
     this.syncInProgress = true;
 
-    await performSyncJob(itemIDs, this.getNotionAuthToken, mainWindow);
+    void this.persistQueue();
+
+    const { relatedItemIDs, unreachableItemIDs } = await performSyncJob(
+      itemIDs,
+      this.getNotionAuthToken,
+      mainWindow,
+    );
+
+    this.inFlightItemIDs.clear();
+
+    itemIDs.forEach((id) => {
+      if (!unreachableItemIDs.has(id)) this.trashedPages.delete(id);
+    });
+
+    if (unreachableItemIDs.size) {
+      this.scheduleRetry(unreachableItemIDs);
+    } else {
+      if (this.retrySync) {
+        // Notion is reachable again, so retry any remaining items right away
+        this.retryUnreachableItems();
+        this.retrySync = undefined;
+      }
+      void this.persistQueue();
+    }
+
+    if (relatedItemIDs.size) {
+      this.enqueueItemsToSync(Zotero.Items.get(Array.from(relatedItemIDs)));
+    }
 
     if (this.queuedSync && !this.queuedSync.timeoutID) {
       await this.performSync();
@@ -268,3 +917,28 @@ export class SyncManager implements Service {
     this.syncInProgress = false;
   }
 }
+
+function isItemInSyncedCollection(
+  item: Zotero.Item,
+  syncedCollectionIDs: Set<Zotero.Collection['id']>,
+): boolean {
+  return item
+    .getCollections()
+    .some((collectionID) => syncedCollectionIDs.has(collectionID));
+}
+
+/**
+ * Whether a trashed item has a Notion page that the trashed item action has
+ * not yet been applied to.
+ */
+function isTrashedItemToSync(item: Zotero.Item): boolean {
+  const action = getNoteroPref(NoteroPref.trashedItemAction);
+
+  return (
+    item.deleted &&
+    item.isRegularItem() &&
+    action !== TrashedItemAction.none &&
+    getTrashedItemAction(item) !== action &&
+    Boolean(getNotionPageID(item))
+  );
+}
@@ -4,6 +4,7 @@ import { createXULElement, logger } from '../utils';
 import type { EventManager } from './event-manager';
 import type { PreferencePaneManager } from './preference-pane-manager';
 import type { Service, ServiceParams } from './service';
+import type { SyncStatus } from './sync-manager';
 
 const FTL_FILE = 'notero.ftl';
 
@@ -13,11 +14,29 @@ export class UIManager implements Service {
 
   private managedWindows = new Map<Zotero.ZoteroWindow, Set<Element>>();
 
+  private syncStatus: SyncStatus = { offline: false, retryItemCount: 0 };
+  private syncStatusIndicators = new Map<
+    Zotero.ZoteroWindow,
+    XUL.ButtonElement
+  >();
+
   public startup({
     dependencies,
   }: ServiceParams<'eventManager' | 'preferencePaneManager'>) {
     this.eventManager = dependencies.eventManager;
     this.preferencePaneManager = dependencies.preferencePaneManager;
+
+    this.eventManager.addListener(
+      'sync-status.change',
+      this.handleSyncStatusChange,
+    );
+  }
+
+  public shutdown() {
+    this.eventManager.removeListener(
+      'sync-status.change',
+      this.handleSyncStatusChange,
+    );
   }
 
   public addToWindow(window: Zotero.ZoteroWindow) {
@@ -25,9 +44,12 @@ export class UIManager implements Service {
     this.initCollectionMenuItem(window);
     this.initItemMenuItem(window);
     this.initToolsMenuItem(window);
+    this.initSyncStatusIndicator(window);
   }
 
   public removeFromWindow(window: Zotero.ZoteroWindow) {
+    this.syncStatusIndicators.delete(window);
+
     const managedElements = this.managedWindows.get(window);
     if (!managedElements) return;
 
@@ -65,6 +87,22 @@ export class UIManager implements Service {
         }
       },
     });
+
+    this.createMenuItem({
+      window,
+      l10nId: 'notero-collection-menu-preview',
+      parentId: 'zotero-collectionmenu',
+      onCommand: () => {
+        const collection =
+          Zotero.getActiveZoteroPane()?.getSelectedCollection(false);
+        if (collection) {
+          logger.log('Request sync preview for collection:', collection.name);
+          this.eventManager.emit('request-sync-collection', collection, {
+            dryRun: true,
+          });
+        }
+      },
+    });
   }
 
   private initItemMenuItem(window: Zotero.ZoteroWindow) {
@@ -85,6 +123,40 @@ export class UIManager implements Service {
         }
       },
     });
+
+    this.createMenuItem({
+      window,
+      l10nId: 'notero-item-menu-force-sync',
+      parentId: 'zotero-itemmenu',
+      onCommand: () => {
+        const items = Zotero.getActiveZoteroPane()?.getSelectedItems(false);
+        if (items) {
+          logger.log(
+            `Request forced sync for ${items.length} item(s) with IDs`,
+            items.map((item) => item.id),
+          );
+          this.eventManager.emit('request-sync-items', items, { force: true });
+        }
+      },
+    });
+
+    this.createMenuItem({
+      window,
+      l10nId: 'notero-item-menu-preview',
+      parentId: 'zotero-itemmenu',
+      onCommand: () => {
+        const items = Zotero.getActiveZoteroPane()?.getSelectedItems(false);
+        if (items) {
+          logger.log(
+            `Request sync preview for ${items.length} item(s) with IDs`,
+            items.map((item) => item.id),
+          );
+          this.eventManager.emit('request-sync-items', items, {
+            dryRun: true,
+          });
+        }
+      },
+    });
   }
 
   private initToolsMenuItem(window: Zotero.ZoteroWindow) {
@@ -98,6 +170,53 @@ export class UIManager implements Service {
     });
   }
 
+  /**
+   * Add a toolbar button next to the Zotero sync button that only appears
+   * while items are waiting to retry because Notion was unreachable. This
+   * replaces the error popups that would otherwise appear on every edit.
+   */
+  private initSyncStatusIndicator(window: Zotero.ZoteroWindow) {
+    const syncButton = window.document.getElementById('zotero-tb-sync');
+    if (!syncButton) {
+      logger.error("Failed to find element 'zotero-tb-sync'");
+      return;
+    }
+
+    const indicator = createXULElement(window.document, 'toolbarbutton');
+    indicator.id = 'notero-tb-sync-status';
+    indicator.addEventListener('command', () => {
+      this.eventManager.emit('request-sync-retry');
+    });
+
+    syncButton.before(indicator);
+    this.addManagedElement(window, indicator);
+    this.syncStatusIndicators.set(window, indicator);
+
+    this.updateSyncStatusIndicator(window, indicator);
+  }
+
+  private handleSyncStatusChange = (status: SyncStatus) => {
+    this.syncStatus = status;
+
+    this.syncStatusIndicators.forEach((indicator, window) => {
+      this.updateSyncStatusIndicator(window, indicator);
+    });
+  };
+
+  private updateSyncStatusIndicator(
+    window: Zotero.ZoteroWindow,
+    indicator: XUL.ButtonElement,
+  ) {
+    const { offline, retryItemCount } = this.syncStatus;
+
+    indicator.hidden = retryItemCount === 0;
+    window.document.l10n.setAttributes(
+      indicator,
+      offline ? 'notero-sync-status-offline' : 'notero-sync-status-unreachable',
+      { count: retryItemCount },
+    );
+  }
+
   private createMenuItem({
     l10nId,
     onCommand,
@@ -0,0 +1,318 @@
+import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createZoteroItemMock, zoteroMock } from '../../../../test/utils';
+import { uploadToImgur } from '../../utils/imgur';
+import {
+  buildAnnotationSection,
+  buildSyncedAnnotations,
+  getSyncedAnnotationBlockKeys,
+} from '../annotation-blocks';
+
+vi.mock('../../utils/imgur');
+
+function setup(annotations: Partial<Zotero.Item>[]) {
+  const item = createZoteroItemMock();
+  const attachment = createZoteroItemMock();
+  const annotationItems = annotations.map((annotation) => {
+    const annotationItem = createZoteroItemMock({
+      annotationColor: '#ffd400',
+      annotationComment: null,
+      annotationPageLabel: null,
+      annotationText: null,
+      ...annotation,
+    });
+    annotationItem.getTags.mockReturnValue([]);
+    return annotationItem;
+  });
+
+  item.getAttachments.mockReturnValue([attachment.id]);
+  attachment.isPDFAttachment.mockReturnValue(true);
+  attachment.getAnnotations.mockReturnValue(annotationItems);
+
+  return { annotationItems, attachment, item };
+}
+
+function getHeadingChildren(blocks: BlockObjectRequest[]) {
+  return blocks.flatMap((block) =>
+    'heading_3' in block ? (block.heading_3.children ?? []) : [],
+  );
+}
+
+describe('buildAnnotationSection', () => {
+  it('builds a block group for each highlight', async () => {
+    const { annotationItems, item } = setup([
+      {
+        annotationType: 'highlight',
+        annotationText: 'Highlighted text',
+        annotationComment: 'Comment',
+        annotationColor: '#5fb236',
+        annotationPageLabel: '12',
+        annotationSortIndex: '00001',
+      },
+    ]);
+    annotationItems[0]?.getTags.mockReturnValue([
+      { tag: 'first', type: 0 },
+      { tag: 'second', type: 0 },
+    ]);
+
+    const { blocks } = await buildAnnotationSection(item);
+
+    expect(getHeadingChildren(blocks)).toStrictEqual([
+      {
+        type: 'callout',
+        callout: {
+          rich_text: [
+            { text: { content: 'Highlighted text' } },
+            {
+              text: { content: ' (p. 12)' },
+              annotations: { color: 'gray' },
+            },
+          ],
+          color: 'green_background',
+        },
+      },
+      {
+        type: 'paragraph',
+        paragraph: { rich_text: [{ text: { content: 'Comment' } }] },
+      },
+      {
+        type: 'paragraph',
+        paragraph: {
+          rich_text: [
+            { text: { content: '#first' }, annotations: { code: true } },
+            { text: { content: ' ' } },
+            { text: { content: '#second' }, annotations: { code: true } },
+          ],
+        },
+      },
+      { type: 'divider', divider: {} },
+    ]);
+  });
+
+  it('orders annotations by their position in the attachment', async () => {
+    const { item } = setup([
+      {
+        annotationType: 'highlight',
+        annotationText: 'Second',
+        annotationSortIndex: '00002',
+      },
+      {
+        annotationType: 'highlight',
+        annotationText: 'First',
+        annotationSortIndex: '00001',
+      },
+    ]);
+
+    const { blocks } = await buildAnnotationSection(item);
+
+    expect(
+      getHeadingChildren(blocks).flatMap((block) =>
+        'callout' in block ? block.callout.rich_text : [],
+      ),
+    ).toStrictEqual([
+      { text: { content: 'First' } },
+      { text: { content: 'Second' } },
+    ]);
+  });
+
+  it('skips attachments that are not PDFs or EPUBs', async () => {
+    const { attachment, item } = setup([
+      { annotationType: 'highlight', annotationText: 'Text' },
+    ]);
+    attachment.isPDFAttachment.mockReturnValue(false);
+    attachment.isEPUBAttachment.mockReturnValue(false);
+
+    const { blocks } = await buildAnnotationSection(item);
+
+    expect(blocks).toStrictEqual([]);
+  });
+
+  it('adds uploaded image of image annotation to callout', async () => {
+    const { item } = setup([
+      { annotationType: 'image', annotationComment: 'Figure 1' },
+    ]);
+    zoteroMock.Annotations.getCacheImagePath.mockReturnValue('/image.png');
+    vi.mocked(uploadToImgur).mockResolvedValue('https://i.imgur.com/image.png');
+
+    const { blocks } = await buildAnnotationSection(item);
+    const [callout] = getHeadingChildren(blocks);
+
+    expect(uploadToImgur).toHaveBeenCalledWith('/image.png');
+    expect(callout).toStrictEqual({
+      type: 'callout',
+      callout: {
+        rich_text: [{ text: { content: 'Figure 1' } }],
+        color: 'yellow_background',
+        children: [
+          {
+            type: 'image',
+            image: {
+              type: 'external',
+              external: { url: 'https://i.imgur.com/image.png' },
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('returns uploaded images with the positions of their annotations', async () => {
+    const { annotationItems, item } = setup([
+      { annotationType: 'image', annotationPosition: 'position' },
+    ]);
+    const annotationKey = annotationItems[0]?.key ?? '';
+    vi.mocked(uploadToImgur).mockResolvedValue('https://i.imgur.com/image.png');
+
+    const { images } = await buildAnnotationSection(item);
+
+    expect(images).toStrictEqual({
+      [annotationKey]: {
+        position: 'position',
+        url: 'https://i.imgur.com/image.png',
+      },
+    });
+  });
+
+  it('reuses synced image of image annotation that did not move', async () => {
+    const { annotationItems, item } = setup([
+      { annotationType: 'image', annotationPosition: 'position' },
+    ]);
+    const annotationKey = annotationItems[0]?.key ?? '';
+    const syncedImages = {
+      [annotationKey]: {
+        position: 'position',
+        url: 'https://i.imgur.com/synced.png',
+      },
+    };
+
+    const { blocks, images } = await buildAnnotationSection(item, {
+      images: syncedImages,
+    });
+    const [callout] = getHeadingChildren(blocks);
+
+    expect(uploadToImgur).not.toHaveBeenCalled();
+    expect(callout).toMatchObject({
+      callout: {
+        children: [
+          { image: { external: { url: 'https://i.imgur.com/synced.png' } } },
+        ],
+      },
+    });
+    expect(images).toStrictEqual(syncedImages);
+  });
+
+  it('uploads image of image annotation that moved', async () => {
+    const { annotationItems, item } = setup([
+      { annotationType: 'image', annotationPosition: 'new-position' },
+    ]);
+    const annotationKey = annotationItems[0]?.key ?? '';
+    vi.mocked(uploadToImgur).mockResolvedValue('https://i.imgur.com/new.png');
+
+    const { images } = await buildAnnotationSection(item, {
+      images: {
+        [annotationKey]: {
+          position: 'old-position',
+          url: 'https://i.imgur.com/synced.png',
+        },
+      },
+    });
+
+    expect(uploadToImgur).toHaveBeenCalled();
+    expect(images).toStrictEqual({
+      [annotationKey]: {
+        position: 'new-position',
+        url: 'https://i.imgur.com/new.png',
+      },
+    });
+  });
+
+  it('groups annotations under a heading for each color', async () => {
+    const { item } = setup([
+      { annotationType: 'highlight', annotationText: 'First' },
+      {
+        annotationType: 'highlight',
+        annotationText: 'Second',
+        annotationColor: '#ff6666',
+      },
+    ]);
+
+    const { blocks } = await buildAnnotationSection(item);
+
+    expect(
+      blocks.map((block) =>
+        'heading_3' in block ? block.heading_3.rich_text : [],
+      ),
+    ).toStrictEqual([
+      [{ text: { content: 'Highlights' } }],
+      [{ text: { content: 'Weak Points' } }],
+    ]);
+  });
+
+  it('builds toggleable headings for colors', async () => {
+    const { item } = setup([
+      { annotationType: 'highlight', annotationText: 'Text' },
+    ]);
+
+    const { blocks } = await buildAnnotationSection(item);
+
+    expect(blocks).toMatchObject([
+      { type: 'heading_3', heading_3: { is_toggleable: true } },
+    ]);
+  });
+
+  it('returns keys of the blocks of each annotation', async () => {
+    const { annotationItems, item } = setup([
+      {
+        annotationType: 'highlight',
+        annotationText: 'Text',
+        annotationComment: 'Comment',
+      },
+    ]);
+    const annotationKey = annotationItems[0]?.key ?? '';
+
+    const { blocks, keys } = await buildAnnotationSection(item);
+
+    expect(
+      getHeadingChildren(blocks).map((block) =>
+        keys.get(block as BlockObjectRequest),
+      ),
+    ).toStrictEqual([
+      `${annotationKey}/callout`,
+      `${annotationKey}/comment`,
+      `${annotationKey}/divider`,
+    ]);
+  });
+});
+
+describe('getSyncedAnnotationBlockKeys', () => {
+  it('returns keys of synced blocks by block ID', () => {
+    expect(
+      getSyncedAnnotationBlockKeys({
+        ABCD1234: { callout: 'block-1', divider: 'block-2' },
+      }),
+    ).toStrictEqual(
+      new Map([
+        ['block-1', 'ABCD1234/callout'],
+        ['block-2', 'ABCD1234/divider'],
+      ]),
+    );
+  });
+});
+
+describe('buildSyncedAnnotations', () => {
+  it('groups block IDs by annotation', () => {
+    expect(
+      buildSyncedAnnotations(
+        new Map([
+          ['ABCD1234/callout', 'block-1'],
+          ['ABCD1234/divider', 'block-2'],
+          ['EFGH5678/callout', 'block-3'],
+        ]),
+      ),
+    ).toStrictEqual({
+      ABCD1234: { callout: 'block-1', divider: 'block-2' },
+      EFGH5678: { callout: 'block-3' },
+    });
+  });
+});
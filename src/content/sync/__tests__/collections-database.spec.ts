@@ -0,0 +1,200 @@
+import { type Client } from '@notionhq/client';
+import type {
+  GetDatabaseResponse,
+  UpdatePageResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import {
+  createZoteroCollectionMock,
+  mockZoteroPrefs,
+} from '../../../../test/utils';
+import {
+  loadCollectionPages,
+  saveCollectionPage,
+} from '../../prefs/collection-pages';
+import { saveSyncConfigs } from '../../prefs/collection-sync-config';
+import { CollectionsDatabase } from '../collections-database';
+
+const fakeDatabaseID = 'fakeDatabaseID';
+
+const parent = createZoteroCollectionMock({ name: 'Parent' });
+const child = createZoteroCollectionMock({ name: 'Child' });
+const other = createZoteroCollectionMock({ name: 'Other' });
+
+child.parentID = parent.id;
+
+function createUpdateResponse(
+  id: string,
+  databaseID = fakeDatabaseID,
+): UpdatePageResponse {
+  return {
+    id,
+    object: 'page',
+    parent: { type: 'database_id', database_id: databaseID },
+    properties: {},
+    url: `https://www.notion.so/${id}`,
+  } as unknown as UpdatePageResponse;
+}
+
+function setup({ readOnly = false }: { readOnly?: boolean } = {}) {
+  const notion = mockDeep<Client>();
+  notion.databases.retrieve.mockResolvedValue({
+    id: fakeDatabaseID,
+    object: 'database',
+    properties: {
+      Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+      Parent: {
+        id: 'parent',
+        name: 'Parent',
+        type: 'relation',
+        relation: { database_id: fakeDatabaseID },
+      },
+    },
+    title: [],
+  } as unknown as GetDatabaseResponse);
+  notion.pages.create
+    .mockResolvedValueOnce({ id: 'parent-page', object: 'page' })
+    .mockResolvedValueOnce({ id: 'child-page', object: 'page' });
+
+  const collectionsDatabase = new CollectionsDatabase(notion, fakeDatabaseID, {
+    readOnly,
+  });
+
+  return { collectionsDatabase, notion };
+}
+
+beforeEach(() => {
+  mockZoteroPrefs();
+  saveSyncConfigs({ [child.id]: { syncEnabled: true } });
+});
+
+describe('CollectionsDatabase', () => {
+  it('creates pages for sync-enabled collections and their ancestors', async () => {
+    const { collectionsDatabase, notion } = setup();
+
+    const pageIDs = await collectionsDatabase.getCollectionPageIDs(
+      [child, other],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['child-page']);
+    expect(notion.pages.create).toHaveBeenLastCalledWith({
+      parent: { database_id: fakeDatabaseID },
+      properties: {
+        Name: { title: [{ text: { content: 'Child' } }] },
+        Parent: { relation: [{ id: 'parent-page' }] },
+      },
+    });
+    expect(loadCollectionPages()).toStrictEqual({
+      [parent.id]: {
+        databaseID: fakeDatabaseID,
+        name: 'Parent',
+        pageID: 'parent-page',
+      },
+      [child.id]: {
+        databaseID: fakeDatabaseID,
+        name: 'Child',
+        pageID: 'child-page',
+        parentPageID: 'parent-page',
+      },
+    });
+  });
+
+  it('updates existing pages instead of creating them', async () => {
+    const { collectionsDatabase, notion } = setup();
+    saveCollectionPage(parent.id, { pageID: 'parent-page' });
+    saveCollectionPage(child.id, { pageID: 'child-page' });
+    notion.pages.update.mockImplementation(({ page_id }) =>
+      Promise.resolve(createUpdateResponse(page_id)),
+    );
+
+    await collectionsDatabase.updateCollectionPages([child]);
+
+    expect(notion.pages.create).not.toHaveBeenCalled();
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: 'child-page',
+      properties: {
+        Name: { title: [{ text: { content: 'Child' } }] },
+        Parent: { relation: [{ id: 'parent-page' }] },
+      },
+    });
+  });
+
+  it('does not update pages whose name and parent have not changed', async () => {
+    const { collectionsDatabase, notion } = setup();
+    saveCollectionPage(parent.id, {
+      databaseID: fakeDatabaseID,
+      name: 'Parent',
+      pageID: 'parent-page',
+    });
+    saveCollectionPage(child.id, {
+      databaseID: fakeDatabaseID,
+      name: 'Old Child',
+      pageID: 'child-page',
+      parentPageID: 'parent-page',
+    });
+    notion.pages.update.mockImplementation(({ page_id }) =>
+      Promise.resolve(createUpdateResponse(page_id)),
+    );
+
+    await collectionsDatabase.updateCollectionPages([child]);
+    await new CollectionsDatabase(notion, fakeDatabaseID).updateCollectionPages(
+      [child],
+    );
+
+    expect(notion.pages.update).toHaveBeenCalledOnce();
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: 'child-page',
+      properties: {
+        Name: { title: [{ text: { content: 'Child' } }] },
+        Parent: { relation: [{ id: 'parent-page' }] },
+      },
+    });
+  });
+
+  it('replaces pages that belong to a different database', async () => {
+    const { collectionsDatabase, notion } = setup();
+    saveCollectionPage(parent.id, { pageID: 'old-parent-page' });
+    notion.pages.update.mockResolvedValue(
+      createUpdateResponse('old-parent-page', 'otherDatabaseID'),
+    );
+
+    const pageIDs = await collectionsDatabase.getCollectionPageIDs(
+      [child],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['child-page']);
+    expect(loadCollectionPages()[parent.id]?.pageID).toBe('parent-page');
+  });
+
+  it('links only to existing pages when read-only', async () => {
+    const { collectionsDatabase, notion } = setup({ readOnly: true });
+    saveCollectionPage(child.id, { pageID: 'child-page' });
+
+    const pageIDs = await collectionsDatabase.getCollectionPageIDs(
+      [child],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['child-page']);
+    expect(notion.pages.create).not.toHaveBeenCalled();
+    expect(notion.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('archives and forgets pages of deleted collections', async () => {
+    const { collectionsDatabase, notion } = setup();
+    saveCollectionPage(child.id, { pageID: 'child-page' });
+
+    await collectionsDatabase.archiveCollectionPages([child.id, other.id]);
+
+    expect(notion.pages.update).toHaveBeenCalledOnce();
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: 'child-page',
+      archived: true,
+    });
+    expect(loadCollectionPages()).toStrictEqual({});
+  });
+});
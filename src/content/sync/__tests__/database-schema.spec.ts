@@ -0,0 +1,151 @@
+import { type Client } from '@notionhq/client';
+import { describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import { zoteroMock } from '../../../../test/utils';
+import {
+  buildItemFieldSource,
+  ComputedValue,
+} from '../../prefs/property-mappings';
+import {
+  addDatabaseProperties,
+  buildDatabaseSchema,
+  createDatabase,
+  getMissingProperties,
+} from '../database-schema';
+import type { DatabaseProperties } from '../notion-types';
+
+const fakeDatabaseID = 'fake-database-id';
+
+describe('buildDatabaseSchema', () => {
+  it('returns config of first mapping to each property', () => {
+    const schema = buildDatabaseSchema([
+      { propertyName: 'Date Added', source: ComputedValue.dateAdded },
+      { propertyName: 'Tags', source: ComputedValue.tags },
+      { propertyName: 'Volume', source: buildItemFieldSource('volume') },
+      { propertyName: 'Year', source: ComputedValue.year },
+      { propertyName: 'Year', source: ComputedValue.title },
+    ]);
+
+    expect(schema).toStrictEqual({
+      'Date Added': { date: {} },
+      Tags: { multi_select: { options: [] } },
+      Volume: { rich_text: {} },
+      Year: { number: { format: 'number' } },
+    });
+  });
+
+  it('returns item types as options of item type property', () => {
+    zoteroMock.ItemTypes.getTypes.mockReturnValue([
+      { id: 1, name: 'note' },
+      { id: 2, name: 'journalArticle' },
+      { id: 3, name: 'book' },
+    ]);
+    zoteroMock.ItemTypes.getLocalizedString
+      .calledWith(2)
+      .mockReturnValue('Journal Article');
+    zoteroMock.ItemTypes.getLocalizedString
+      .calledWith(3)
+      .mockReturnValue('Book');
+
+    const schema = buildDatabaseSchema([
+      { propertyName: 'Item Type', source: ComputedValue.itemType },
+    ]);
+
+    expect(schema).toStrictEqual({
+      'Item Type': {
+        select: { options: [{ name: 'Book' }, { name: 'Journal Article' }] },
+      },
+    });
+  });
+});
+
+describe('getMissingProperties', () => {
+  it('returns only properties that do not exist in database', () => {
+    const databaseProperties = {
+      Abstract: { id: 'id1', name: 'Abstract', type: 'rich_text' },
+      Year: { id: 'id2', name: 'Year', type: 'checkbox' },
+    } as unknown as DatabaseProperties;
+
+    const missingProperties = getMissingProperties(
+      [
+        { propertyName: 'Abstract', source: ComputedValue.abstract },
+        { propertyName: 'URL', source: ComputedValue.url },
+        { propertyName: 'Year', source: ComputedValue.year },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(missingProperties).toStrictEqual({ URL: { url: {} } });
+  });
+});
+
+describe('addDatabaseProperties', () => {
+  it('updates database with given properties', async () => {
+    const notion = mockDeep<Client>();
+    const schema = { URL: { url: {} } };
+
+    await addDatabaseProperties(notion, fakeDatabaseID, schema);
+
+    expect(notion.databases.update).toHaveBeenCalledWith({
+      database_id: fakeDatabaseID,
+      properties: schema,
+    });
+  });
+});
+
+describe('createDatabase', () => {
+  it('creates database in page with title and mapped properties', async () => {
+    const notion = mockDeep<Client>();
+    notion.databases.create.mockResolvedValue({
+      object: 'database',
+      id: fakeDatabaseID,
+      properties: {},
+    });
+
+    const databaseID = await createDatabase(notion, 'fake-page-id', 'Zotero', [
+      { propertyName: 'Name', source: ComputedValue.title },
+      { propertyName: 'URL', source: ComputedValue.url },
+    ]);
+
+    expect(databaseID).toBe(fakeDatabaseID);
+    expect(notion.databases.create).toHaveBeenCalledWith({
+      parent: { type: 'page_id', page_id: 'fake-page-id' },
+      title: [{ text: { content: 'Zotero' } }],
+      properties: {
+        Name: { title: {} },
+        URL: { url: {} },
+      },
+    });
+  });
+
+  it('adds relation properties to created database', async () => {
+    const notion = mockDeep<Client>();
+    notion.databases.create.mockResolvedValue({
+      object: 'database',
+      id: fakeDatabaseID,
+      properties: {},
+    });
+
+    await createDatabase(notion, 'fake-page-id', 'Zotero', [
+      { propertyName: 'Related', source: ComputedValue.relatedItems },
+    ]);
+
+    expect(notion.databases.create).toHaveBeenCalledWith(
+      expect.objectContaining({ properties: { Name: { title: {} } } }),
+    );
+    expect(notion.databases.update).toHaveBeenCalledWith({
+      database_id: fakeDatabaseID,
+      properties: {
+        Related: {
+          relation: {
+            database_id: fakeDatabaseID,
+            type: 'single_property',
+            single_property: {},
+          },
+        },
+      },
+    });
+  });
+});
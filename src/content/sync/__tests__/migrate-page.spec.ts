@@ -0,0 +1,324 @@
+import { type Client } from '@notionhq/client';
+import type {
+  AppendBlockChildrenResponse,
+  BlockObjectResponse,
+  CreatePageResponse,
+  ListBlockChildrenResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import { describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import { migratePage } from '../migrate-page';
+import type { DatabaseRequestProperties } from '../notion-types';
+
+const fakeDatabaseID = 'fake-database-id';
+const fakeNewPageID = 'new-page-id';
+const fakeOldPageID = 'old-page-id';
+const fakeProperties: DatabaseRequestProperties = { title: { title: [] } };
+const fakeSyncedAt = new Date();
+
+function createBlock(
+  id: string,
+  type: string,
+  content: Record<string, unknown> = {},
+  hasChildren = false,
+): BlockObjectResponse {
+  return {
+    has_children: hasChildren,
+    id,
+    object: 'block',
+    type,
+    [type]: content,
+  } as unknown as BlockObjectResponse;
+}
+
+function setup(childBlocks: Record<string, BlockObjectResponse[]>) {
+  const notion = mockDeep<Client>({
+    fallbackMockImplementation: () => {
+      throw new Error('NOT MOCKED');
+    },
+  });
+
+  notion.pages.create.mockResolvedValue({
+    id: fakeNewPageID,
+    object: 'page',
+  } as CreatePageResponse);
+  notion.pages.update.mockResolvedValue({ id: fakeOldPageID, object: 'page' });
+  notion.blocks.children.list.mockImplementation(
+    ({ block_id }) =>
+      Promise.resolve({
+        next_cursor: null,
+        results: childBlocks[block_id] ?? [],
+      }) as Promise<ListBlockChildrenResponse>,
+  );
+  notion.blocks.children.append.mockImplementation(
+    ({ block_id, children }) =>
+      Promise.resolve({
+        results: children.map((_, index) => ({
+          id: `copy-${index}-of-${block_id}`,
+        })),
+      }) as Promise<AppendBlockChildrenResponse>,
+  );
+
+  return { notion };
+}
+
+describe('migratePage', () => {
+  it('creates page in new database and archives old page', async () => {
+    const { notion } = setup({});
+
+    const { response } = await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {},
+    );
+
+    expect(response.id).toBe(fakeNewPageID);
+    expect(notion.pages.create).toHaveBeenCalledWith({
+      parent: { database_id: fakeDatabaseID },
+      properties: fakeProperties,
+    });
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakeOldPageID,
+      archived: true,
+    });
+  });
+
+  it('copies blocks and maps synced notes to copied blocks', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [
+        createBlock('paragraph-id', 'paragraph', { rich_text: [] }),
+        createBlock('container-id', 'heading_1', { rich_text: [] }, true),
+      ],
+      'container-id': [createBlock('note-id', 'toggle', { rich_text: [] })],
+    });
+
+    const { syncedNotes } = await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {
+        containerBlockID: 'container-id',
+        notes: { 'note-key': { blockID: 'note-id', syncedAt: fakeSyncedAt } },
+      },
+    );
+
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeNewPageID,
+      children: [
+        { type: 'paragraph', paragraph: { rich_text: [] } },
+        { type: 'heading_1', heading_1: { rich_text: [] } },
+      ],
+    });
+    expect(syncedNotes).toStrictEqual({
+      containerBlockID: `copy-1-of-${fakeNewPageID}`,
+      notes: {
+        'note-key': {
+          blockID: `copy-0-of-copy-1-of-${fakeNewPageID}`,
+          syncedAt: fakeSyncedAt,
+        },
+      },
+    });
+  });
+
+  it('skips blocks that cannot be copied and keeps old page', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [
+        createBlock('child-page-id', 'child_page', { title: 'Child' }),
+        createBlock('image-id', 'image', { type: 'file' }),
+        createBlock('divider-id', 'divider'),
+      ],
+    });
+
+    await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {},
+    );
+
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeNewPageID,
+      children: [{ type: 'divider', divider: {} }],
+    });
+    expect(notion.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps old page when nested block cannot be copied', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [
+        createBlock('toggle-id', 'toggle', { rich_text: [] }, true),
+      ],
+      'toggle-id': [createBlock('pdf-id', 'pdf', { type: 'file' })],
+    });
+
+    await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {},
+    );
+
+    expect(notion.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('lists children of blocks created along with their children once', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [createBlock('column-list-id', 'column_list', {}, true)],
+      'column-list-id': [createBlock('column-id', 'column', {}, true)],
+      'column-id': [
+        createBlock('image-id', 'image', { type: 'file' }),
+        createBlock('divider-id', 'divider'),
+      ],
+      [`copy-0-of-${fakeNewPageID}`]: [
+        createBlock('copied-column-id', 'column', {}, true),
+      ],
+    });
+
+    await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {},
+    );
+
+    const listedBlockIDs = notion.blocks.children.list.mock.calls.map(
+      ([{ block_id }]) => block_id,
+    );
+    expect(listedBlockIDs.filter((id) => id === 'column-list-id')).toHaveLength(
+      1,
+    );
+    expect(listedBlockIDs.filter((id) => id === 'column-id')).toHaveLength(1);
+    expect(notion.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('archives new page and rethrows when copying fails', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [createBlock('divider-id', 'divider')],
+    });
+    const error = new Error('Failed to append blocks');
+    notion.blocks.children.append.mockRejectedValue(error);
+
+    await expect(
+      migratePage(notion, fakeOldPageID, fakeDatabaseID, fakeProperties, {}),
+    ).rejects.toBe(error);
+
+    expect(notion.pages.update).toHaveBeenCalledTimes(1);
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakeNewPageID,
+      archived: true,
+    });
+  });
+
+  it('maps synced blocks and annotations of notes to copied blocks', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [
+        createBlock('container-id', 'heading_1', { rich_text: [] }, true),
+      ],
+      'container-id': [
+        createBlock('note-id', 'toggle', { rich_text: [] }, true),
+      ],
+      'note-id': [createBlock('child-id', 'toggle', { rich_text: [] }, true)],
+      'child-id': [createBlock('grandchild-id', 'divider')],
+    });
+    const copiedNoteID = `copy-0-of-copy-0-of-${fakeNewPageID}`;
+    const copiedChildID = `copy-0-of-${copiedNoteID}`;
+
+    const { syncedNotes } = await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {
+        containerBlockID: 'container-id',
+        notes: {
+          'note-key': {
+            annotations: { ABCD1234: { divider: 'grandchild-id' } },
+            blockID: 'note-id',
+            blocks: [
+              {
+                id: 'child-id',
+                type: 'toggle',
+                fingerprint: 'child',
+                children: [
+                  { id: 'grandchild-id', type: 'divider', fingerprint: 'gc' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    );
+
+    expect(syncedNotes.notes?.['note-key']?.annotations).toStrictEqual({
+      ABCD1234: { divider: `copy-0-of-${copiedChildID}` },
+    });
+    expect(syncedNotes.notes?.['note-key']?.blocks).toStrictEqual([
+      {
+        id: copiedChildID,
+        type: 'toggle',
+        fingerprint: 'child',
+        children: [
+          {
+            id: `copy-0-of-${copiedChildID}`,
+            type: 'divider',
+            fingerprint: 'gc',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('clears synced blocks and annotations of notes when a block was not copied', async () => {
+    const { notion } = setup({
+      [fakeOldPageID]: [
+        createBlock('container-id', 'heading_1', { rich_text: [] }, true),
+      ],
+      'container-id': [
+        createBlock('note-id', 'toggle', { rich_text: [] }, true),
+      ],
+      'note-id': [createBlock('image-id', 'image', { type: 'file' })],
+    });
+
+    const { syncedNotes } = await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      {
+        containerBlockID: 'container-id',
+        notes: {
+          'note-key': {
+            annotations: { ABCD1234: { callout: 'image-id' } },
+            blockID: 'note-id',
+            blocks: [{ id: 'image-id', type: 'image', fingerprint: 'image' }],
+          },
+        },
+      },
+    );
+
+    expect(syncedNotes.notes).toStrictEqual({
+      'note-key': { blockID: `copy-0-of-copy-0-of-${fakeNewPageID}` },
+    });
+  });
+
+  it('clears synced notes when container block was not copied', async () => {
+    const { notion } = setup({});
+
+    const { syncedNotes } = await migratePage(
+      notion,
+      fakeOldPageID,
+      fakeDatabaseID,
+      fakeProperties,
+      { containerBlockID: 'container-id' },
+    );
+
+    expect(syncedNotes).toStrictEqual({});
+  });
+});
@@ -0,0 +1,138 @@
+import type {
+  SupportedFetch,
+  SupportedResponse,
+} from '@notionhq/client/build/src/fetch-types';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  createNotionFetch,
+  isIdempotentRequest,
+  type RetryInfo,
+} from '../notion-fetch';
+
+const fakeURL = 'https://api.notion.com/v1/pages/fake-page-id';
+
+function fakeResponse(
+  status: number,
+  headers: Record<string, string> = {},
+): SupportedResponse {
+  return {
+    headers: new Headers(headers),
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve('{}'),
+  };
+}
+
+function setup(...responses: SupportedResponse[]) {
+  let time = 0;
+  const fetch = vi.fn<SupportedFetch>();
+  responses.forEach((response) => fetch.mockResolvedValueOnce(response));
+  const onRetry = vi.fn<(info: RetryInfo) => void>();
+  const sleep = vi.fn((ms: number) => {
+    time += ms;
+    return Promise.resolve();
+  });
+  const notionFetch = createNotionFetch(fetch, {
+    maxRetries: 3,
+    minRequestIntervalMs: 100,
+    now: () => time,
+    onRetry,
+    sleep,
+  });
+  return { fetch, notionFetch, onRetry, sleep };
+}
+
+describe('createNotionFetch', () => {
+  it('returns successful response without retrying', async () => {
+    const response = fakeResponse(200);
+    const { fetch, notionFetch, sleep } = setup(response);
+
+    await expect(notionFetch(fakeURL)).resolves.toBe(response);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('spaces out consecutive requests', async () => {
+    const { notionFetch, sleep } = setup(fakeResponse(200), fakeResponse(200));
+
+    await Promise.all([notionFetch(fakeURL), notionFetch(fakeURL)]);
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep).toHaveBeenCalledWith(100);
+  });
+
+  it('retries rate limited request after `Retry-After` delay', async () => {
+    const response = fakeResponse(200);
+    const { fetch, notionFetch, onRetry, sleep } = setup(
+      fakeResponse(429, { 'Retry-After': '7' }),
+      response,
+    );
+
+    await expect(
+      notionFetch(fakeURL, { method: 'POST', body: '{}' }),
+    ).resolves.toBe(response);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(7000);
+    expect(onRetry).toHaveBeenCalledWith({
+      attempt: 1,
+      delayMs: 7000,
+      maxRetries: 3,
+      status: 429,
+    });
+  });
+
+  it('retries idempotent request with exponential backoff', async () => {
+    const response = fakeResponse(200);
+    const { fetch, notionFetch, onRetry } = setup(
+      fakeResponse(502),
+      fakeResponse(503),
+      response,
+    );
+
+    await expect(notionFetch(fakeURL, { method: 'PATCH' })).resolves.toBe(
+      response,
+    );
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([{ delayMs }]) => delayMs)).toStrictEqual([
+      1000, 2000,
+    ]);
+  });
+
+  it('does not retry non-idempotent request upon server error', async () => {
+    const response = fakeResponse(502);
+    const { fetch, notionFetch } = setup(response);
+
+    await expect(
+      notionFetch('https://api.notion.com/v1/pages', { method: 'POST' }),
+    ).resolves.toBe(response);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns last response when retries are exhausted', async () => {
+    const response = fakeResponse(503);
+    const { fetch, notionFetch } = setup(
+      fakeResponse(503),
+      fakeResponse(503),
+      fakeResponse(503),
+      response,
+    );
+
+    await expect(notionFetch(fakeURL)).resolves.toBe(response);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('isIdempotentRequest', () => {
+  it.each([
+    ['GET', 'https://api.notion.com/v1/pages/abc', true],
+    ['DELETE', 'https://api.notion.com/v1/blocks/abc', true],
+    ['PATCH', 'https://api.notion.com/v1/pages/abc', true],
+    ['PATCH', 'https://api.notion.com/v1/blocks/abc/children', false],
+    ['POST', 'https://api.notion.com/v1/databases/abc/query', true],
+    ['POST', 'https://api.notion.com/v1/search', true],
+    ['POST', 'https://api.notion.com/v1/pages', false],
+  ])('returns expected result for %s %s', (method, url, expected) => {
+    expect(isIdempotentRequest(url, method)).toBe(expected);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderPageTitleTemplate } from '../page-title-template';
+
+const values: Record<string, string | undefined> = {
+  firstCreator: 'Fakerson',
+  shortTitle: '',
+  title: 'Faking It: How To Write A Fake Paper',
+  year: '2023',
+};
+
+function getValue(name: string) {
+  return values[name];
+}
+
+describe('renderPageTitleTemplate', () => {
+  it('replaces placeholders with values', async () => {
+    const result = await renderPageTitleTemplate(
+      '{firstCreator} ({year})',
+      getValue,
+    );
+
+    expect(result).toBe('Fakerson (2023)');
+  });
+
+  it('uses first non-empty value of fallbacks', async () => {
+    const result = await renderPageTitleTemplate(
+      '{shortTitle|title}',
+      getValue,
+    );
+
+    expect(result).toBe(values.title);
+  });
+
+  it('uses quoted text as fallback', async () => {
+    const result = await renderPageTitleTemplate(
+      '{editor|"Anonymous: Unknown"} – {year}',
+      getValue,
+    );
+
+    expect(result).toBe('Anonymous: Unknown – 2023');
+  });
+
+  it('applies transforms in order', async () => {
+    const result = await renderPageTitleTemplate(
+      '{title:upper:10} {firstCreator:lower}',
+      getValue,
+    );
+
+    expect(result).toBe('FAKING IT… fakerson');
+  });
+
+  it('ignores unknown transforms', async () => {
+    const result = await renderPageTitleTemplate('{year:unknown}', getValue);
+
+    expect(result).toBe('2023');
+  });
+
+  it('supports asynchronous values', async () => {
+    const result = await renderPageTitleTemplate('{citation}', () =>
+      Promise.resolve('(Fakerson, 2023)'),
+    );
+
+    expect(result).toBe('(Fakerson, 2023)');
+  });
+
+  it('trims surrounding whitespace when placeholders are empty', async () => {
+    const result = await renderPageTitleTemplate(
+      '{shortTitle} {year}',
+      getValue,
+    );
+
+    expect(result).toBe('2023');
+  });
+});
@@ -0,0 +1,203 @@
+import { type Client } from '@notionhq/client';
+import type {
+  GetDatabaseResponse,
+  PageObjectResponse,
+  QueryDatabaseResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import { describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import {
+  normalizePersonName,
+  parseORCIDs,
+  PeopleDatabase,
+} from '../people-database';
+
+const fakeDatabaseID = 'fakeDatabaseID';
+const fakeORCID = '0000-0002-1825-0097';
+
+function createPage(id: string, name: string, orcid = ''): PageObjectResponse {
+  return {
+    id,
+    object: 'page',
+    properties: {
+      Name: { type: 'title', title: [{ plain_text: name }] },
+      ORCID: { type: 'rich_text', rich_text: [{ plain_text: orcid }] },
+    },
+    url: `https://www.notion.so/${id}`,
+  } as unknown as PageObjectResponse;
+}
+
+function createQueryResponse(
+  results: PageObjectResponse[],
+): QueryDatabaseResponse {
+  return {
+    has_more: false,
+    next_cursor: null,
+    object: 'list',
+    results,
+  } as unknown as QueryDatabaseResponse;
+}
+
+function setup({ withORCID = true }: { withORCID?: boolean } = {}) {
+  const notion = mockDeep<Client>();
+  notion.databases.retrieve.mockResolvedValue({
+    id: fakeDatabaseID,
+    object: 'database',
+    properties: {
+      Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+      ...(withORCID && {
+        ORCID: { id: 'orcid', name: 'ORCID', type: 'rich_text', rich_text: {} },
+      }),
+    },
+    title: [],
+  } as unknown as GetDatabaseResponse);
+  notion.databases.query.mockResolvedValue(createQueryResponse([]));
+  notion.pages.create.mockResolvedValue({ id: 'new-page', object: 'page' });
+
+  const peopleDatabase = new PeopleDatabase(notion, fakeDatabaseID);
+
+  return { notion, peopleDatabase };
+}
+
+describe('normalizePersonName', () => {
+  it('matches names regardless of order, case, and diacritics', () => {
+    expect(normalizePersonName('Curie, Marie')).toBe('marie curie');
+    expect(normalizePersonName('MARIE  CURIE')).toBe('marie curie');
+    expect(normalizePersonName('Gödel, K.')).toBe('k godel');
+  });
+});
+
+describe('parseORCIDs', () => {
+  it('returns ORCID iDs by normalized name', () => {
+    const extra = [
+      'tex.note: unrelated',
+      `ORCID: Curie, Marie ${fakeORCID}`,
+      'orcid: Kurt Gödel: https://orcid.org/0000-0001-2345-678x',
+    ].join('\n');
+
+    expect(parseORCIDs(extra)).toStrictEqual(
+      new Map([
+        ['marie curie', fakeORCID],
+        ['kurt godel', '0000-0001-2345-678X'],
+      ]),
+    );
+  });
+});
+
+describe('PeopleDatabase', () => {
+  it('returns existing page matching ORCID iD', async () => {
+    const { notion, peopleDatabase } = setup();
+    notion.databases.query.mockResolvedValueOnce(
+      createQueryResponse([createPage('page-1', 'M. Curie', fakeORCID)]),
+    );
+
+    const pageIDs = await peopleDatabase.getPersonPageIDs(
+      [{ firstName: 'Marie', lastName: 'Curie', orcid: fakeORCID }],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['page-1']);
+    expect(notion.databases.query).toHaveBeenCalledWith({
+      database_id: fakeDatabaseID,
+      filter: { property: 'ORCID', rich_text: { contains: fakeORCID } },
+    });
+    expect(notion.pages.create).not.toHaveBeenCalled();
+  });
+
+  it('returns existing page matching normalized name', async () => {
+    const { notion, peopleDatabase } = setup({ withORCID: false });
+    notion.databases.query.mockResolvedValue(
+      createQueryResponse([
+        createPage('page-1', 'Pierre Curie'),
+        createPage('page-2', 'marie curie'),
+      ]),
+    );
+
+    const pageIDs = await peopleDatabase.getPersonPageIDs(
+      [{ firstName: 'Marie', lastName: 'Curie' }],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['page-2']);
+    expect(notion.databases.query).toHaveBeenCalledWith({
+      database_id: fakeDatabaseID,
+      filter: { property: 'Name', title: { contains: 'Curie' } },
+    });
+  });
+
+  it('adds ORCID iD to page matched by name', async () => {
+    const { notion, peopleDatabase } = setup();
+    notion.databases.query
+      .mockResolvedValueOnce(createQueryResponse([]))
+      .mockResolvedValueOnce(
+        createQueryResponse([createPage('page-1', 'Marie Curie')]),
+      );
+
+    await peopleDatabase.getPersonPageIDs(
+      [{ firstName: 'Marie', lastName: 'Curie', orcid: fakeORCID }],
+      100,
+    );
+
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: 'page-1',
+      properties: { ORCID: { rich_text: [{ text: { content: fakeORCID } }] } },
+    });
+  });
+
+  it('creates one page for each new person', async () => {
+    const { notion, peopleDatabase } = setup();
+
+    const pageIDs = await peopleDatabase.getPersonPageIDs(
+      [
+        { firstName: 'Marie', lastName: 'Curie', orcid: fakeORCID },
+        { firstName: 'Marie', lastName: 'Curie', orcid: fakeORCID },
+      ],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual(['new-page']);
+    expect(notion.pages.create).toHaveBeenCalledOnce();
+    expect(notion.pages.create).toHaveBeenCalledWith({
+      parent: { database_id: fakeDatabaseID },
+      properties: {
+        Name: { title: [{ text: { content: 'Marie Curie' } }] },
+        ORCID: { rich_text: [{ text: { content: fakeORCID } }] },
+      },
+    });
+  });
+
+  it('does not create pages when creating missing pages is disabled', async () => {
+    const { notion } = setup();
+    const peopleDatabase = new PeopleDatabase(notion, fakeDatabaseID, {
+      createMissing: false,
+    });
+
+    const pageIDs = await peopleDatabase.getPersonPageIDs(
+      [{ firstName: 'Marie', lastName: 'Curie' }],
+      100,
+    );
+
+    expect(pageIDs).toStrictEqual([]);
+    expect(notion.pages.create).not.toHaveBeenCalled();
+  });
+
+  it('returns at most the given number of pages', async () => {
+    const { notion, peopleDatabase } = setup({ withORCID: false });
+    notion.pages.create
+      .mockResolvedValueOnce({ id: 'page-1', object: 'page' })
+      .mockResolvedValueOnce({ id: 'page-2', object: 'page' });
+
+    const pageIDs = await peopleDatabase.getPersonPageIDs(
+      [
+        { firstName: 'Marie', lastName: 'Curie' },
+        { firstName: 'Pierre', lastName: 'Curie' },
+        { firstName: 'Irène', lastName: 'Joliot-Curie' },
+      ],
+      2,
+    );
+
+    expect(pageIDs).toStrictEqual(['page-1', 'page-2']);
+    expect(notion.pages.create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -2,16 +2,28 @@ import { describe, expect, it, vi } from 'vitest';
 import { any, mock } from 'vitest-mock-extended';
 
 import { createZoteroCollectionMock, zoteroMock } from '../../../../test/utils';
+import { getNotionPageID } from '../../data/item-data';
+import { getNotionDatabaseIDForItem } from '../../prefs/collection-sync-config';
 import { PageTitleFormat } from '../../prefs/notero-pref';
-import { getItemURL, keyValue } from '../../utils';
+import {
+  buildItemFieldSource,
+  ComputedValue,
+  DEFAULT_PROPERTY_MAPPINGS,
+} from '../../prefs/property-mappings';
+import { getItemURL, getRelatedItems, keyValue } from '../../utils';
+import { LIMITS } from '../notion-limits';
 import type {
   DatabaseProperties,
   DatabasePropertyConfig,
   DatabaseRequestProperties,
 } from '../notion-types';
+import type { PeopleDatabase } from '../people-database';
 import { buildProperties } from '../property-builder';
 
+vi.mock('../../data/item-data');
+vi.mock('../../prefs/collection-sync-config');
 vi.mock('../../utils/get-item-url');
+vi.mock('../../utils/get-related-items');
 
 const fakeCollectionName = 'Fake Collection';
 const fakeItemType = 'Journal Article';
@@ -28,9 +40,11 @@ const fakePublication = 'Fake Publication';
 const fakeShortTitle = 'Faking It';
 const fakeTitle = 'Faking It: How To Write A Fake Paper';
 const fakeURI = 'https://zotero.org/users/local/abcdef/items/abcdef';
+const fakeVolume = '42';
 const fakeYear = 2023;
 const fakeFullCitation = `${fakeLastName1}. (${fakeYear}). ${fakeTitle}. ${fakePublication}.`;
 const fakeInTextCitation = `(${fakeLastName1}, ${fakeYear})`;
+const fakeORCID = '0000-0002-1825-0097';
 
 const pageTitleTestCases: {
   description: string;
@@ -91,13 +105,22 @@ const propertyConfigs = {
 
 function propertyConfig<N extends string>(
   name: N,
-  type: 'date' | 'multi_select' | 'number' | 'rich_text' | 'select' | 'url',
+  type:
+    | 'checkbox'
+    | 'date'
+    | 'multi_select'
+    | 'number'
+    | 'rich_text'
+    | 'select'
+    | 'url',
 ): Record<N, DatabasePropertyConfig<typeof type>> {
   type SelectOptions = DatabasePropertyConfig<'select'>['select']['options'];
 
   const idNameDescription = { id: 'id', name, description: null };
 
   switch (type) {
+    case 'checkbox':
+      return keyValue(name, { ...idNameDescription, type, [type]: {} });
     case 'date':
       return keyValue(name, { ...idNameDescription, type, [type]: {} });
     case 'multi_select':
@@ -160,7 +183,9 @@ function setup() {
   item.getField.calledWith('citationKey').mockReturnValue(fakeCitationKey);
   item.getField.calledWith('date').mockReturnValue(fakeDate);
   item.getField.calledWith('firstCreator').mockReturnValue(fakeLastName1);
+  item.getField.calledWith('publicationTitle').mockReturnValue(fakePublication);
   item.getField.calledWith('shortTitle').mockReturnValue(fakeShortTitle);
+  item.getField.calledWith('volume').mockReturnValue(fakeVolume);
   item.getField.calledWith('year').mockReturnValue(String(fakeYear));
   item.getTags.mockReturnValue([{ tag: fakeTag, type: 1 }]);
 
@@ -180,6 +205,8 @@ describe('buildProperties', () => {
           databaseProperties: {},
           item,
           pageTitleFormat: format,
+          pageTitleTemplate: '',
+          propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
         });
 
         expect(result).toStrictEqual({
@@ -190,6 +217,37 @@ describe('buildProperties', () => {
       });
     });
 
+    it('returns rendered template for `itemTemplate`', async () => {
+      const { item } = setup();
+      item.getField
+        .calledWith('firstCreator', false, true)
+        .mockReturnValue(fakeLastName1);
+      item.getField
+        .calledWith('year', false, true)
+        .mockReturnValue(String(fakeYear));
+
+      const result = await buildProperties({
+        citationFormat: 'style',
+        databaseProperties: {},
+        item,
+        pageTitleFormat: PageTitleFormat.itemTemplate,
+        pageTitleTemplate: '{firstCreator} ({year}) – {citationKey:upper}',
+        propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
+      });
+
+      expect(result).toStrictEqual({
+        title: {
+          title: [
+            {
+              text: {
+                content: `${fakeLastName1} (${fakeYear}) – ${fakeCitationKey.toUpperCase()}`,
+              },
+            },
+          ],
+        },
+      });
+    });
+
     it('returns item display title for `itemCitationKey` when citation key is unavailable', async () => {
       const { item } = setup();
 
@@ -200,6 +258,8 @@ describe('buildProperties', () => {
         databaseProperties: {},
         item,
         pageTitleFormat: PageTitleFormat.itemCitationKey,
+        pageTitleTemplate: '',
+        propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
       });
 
       expect(result).toStrictEqual({
@@ -221,6 +281,8 @@ describe('buildProperties', () => {
       },
       item,
       pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
     });
 
     const expected: DatabaseRequestProperties = {
@@ -246,36 +308,283 @@ describe('buildProperties', () => {
     expect(result).toStrictEqual(expected);
   });
 
-  it('exludes properties that do not have corect type', async () => {
+  it('excludes properties that cannot hold their value type', async () => {
     const { item } = setup();
 
     const result = await buildProperties({
       citationFormat: 'style',
       databaseProperties: {
-        Authors: {
-          ...propertyConfigs.Authors,
-          type: 'checkbox',
-          checkbox: {},
-        },
-        Year: propertyConfigs.Year,
+        Authors: propertyConfigs.Authors,
+        ...propertyConfig('Year', 'checkbox'),
+      },
+      item,
+      pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
+    });
+
+    const expected: DatabaseRequestProperties = {
+      title: {
+        title: [{ text: { content: fakeTitle } }],
+      },
+      Authors: {
+        rich_text: [
+          {
+            text: {
+              content: `${fakeLastName1}, ${fakeFirstName1}\n${fakeLastName2}, ${fakeFirstName2}`,
+            },
+          },
+        ],
+        type: 'rich_text',
+      },
+    };
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('converts values to the property types of the database', async () => {
+    const { item } = setup();
+    zoteroMock.Date.strToDate
+      .calledWith(fakeDate)
+      .mockReturnValue({ year: '2023', month: 9, day: '01' });
+
+    const result = await buildProperties({
+      citationFormat: 'style',
+      databaseProperties: {
+        ...propertyConfig('Authors', 'multi_select'),
+        ...propertyConfig('Date', 'date'),
+        ...propertyConfig('Publication', 'select'),
+        ...propertyConfig('Tags', 'rich_text'),
+        ...propertyConfig('Year', 'rich_text'),
       },
       item,
       pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
     });
 
     const expected: DatabaseRequestProperties = {
       title: {
         title: [{ text: { content: fakeTitle } }],
       },
+      Authors: {
+        multi_select: [
+          { name: `${fakeLastName1}; ${fakeFirstName1}` },
+          { name: `${fakeLastName2}; ${fakeFirstName2}` },
+        ],
+        type: 'multi_select',
+      },
+      Date: {
+        date: { start: fakeDate },
+        type: 'date',
+      },
+      Publication: {
+        select: { name: fakePublication },
+        type: 'select',
+      },
+      Tags: {
+        rich_text: [{ text: { content: fakeTag } }],
+        type: 'rich_text',
+      },
       Year: {
+        rich_text: [{ text: { content: String(fakeYear) } }],
+        type: 'rich_text',
+      },
+    };
+
+    expect(result).toStrictEqual(expected);
+  });
+
+  it('returns properties with custom names from property mappings', async () => {
+    const { item } = setup();
+
+    const result = await buildProperties({
+      citationFormat: 'style',
+      databaseProperties: {
+        ...propertyConfig('Publication Year', 'number'),
+        ...propertyConfig('Volume', 'rich_text'),
+        Year: propertyConfigs.Year,
+      },
+      item,
+      pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: [
+        { propertyName: 'Publication Year', source: ComputedValue.year },
+        { propertyName: 'Volume', source: buildItemFieldSource('volume') },
+      ],
+    });
+
+    const expected: DatabaseRequestProperties = {
+      title: {
+        title: [{ text: { content: fakeTitle } }],
+      },
+      'Publication Year': {
         number: fakeYear,
         type: 'number',
       },
+      Volume: {
+        rich_text: [{ text: { content: fakeVolume } }],
+        type: 'rich_text',
+      },
     };
 
     expect(result).toStrictEqual(expected);
   });
 
+  it('uses only first mapping to each property', async () => {
+    const { item } = setup();
+
+    const result = await buildProperties({
+      citationFormat: 'style',
+      databaseProperties: {
+        ...propertyConfig('Volume', 'rich_text'),
+      },
+      item,
+      pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: [
+        { propertyName: 'Volume', source: buildItemFieldSource('volume') },
+        { propertyName: 'Volume', source: ComputedValue.shortTitle },
+      ],
+    });
+
+    expect(result).toStrictEqual(
+      expect.objectContaining({
+        Volume: {
+          rich_text: [{ text: { content: fakeVolume } }],
+          type: 'rich_text',
+        },
+      }),
+    );
+  });
+
+  it('returns relation to people database pages for creators', async () => {
+    const { item } = setup();
+    item.getField
+      .calledWith('extra')
+      .mockReturnValue(
+        `ORCID: ${fakeLastName1}, ${fakeFirstName1} ${fakeORCID}`,
+      );
+    const peopleDatabase = mock<PeopleDatabase>();
+    peopleDatabase.isRelationTarget.mockReturnValue(true);
+    peopleDatabase.getPersonPageIDs.mockResolvedValue(['person-1', 'person-2']);
+
+    const result = await buildProperties({
+      citationFormat: 'style',
+      databaseProperties: {
+        Authors: {
+          id: 'id',
+          name: 'Authors',
+          description: null,
+          type: 'relation',
+          relation: {
+            type: 'single_property',
+            single_property: {},
+            database_id: 'people-database-id',
+          },
+        },
+      },
+      item,
+      pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      peopleDatabase,
+      propertyMappings: [
+        { propertyName: 'Authors', source: ComputedValue.authors },
+      ],
+    });
+
+    expect(peopleDatabase.getPersonPageIDs).toHaveBeenCalledWith(
+      [
+        {
+          firstName: fakeFirstName1,
+          lastName: fakeLastName1,
+          orcid: fakeORCID,
+        },
+        { firstName: fakeFirstName2, lastName: fakeLastName2 },
+      ],
+      LIMITS.RELATION_RELATED_PAGES,
+    );
+    expect(result).toStrictEqual(
+      expect.objectContaining({
+        Authors: {
+          relation: [{ id: 'person-1' }, { id: 'person-2' }],
+          type: 'relation',
+        },
+      }),
+    );
+  });
+
+  describe('related items', () => {
+    function buildRelatedItemsProperties(item: Zotero.Item) {
+      return buildProperties({
+        citationFormat: 'style',
+        databaseProperties: {
+          Related: {
+            id: 'id',
+            name: 'Related',
+            description: null,
+            type: 'relation',
+            relation: {
+              type: 'single_property',
+              single_property: {},
+              database_id: 'database-id',
+            },
+          },
+        },
+        item,
+        pageTitleFormat: PageTitleFormat.itemTitle,
+        pageTitleTemplate: '',
+        propertyMappings: [
+          { propertyName: 'Related', source: ComputedValue.relatedItems },
+        ],
+      });
+    }
+
+    it('returns relation to pages of synced related items', async () => {
+      const { item } = setup();
+      const syncedItem = mock<Zotero.Item>();
+      const unsyncedItem = mock<Zotero.Item>();
+      vi.mocked(getRelatedItems).mockReturnValue([syncedItem, unsyncedItem]);
+      vi.mocked(getNotionDatabaseIDForItem).mockReturnValue('database-id');
+      vi.mocked(getNotionPageID).mockImplementation((relatedItem) =>
+        relatedItem === syncedItem ? 'related-page' : undefined,
+      );
+
+      const result = await buildRelatedItemsProperties(item);
+
+      expect(getRelatedItems).toHaveBeenCalledWith(item);
+      expect(result).toStrictEqual(
+        expect.objectContaining({
+          Related: { relation: [{ id: 'related-page' }], type: 'relation' },
+        }),
+      );
+    });
+
+    it('skips related items that sync to other databases', async () => {
+      const { item } = setup();
+      const sameDatabaseItem = mock<Zotero.Item>();
+      const otherDatabaseItem = mock<Zotero.Item>();
+      vi.mocked(getRelatedItems).mockReturnValue([
+        sameDatabaseItem,
+        otherDatabaseItem,
+      ]);
+      vi.mocked(getNotionDatabaseIDForItem).mockImplementation((relatedItem) =>
+        relatedItem === sameDatabaseItem ? 'database-id' : 'other-database',
+      );
+      vi.mocked(getNotionPageID).mockImplementation((relatedItem) =>
+        relatedItem === sameDatabaseItem ? 'same-page' : 'other-page',
+      );
+
+      const result = await buildRelatedItemsProperties(item);
+
+      expect(result).toStrictEqual(
+        expect.objectContaining({
+          Related: { relation: [{ id: 'same-page' }], type: 'relation' },
+        }),
+      );
+    });
+  });
+
   it('returns truncated value when collection name exceeds limit', async () => {
     const { collection, item } = setup();
 
@@ -293,6 +602,8 @@ describe('buildProperties', () => {
       },
       item,
       pageTitleFormat: PageTitleFormat.itemCitationKey,
+      pageTitleTemplate: '',
+      propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
     });
 
     expect(result).toStrictEqual(
@@ -313,6 +624,8 @@ describe('buildProperties', () => {
       databaseProperties: propertyConfigs,
       item,
       pageTitleFormat: PageTitleFormat.itemTitle,
+      pageTitleTemplate: '',
+      propertyMappings: DEFAULT_PROPERTY_MAPPINGS,
     });
 
     const expected: DatabaseRequestProperties = {
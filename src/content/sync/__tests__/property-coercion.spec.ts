@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { zoteroMock } from '../../../../test/utils';
+import {
+  coercePropertyValue,
+  isCompatiblePropertyType,
+} from '../property-coercion';
+
+describe('isCompatiblePropertyType', () => {
+  it('allows text to convert to any supported type', () => {
+    expect(isCompatiblePropertyType('rich_text', 'checkbox')).toBe(true);
+    expect(isCompatiblePropertyType('rich_text', 'date')).toBe(true);
+    expect(isCompatiblePropertyType('rich_text', 'people')).toBe(false);
+  });
+
+  it('does not allow numbers to convert to dates', () => {
+    expect(isCompatiblePropertyType('number', 'date')).toBe(false);
+  });
+});
+
+describe('coercePropertyValue', () => {
+  it('converts partial dates to first day of period', () => {
+    zoteroMock.Date.strToDate
+      .calledWith('May 2023')
+      .mockReturnValue({ year: 2023, month: 4 });
+
+    expect(coercePropertyValue('May 2023', 'date')).toStrictEqual({
+      type: 'date',
+      date: { start: '2023-05-01' },
+    });
+  });
+
+  it('converts year ranges to date ranges', () => {
+    zoteroMock.Date.strToDate
+      .calledWith('2020')
+      .mockReturnValue({ year: 2020 });
+    zoteroMock.Date.strToDate
+      .calledWith('2021')
+      .mockReturnValue({ year: 2021 });
+
+    expect(coercePropertyValue('2020-2021', 'date')).toStrictEqual({
+      type: 'date',
+      date: { start: '2020-01-01', end: '2021-01-01' },
+    });
+  });
+
+  it('uses year of range end for range start without year', () => {
+    zoteroMock.Date.strToDate.calledWith('May').mockReturnValue({ month: 4 });
+    zoteroMock.Date.strToDate
+      .calledWith('June 2021')
+      .mockReturnValue({ year: 2021, month: 5 });
+
+    expect(coercePropertyValue('May – June 2021', 'date')).toStrictEqual({
+      type: 'date',
+      date: { start: '2021-05-01', end: '2021-06-01' },
+    });
+  });
+
+  it('returns null date when text cannot be parsed', () => {
+    zoteroMock.Date.strToDate.calledWith('someday').mockReturnValue({});
+
+    expect(coercePropertyValue('someday', 'date')).toStrictEqual({
+      type: 'date',
+      date: null,
+    });
+  });
+
+  it('converts numeric text to numbers', () => {
+    expect(coercePropertyValue(' 42.5 ', 'number')).toStrictEqual({
+      type: 'number',
+      number: 42.5,
+    });
+    expect(coercePropertyValue('12-34', 'number')).toStrictEqual({
+      type: 'number',
+      number: null,
+    });
+  });
+
+  it('converts text lines to sanitized select options', () => {
+    expect(
+      coercePropertyValue('Faker, Chet\n\nFakey', 'multi_select'),
+    ).toStrictEqual({
+      type: 'multi_select',
+      multi_select: [{ name: 'Faker; Chet' }, { name: 'Fakey' }],
+    });
+    expect(coercePropertyValue('Faker, Chet\nFakey', 'select')).toStrictEqual({
+      type: 'select',
+      select: { name: 'Faker; Chet' },
+    });
+  });
+
+  it('converts text to checkbox', () => {
+    expect(coercePropertyValue('Yes', 'checkbox')).toStrictEqual({
+      type: 'checkbox',
+      checkbox: true,
+    });
+    expect(coercePropertyValue('', 'checkbox')).toStrictEqual({
+      type: 'checkbox',
+      checkbox: false,
+    });
+  });
+});
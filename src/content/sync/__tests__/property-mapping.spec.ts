@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { mockZoteroPrefs, zoteroMock } from '../../../../test/utils';
+import { NoteroPref, setNoteroPref } from '../../prefs/notero-pref';
+import {
+  buildItemFieldSource,
+  ComputedValue,
+} from '../../prefs/property-mappings';
+import type { DatabaseProperties } from '../notion-types';
+import {
+  resolvePropertyMappings,
+  validatePropertyMappings,
+} from '../property-mapping';
+
+const fakeDatabaseID = 'db-1';
+
+const databaseProperties = {
+  Volume: { id: 'id1', name: 'Volume', type: 'rich_text', rich_text: {} },
+  Year: { id: 'id2', name: 'Year', type: 'checkbox', checkbox: {} },
+} as unknown as DatabaseProperties;
+
+beforeEach(() => {
+  mockZoteroPrefs();
+});
+
+describe('validatePropertyMappings', () => {
+  it('returns status of each mapping', () => {
+    zoteroMock.ItemFields.getID.calledWith('volume').mockReturnValue(1);
+    zoteroMock.ItemFields.getID.calledWith('unknown').mockReturnValue(false);
+
+    const result = validatePropertyMappings(
+      [
+        { propertyName: 'Volume', source: buildItemFieldSource('volume') },
+        { propertyName: 'Volume', source: ComputedValue.title },
+        { propertyName: 'Year', source: ComputedValue.year },
+        { propertyName: 'Missing', source: ComputedValue.abstract },
+        { propertyName: 'Unknown', source: buildItemFieldSource('unknown') },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(result).toStrictEqual([
+      'valid',
+      'duplicateProperty',
+      'incompatibleType',
+      'missingProperty',
+      'unknownField',
+    ]);
+  });
+
+  it('returns valid status for creators mapped to relation', () => {
+    setNoteroPref(NoteroPref.peopleDatabaseID, 'people-db');
+
+    const result = validatePropertyMappings(
+      [
+        { propertyName: 'People', source: ComputedValue.authors },
+        { propertyName: 'Related', source: ComputedValue.title },
+      ],
+      fakeDatabaseID,
+      {
+        People: {
+          id: 'id3',
+          name: 'People',
+          type: 'relation',
+          relation: { database_id: 'people-db' },
+        },
+        Related: { id: 'id4', name: 'Related', type: 'relation' },
+      } as unknown as DatabaseProperties,
+    );
+
+    expect(result).toStrictEqual(['valid', 'incompatibleType']);
+  });
+
+  it('returns incompatible type for relations without configured database', () => {
+    setNoteroPref(NoteroPref.collectionsDatabaseID, 'collections-db');
+
+    const result = validatePropertyMappings(
+      [
+        { propertyName: 'People', source: ComputedValue.editors },
+        { propertyName: 'Collections', source: ComputedValue.collections },
+      ],
+      fakeDatabaseID,
+      {
+        People: {
+          id: 'id3',
+          name: 'People',
+          type: 'relation',
+          relation: { database_id: 'people-db' },
+        },
+        Collections: {
+          id: 'id4',
+          name: 'Collections',
+          type: 'relation',
+          relation: { database_id: 'other-db' },
+        },
+      } as unknown as DatabaseProperties,
+    );
+
+    expect(result).toStrictEqual(['incompatibleType', 'incompatibleType']);
+  });
+});
+
+describe('resolvePropertyMappings', () => {
+  it('resolves bound mappings by property ID', () => {
+    const [resolution] = resolvePropertyMappings(
+      [
+        {
+          propertyName: 'Authors',
+          propertyIDs: { db1: 'id2' },
+          source: ComputedValue.authors,
+        },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(resolution).toMatchObject({
+      bound: true,
+      property: { id: 'id2', name: 'Year' },
+      status: 'valid',
+    });
+  });
+
+  it('resolves mappings bound to other databases by name', () => {
+    const [resolution] = resolvePropertyMappings(
+      [
+        {
+          propertyName: 'Year',
+          propertyIDs: { db2: 'id1' },
+          source: ComputedValue.authors,
+        },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(resolution).toMatchObject({
+      bound: false,
+      property: { id: 'id2', name: 'Year' },
+      status: 'valid',
+    });
+  });
+
+  it('returns deleted status when bound property no longer exists', () => {
+    const [resolution] = resolvePropertyMappings(
+      [
+        {
+          propertyName: 'Volume',
+          propertyIDs: { db1: 'deleted-id' },
+          source: ComputedValue.authors,
+        },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(resolution).toMatchObject({
+      bound: true,
+      status: 'deletedProperty',
+    });
+    expect(resolution?.property).toBeUndefined();
+  });
+
+  it('returns incompatible type when bound property changed type', () => {
+    const [resolution] = resolvePropertyMappings(
+      [
+        {
+          propertyName: 'Year',
+          propertyIDs: { db1: 'id2' },
+          source: ComputedValue.year,
+        },
+      ],
+      fakeDatabaseID,
+      databaseProperties,
+    );
+
+    expect(resolution).toMatchObject({
+      bound: true,
+      status: 'incompatibleType',
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { type Client } from '@notionhq/client';
+import type {
+  AppendBlockChildrenParameters,
+  AppendBlockChildrenResponse,
+  BlockObjectRequest,
+} from '@notionhq/client/build/src/api-endpoints';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import { zoteroMock } from '../../../../test/utils';
+import type { SyncedBlock } from '../../data/item-data';
+import {
+  appendNoteBlocks,
+  countBlocks,
+  getBlockIDsByKey,
+  updateNoteBlocks,
+} from '../sync-note-blocks';
+
+const fakeParentID = 'fake-parent-id';
+
+function paragraph(content: string): BlockObjectRequest {
+  return {
+    type: 'paragraph',
+    paragraph: { rich_text: [{ text: { content } }] },
+  };
+}
+
+function heading(content: string): BlockObjectRequest {
+  return {
+    type: 'heading_3',
+    heading_3: { rich_text: [{ text: { content } }] },
+  };
+}
+
+function synced(id: string, block: BlockObjectRequest): SyncedBlock {
+  return {
+    id,
+    type: block.type ?? '',
+    fingerprint: JSON.stringify(block),
+  };
+}
+
+function setup() {
+  const notion = mockDeep<Client>();
+  let nextID = 0;
+
+  notion.blocks.children.append.mockImplementation(
+    ({ children }: AppendBlockChildrenParameters) =>
+      Promise.resolve({
+        results: children.map(() => ({ id: `new-${++nextID}` })),
+      } as AppendBlockChildrenResponse),
+  );
+
+  return { notion };
+}
+
+beforeEach(() => {
+  zoteroMock.Utilities.Internal.md5.mockImplementation((str: string) => str);
+});
+
+describe('appendNoteBlocks', () => {
+  it('appends nested children to their parent blocks', async () => {
+    const { notion } = setup();
+    const child = paragraph('child');
+    const parent = {
+      type: 'toggle',
+      toggle: { rich_text: [], children: [child] },
+    } as BlockObjectRequest;
+
+    const syncedBlocks = await appendNoteBlocks(notion, fakeParentID, [parent]);
+
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeParentID,
+      children: [{ type: 'toggle', toggle: { rich_text: [] } }],
+    });
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: 'new-1',
+      children: [child],
+    });
+    expect(syncedBlocks).toStrictEqual([
+      {
+        id: 'new-1',
+        type: 'toggle',
+        fingerprint: JSON.stringify({
+          type: 'toggle',
+          toggle: { rich_text: [] },
+        }),
+        children: [synced('new-2', child)],
+      },
+    ]);
+  });
+});
+
+describe('updateNoteBlocks', () => {
+  const first = paragraph('first');
+  const second = paragraph('second');
+  const third = paragraph('third');
+  const syncedBlocks = [
+    synced('block-1', first),
+    synced('block-2', second),
+    synced('block-3', third),
+  ];
+
+  it('does not patch unchanged blocks', async () => {
+    const { notion } = setup();
+
+    const result = await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [
+      first,
+      second,
+      third,
+    ]);
+
+    expect(result).toStrictEqual(syncedBlocks);
+    expect(notion.blocks.update).not.toHaveBeenCalled();
+    expect(notion.blocks.delete).not.toHaveBeenCalled();
+    expect(notion.blocks.children.append).not.toHaveBeenCalled();
+  });
+
+  it('updates changed blocks in place', async () => {
+    const { notion } = setup();
+    const changed = paragraph('changed');
+
+    const result = await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [
+      first,
+      changed,
+      third,
+    ]);
+
+    expect(notion.blocks.update).toHaveBeenCalledOnce();
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: 'block-2',
+      ...changed,
+    });
+    expect(result[1]).toStrictEqual(synced('block-2', changed));
+  });
+
+  it('inserts new blocks after the preceding block', async () => {
+    const { notion } = setup();
+    const inserted = heading('inserted');
+
+    const result = await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [
+      first,
+      inserted,
+      second,
+      third,
+    ]);
+
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeParentID,
+      children: [inserted],
+      after: 'block-1',
+    });
+    expect(result.map(({ id }) => id)).toStrictEqual([
+      'block-1',
+      'new-1',
+      'block-2',
+      'block-3',
+    ]);
+  });
+
+  it('deletes removed blocks', async () => {
+    const { notion } = setup();
+
+    const result = await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [
+      second,
+      third,
+    ]);
+
+    expect(notion.blocks.delete).toHaveBeenCalledOnce();
+    expect(notion.blocks.delete).toHaveBeenCalledWith({ block_id: 'block-1' });
+    expect(result.map(({ id }) => id)).toStrictEqual(['block-2', 'block-3']);
+  });
+
+  it('keeps the first block in place when inserting at the start', async () => {
+    const { notion } = setup();
+    const inserted = paragraph('inserted');
+
+    const result = await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [
+      inserted,
+      first,
+      second,
+      third,
+    ]);
+
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: 'block-1',
+      ...inserted,
+    });
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeParentID,
+      children: [first],
+      after: 'block-1',
+    });
+    expect(result.map(({ id }) => id)).toStrictEqual([
+      'block-1',
+      'new-1',
+      'block-2',
+      'block-3',
+    ]);
+  });
+
+  it('replaces all blocks when no block can be kept first', async () => {
+    const { notion } = setup();
+    const inserted = heading('inserted');
+
+    await updateNoteBlocks(notion, fakeParentID, syncedBlocks, [inserted]);
+
+    expect(notion.blocks.delete).toHaveBeenCalledTimes(3);
+    expect(notion.blocks.children.append).toHaveBeenCalledWith({
+      block_id: fakeParentID,
+      children: [inserted],
+    });
+  });
+
+  it('matches blocks with the same keys', async () => {
+    const { notion } = setup();
+    const divider: BlockObjectRequest = { type: 'divider', divider: {} };
+    const secondDivider = { ...divider };
+    const changed = paragraph('changed');
+
+    const result = await updateNoteBlocks(
+      notion,
+      fakeParentID,
+      [
+        synced('block-1', first),
+        synced('block-2', divider),
+        synced('block-3', second),
+        synced('block-4', divider),
+      ],
+      [changed, secondDivider],
+      {
+        blocks: new Map([
+          [changed, 'second/text'],
+          [secondDivider, 'second/divider'],
+        ]),
+        syncedBlocks: new Map([
+          ['block-1', 'first/text'],
+          ['block-2', 'first/divider'],
+          ['block-3', 'second/text'],
+          ['block-4', 'second/divider'],
+        ]),
+      },
+    );
+
+    expect(notion.blocks.delete).toHaveBeenCalledWith({ block_id: 'block-1' });
+    expect(notion.blocks.delete).toHaveBeenCalledWith({ block_id: 'block-2' });
+    expect(notion.blocks.update).toHaveBeenCalledOnce();
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: 'block-3',
+      ...changed,
+    });
+    expect(result.map(({ id }) => id)).toStrictEqual(['block-3', 'block-4']);
+  });
+});
+
+describe('getBlockIDsByKey', () => {
+  it('returns IDs of nested blocks with keys', () => {
+    const child = paragraph('child');
+    const parent = {
+      type: 'toggle',
+      toggle: { rich_text: [], children: [child] },
+    } as BlockObjectRequest;
+
+    expect(
+      getBlockIDsByKey(
+        [parent],
+        [
+          {
+            ...synced('block-1', parent),
+            children: [synced('block-2', child)],
+          },
+        ],
+        new Map([[child, 'child']]),
+      ),
+    ).toStrictEqual(new Map([['child', 'block-2']]));
+  });
+});
+
+describe('countBlocks', () => {
+  it('counts nested children of blocks', () => {
+    const parent = {
+      type: 'toggle',
+      toggle: {
+        rich_text: [],
+        children: [paragraph('first'), paragraph('second')],
+      },
+    } as BlockObjectRequest;
+
+    expect(countBlocks([parent, paragraph('third')])).toBe(4);
+  });
+});
@@ -1,6 +1,7 @@
 import { APIErrorCode, APIResponseError, type Client } from '@notionhq/client';
 import type {
   AppendBlockChildrenResponse,
+  BlockObjectRequest,
   PartialBlockObjectResponse,
 } from '@notionhq/client/build/src/api-endpoints';
 import { describe, expect, it, vi } from 'vitest';
@@ -13,9 +14,15 @@ import {
   getSyncedNotes,
   saveSyncedNote,
 } from '../../data/item-data';
-import { syncNoteItem } from '../sync-note-item';
+import {
+  buildAnnotationSection,
+  buildSyncedAnnotations,
+  getSyncedAnnotationBlockKeys,
+} from '../annotation-blocks';
+import { syncItemAnnotations, syncNoteItem } from '../sync-note-item';
 
 vi.mock('../../data/item-data');
+vi.mock('../annotation-blocks');
 
 const containerHeadingBlock = {
   heading_1: {
@@ -188,4 +195,139 @@ describe('syncNoteItem', () => {
       expect.anything(),
     );
   });
+
+  it('patches saved note blocks instead of recreating the note block', async () => {
+    const { noteItem, notion, regularItem } = setup({ syncedNotes: {} });
+    vi.mocked(getSyncedNotes).mockReturnValue({
+      containerBlockID: fakeContainerID,
+      notes: {
+        [noteItem.key]: {
+          blockID: fakeNoteBlockID,
+          blocks: [
+            { id: 'fake-child-id', type: 'paragraph', fingerprint: 'fake' },
+          ],
+        },
+      },
+    });
+    notion.blocks.update.mockResolvedValue({
+      object: 'block',
+      id: fakeNoteBlockID,
+    });
+    notion.blocks.delete.mockResolvedValue({
+      object: 'block',
+      id: 'fake-child-id',
+    });
+
+    await expect(syncNoteItem(noteItem, notion)).resolves.toBe('updated');
+
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: fakeNoteBlockID,
+      toggle: {
+        rich_text: [{ type: 'text', text: { content: fakeNoteTitle } }],
+      },
+    });
+    expect(notion.blocks.delete).not.toHaveBeenCalledWith({
+      block_id: fakeNoteBlockID,
+    });
+    expect(saveSyncedNote).toHaveBeenCalledWith(
+      regularItem,
+      fakeContainerID,
+      fakeNoteBlockID,
+      noteItem.key,
+      expect.any(Array),
+      undefined,
+      undefined,
+    );
+  });
+});
+
+describe('syncItemAnnotations', () => {
+  it('skips item without annotations that were never synced', async () => {
+    const { notion, regularItem } = setup({ syncedNotes: {} });
+    vi.mocked(buildAnnotationSection).mockResolvedValue({
+      blocks: [],
+      images: {},
+      keys: new Map(),
+    });
+
+    await expect(syncItemAnnotations(regularItem, notion)).resolves.toBe(
+      'skipped',
+    );
+
+    expect(notion.blocks.children.append).not.toHaveBeenCalled();
+  });
+
+  it('patches only the blocks of changed annotations', async () => {
+    const { notion, regularItem } = setup({ syncedNotes: {} });
+    const callout: BlockObjectRequest = {
+      type: 'callout',
+      callout: { rich_text: [{ text: { content: 'Changed text' } }] },
+    };
+    const syncedAnnotations = {
+      ANNOTKEY: { callout: 'fake-callout-block-id' },
+    };
+    const annotationImages = {
+      IMAGEKEY: { position: 'fake-position', url: 'fake-image-url' },
+    };
+    vi.mocked(getSyncedNotes).mockReturnValue({
+      containerBlockID: fakeContainerID,
+      notes: {
+        annotations: {
+          annotationImages,
+          annotations: syncedAnnotations,
+          blockID: fakeNoteBlockID,
+          blocks: [
+            {
+              id: 'fake-callout-block-id',
+              type: 'callout',
+              fingerprint: 'fake-fingerprint',
+            },
+          ],
+        },
+      },
+    });
+    vi.mocked(buildAnnotationSection).mockResolvedValue({
+      blocks: [callout],
+      images: annotationImages,
+      keys: new Map([[callout, 'ANNOTKEY/callout']]),
+    });
+    vi.mocked(getSyncedAnnotationBlockKeys).mockReturnValue(
+      new Map([['fake-callout-block-id', 'ANNOTKEY/callout']]),
+    );
+    vi.mocked(buildSyncedAnnotations).mockReturnValue(syncedAnnotations);
+    notion.blocks.update.mockResolvedValue({
+      object: 'block',
+      id: fakeNoteBlockID,
+    });
+
+    await expect(syncItemAnnotations(regularItem, notion)).resolves.toBe(
+      'updated',
+    );
+
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: fakeNoteBlockID,
+      toggle: {
+        rich_text: [{ type: 'text', text: { content: 'PDF Annotations' } }],
+      },
+    });
+    expect(notion.blocks.update).toHaveBeenCalledWith({
+      block_id: 'fake-callout-block-id',
+      ...callout,
+    });
+    expect(buildAnnotationSection).toHaveBeenCalledWith(regularItem, {
+      images: annotationImages,
+    });
+    expect(getSyncedAnnotationBlockKeys).toHaveBeenCalledWith(
+      syncedAnnotations,
+    );
+    expect(saveSyncedNote).toHaveBeenCalledWith(
+      regularItem,
+      fakeContainerID,
+      fakeNoteBlockID,
+      'annotations',
+      [expect.objectContaining({ id: 'fake-callout-block-id' })],
+      syncedAnnotations,
+      annotationImages,
+    );
+  });
 });
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { createZoteroItemMock } from '../../../../test/utils';
+import { getSyncedNotes } from '../../data/item-data';
+import { uploadToImgur } from '../../utils/imgur';
+import type {
+  DatabaseProperties,
+  DatabaseRequestProperties,
+  PageResponseProperty,
+} from '../notion-types';
+import type { SyncJobParams } from '../sync-job';
+import {
+  diffProperties,
+  formatPropertyValue,
+  previewItem,
+} from '../sync-preview';
+
+vi.mock('../../data/item-data');
+vi.mock('../../utils/imgur');
+
+const databaseProperties = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+} as unknown as DatabaseProperties;
+
+function titleResponse(text: string): PageResponseProperty {
+  return {
+    id: 'title',
+    type: 'title',
+    title: [{ plain_text: text }],
+  } as unknown as PageResponseProperty;
+}
+
+function richTextResponse(text: string): PageResponseProperty {
+  return {
+    id: 'abc',
+    type: 'rich_text',
+    rich_text: [{ plain_text: text }],
+  } as unknown as PageResponseProperty;
+}
+
+describe('formatPropertyValue', () => {
+  it('formats request and response rich text the same way', () => {
+    const request = { rich_text: [{ text: { content: 'Some text' } }] };
+
+    expect(formatPropertyValue(request)).toBe('Some text');
+    expect(formatPropertyValue(richTextResponse('Some text'))).toBe(
+      'Some text',
+    );
+  });
+
+  it('formats multi-select options as a comma-separated list', () => {
+    const request = {
+      type: 'multi_select',
+      multi_select: [{ name: 'A' }, { name: 'B' }],
+    };
+
+    expect(formatPropertyValue(request)).toBe('A, B');
+  });
+
+  it('formats date ranges', () => {
+    const request = {
+      type: 'date',
+      date: { start: '2024-01-01', end: '2024-01-31' },
+    };
+
+    expect(formatPropertyValue(request)).toBe('2024-01-01 → 2024-01-31');
+  });
+
+  it('returns empty string for empty values', () => {
+    expect(formatPropertyValue(undefined)).toBe('');
+    expect(formatPropertyValue({ type: 'number', number: null })).toBe('');
+    expect(formatPropertyValue({ type: 'url', url: null })).toBe('');
+  });
+});
+
+describe('diffProperties', () => {
+  it('marks all non-empty properties as added when page does not exist', () => {
+    const properties: DatabaseRequestProperties = {
+      title: { title: [{ text: { content: 'Title' } }] },
+      Extra: { type: 'rich_text', rich_text: [] },
+    };
+
+    expect(
+      diffProperties(properties, undefined, databaseProperties),
+    ).toStrictEqual([
+      { name: 'Name', type: 'added', currentValue: '', newValue: 'Title' },
+    ]);
+  });
+
+  it('marks properties as changed or removed when page exists', () => {
+    const properties: DatabaseRequestProperties = {
+      title: { title: [{ text: { content: 'New title' } }] },
+      Abstract: { type: 'rich_text', rich_text: [] },
+      Extra: { type: 'rich_text', rich_text: [{ text: { content: 'Same' } }] },
+    };
+    const currentProperties = {
+      Name: titleResponse('Old title'),
+      Abstract: richTextResponse('Old abstract'),
+      Extra: richTextResponse('Same'),
+    };
+
+    expect(
+      diffProperties(properties, currentProperties, databaseProperties),
+    ).toStrictEqual([
+      {
+        name: 'Name',
+        type: 'changed',
+        currentValue: 'Old title',
+        newValue: 'New title',
+      },
+      {
+        name: 'Abstract',
+        type: 'removed',
+        currentValue: 'Old abstract',
+        newValue: '',
+      },
+    ]);
+  });
+});
+
+describe('previewItem', () => {
+  it('does not upload images of annotations', async () => {
+    const regularItem = createZoteroItemMock();
+    const attachment = createZoteroItemMock();
+    const annotation = createZoteroItemMock({
+      annotationColor: '#ffd400',
+      annotationComment: null,
+      annotationPageLabel: null,
+      annotationSortIndex: '00001',
+      annotationText: null,
+      annotationType: 'image',
+    });
+    const noteItem = createZoteroItemMock({ topLevelItem: regularItem });
+    noteItem.isNote.mockReturnValue(true);
+    noteItem.isTopLevelItem.mockReturnValue(false);
+    noteItem.getNoteTitle.mockReturnValue('Annotations');
+    regularItem.getAttachments.mockReturnValue([attachment.id]);
+    attachment.isPDFAttachment.mockReturnValue(true);
+    attachment.getAnnotations.mockReturnValue([annotation]);
+    annotation.getTags.mockReturnValue([]);
+    vi.mocked(getSyncedNotes).mockReturnValue({});
+
+    const preview = await previewItem(noteItem, mock<SyncJobParams>());
+
+    expect(uploadToImgur).not.toHaveBeenCalled();
+    // Heading, callout, placeholder image, and divider
+    expect(preview).toStrictEqual({
+      item: noteItem,
+      kind: 'note',
+      action: 'create',
+      blockCount: 4,
+    });
+  });
+});
@@ -3,15 +3,24 @@ import type { PageObjectResponse } from '@notionhq/client/build/src/api-endpoint
 import { describe, expect, it, vi } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
 
-import { createZoteroItemMock } from '../../../../test/utils';
-import { getNotionPageID } from '../../data/item-data';
+import { createZoteroItemMock, zoteroMock } from '../../../../test/utils';
+import {
+  getNotionPageID,
+  getPropertiesFingerprint,
+  getSyncedNotes,
+  saveNotionLinkAttachment,
+  type SyncedNotes,
+} from '../../data/item-data';
 import { PageTitleFormat } from '../../prefs/notero-pref';
+import { DEFAULT_PROPERTY_MAPPINGS } from '../../prefs/property-mappings';
+import { migratePage } from '../migrate-page';
 import type { DatabaseRequestProperties } from '../notion-types';
 import { buildProperties } from '../property-builder';
 import type { SyncJobParams } from '../sync-job';
 import { syncRegularItem } from '../sync-regular-item';
 
 vi.mock('../../data/item-data');
+vi.mock('../migrate-page');
 vi.mock('../property-builder');
 
 const objectNotFoundError = new APIResponseError({
@@ -36,6 +45,7 @@ const fakeDatabaseProperties = {};
 const fakePageID = 'fake-page-id';
 const fakePageProperties: DatabaseRequestProperties = { title: { title: [] } };
 const fakePageTitleFormat = PageTitleFormat.itemAuthorDateCitation;
+const fakeSyncedNotes: SyncedNotes = { containerBlockID: 'fake-container-id' };
 const fakePageResponse: PageObjectResponse = {
   archived: false,
   cover: null,
@@ -53,7 +63,13 @@ const fakePageResponse: PageObjectResponse = {
   url: 'fake-url',
 };
 
-function setup({ pageID }: { pageID?: string }) {
+function setup({
+  pageID,
+  propertiesFingerprint,
+}: {
+  pageID?: string;
+  propertiesFingerprint?: string;
+}) {
   const regularItem = createZoteroItemMock();
   const notion = mockDeep<Client>({
     fallbackMockImplementation: () => {
@@ -62,11 +78,20 @@ function setup({ pageID }: { pageID?: string }) {
   });
 
   vi.mocked(getNotionPageID).mockReturnValue(pageID);
+  vi.mocked(getPropertiesFingerprint).mockReturnValue(propertiesFingerprint);
+  vi.mocked(getSyncedNotes).mockReturnValue(fakeSyncedNotes);
+  zoteroMock.Utilities.Internal.md5.mockImplementation(
+    (str: string) => `md5:${str}`,
+  );
   vi.mocked(buildProperties).mockResolvedValue(fakePageProperties);
 
   notion.pages.create.mockResolvedValue(fakePageResponse);
   notion.pages.update.mockResolvedValue(fakePageResponse);
   notion.pages.retrieve.mockResolvedValue(fakePageResponse);
+  vi.mocked(migratePage).mockResolvedValue({
+    response: fakePageResponse,
+    syncedNotes: fakeSyncedNotes,
+  });
 
   const params: SyncJobParams = {
     citationFormat: fakeCitationFormat,
@@ -74,6 +99,8 @@ function setup({ pageID }: { pageID?: string }) {
     databaseProperties: fakeDatabaseProperties,
     notion,
     pageTitleFormat: fakePageTitleFormat,
+    pageTitleTemplate: '',
+    propertyMappings: [...DEFAULT_PROPERTY_MAPPINGS],
   };
 
   return { notion, params, regularItem };
@@ -104,6 +131,58 @@ describe('syncRegularItem', () => {
     expect(notion.pages.create).not.toHaveBeenCalled();
   });
 
+  it('skips update when properties have not changed since last sync', async () => {
+    const { params, regularItem } = setup({ pageID: fakePageID });
+    const { notion } = params;
+
+    await syncRegularItem(regularItem, params);
+
+    const fingerprint = vi.mocked(saveNotionLinkAttachment).mock.lastCall?.[2];
+    const { params: nextParams } = setup({
+      pageID: fakePageID,
+      propertiesFingerprint: fingerprint,
+    });
+
+    await expect(syncRegularItem(regularItem, nextParams)).resolves.toBe(
+      'skipped',
+    );
+    expect(nextParams.notion.pages.update).not.toHaveBeenCalled();
+    expect(notion.pages.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('updates existing page when properties have changed since last sync', async () => {
+    const { notion, params, regularItem } = setup({
+      pageID: fakePageID,
+      propertiesFingerprint: 'stale-fingerprint',
+    });
+
+    await expect(syncRegularItem(regularItem, params)).resolves.toBe('updated');
+    expect(notion.pages.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns `created` when new page is created', async () => {
+    const { params, regularItem } = setup({ pageID: undefined });
+
+    await expect(syncRegularItem(regularItem, params)).resolves.toBe('created');
+  });
+
+  it('returns `updated` when existing page is updated', async () => {
+    const { params, regularItem } = setup({ pageID: fakePageID });
+
+    await expect(syncRegularItem(regularItem, params)).resolves.toBe('updated');
+  });
+
+  it('returns `created` when page is recreated', async () => {
+    const { notion, params, regularItem } = setup({ pageID: fakePageID });
+    notion.pages.update.mockRejectedValue(objectNotFoundError);
+    notion.pages.create.mockResolvedValue({
+      ...fakePageResponse,
+      id: 'new-page-id',
+    });
+
+    await expect(syncRegularItem(regularItem, params)).resolves.toBe('created');
+  });
+
   it('creates new page when existing page is not found', async () => {
     const { notion, params, regularItem } = setup({ pageID: fakePageID });
     notion.pages.update.mockRejectedValue(objectNotFoundError);
@@ -120,7 +199,7 @@ describe('syncRegularItem', () => {
     });
   });
 
-  it('creates new page when existing page belongs to different database', async () => {
+  it('migrates page when existing page belongs to different database', async () => {
     const { notion, params, regularItem } = setup({ pageID: fakePageID });
     notion.pages.update.mockResolvedValue({
       ...fakePageResponse,
@@ -133,13 +212,17 @@ describe('syncRegularItem', () => {
       page_id: fakePageID,
       properties: fakePageProperties,
     });
-    expect(notion.pages.create).toHaveBeenCalledWith({
-      parent: { database_id: fakeDatabaseID },
-      properties: fakePageProperties,
-    });
+    expect(migratePage).toHaveBeenCalledWith(
+      notion,
+      fakePageID,
+      fakeDatabaseID,
+      fakePageProperties,
+      fakeSyncedNotes,
+    );
+    expect(notion.pages.create).not.toHaveBeenCalled();
   });
 
-  it('creates new page when validation error is caused by differing database', async () => {
+  it('migrates page when validation error is caused by differing database', async () => {
     const { notion, params, regularItem } = setup({ pageID: fakePageID });
     notion.pages.update.mockRejectedValue(validationError);
     notion.pages.retrieve.mockResolvedValue({
@@ -153,10 +236,37 @@ describe('syncRegularItem', () => {
       page_id: fakePageID,
       properties: fakePageProperties,
     });
-    expect(notion.pages.create).toHaveBeenCalledWith({
-      parent: { database_id: fakeDatabaseID },
-      properties: fakePageProperties,
+    expect(migratePage).toHaveBeenCalledWith(
+      notion,
+      fakePageID,
+      fakeDatabaseID,
+      fakePageProperties,
+      fakeSyncedNotes,
+    );
+  });
+
+  it('saves synced notes of migrated page', async () => {
+    const { notion, params, regularItem } = setup({ pageID: fakePageID });
+    const migratedSyncedNotes: SyncedNotes = {
+      containerBlockID: 'new-container-id',
+    };
+    notion.pages.update.mockResolvedValue({
+      ...fakePageResponse,
+      parent: { database_id: 'different-database-id', type: 'database_id' },
+    });
+    vi.mocked(migratePage).mockResolvedValue({
+      response: { ...fakePageResponse, id: 'new-page-id' },
+      syncedNotes: migratedSyncedNotes,
     });
+
+    await expect(syncRegularItem(regularItem, params)).resolves.toBe('created');
+
+    expect(saveNotionLinkAttachment).toHaveBeenCalledWith(
+      regularItem,
+      expect.any(String),
+      expect.any(String),
+      migratedSyncedNotes,
+    );
   });
 
   it('throws error when validation error is not caused by differing database', async () => {
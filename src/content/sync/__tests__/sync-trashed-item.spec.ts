@@ -0,0 +1,181 @@
+import { type Client } from '@notionhq/client';
+import type { GetPageResponse } from '@notionhq/client/build/src/api-endpoints';
+import { describe, expect, it, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+
+import { createZoteroItemMock, mockZoteroPrefs } from '../../../../test/utils';
+import {
+  getNotionPageID,
+  getTrashedItemAction,
+  saveTrashedItemAction,
+} from '../../data/item-data';
+import {
+  NoteroPref,
+  setNoteroPref,
+  TrashedItemAction,
+} from '../../prefs/notero-pref';
+import { restoreTrashedItem, syncTrashedItem } from '../sync-trashed-item';
+
+vi.mock('../../data/item-data');
+
+const fakePageID = 'fake-page-id';
+
+function setup({
+  action,
+  deleted = true,
+  deletedPropertyType,
+  savedAction,
+}: {
+  action: TrashedItemAction;
+  deleted?: boolean;
+  deletedPropertyType?: string;
+  savedAction?: TrashedItemAction;
+}) {
+  mockZoteroPrefs();
+  setNoteroPref(NoteroPref.trashedItemAction, action);
+
+  const item = createZoteroItemMock({ deleted });
+  const notion = mockDeep<Client>({
+    fallbackMockImplementation: () => {
+      throw new Error('NOT MOCKED');
+    },
+  });
+
+  vi.mocked(getNotionPageID).mockReturnValue(fakePageID);
+  vi.mocked(getTrashedItemAction).mockReturnValue(savedAction);
+  notion.pages.update.mockResolvedValue({ id: fakePageID, object: 'page' });
+  notion.pages.retrieve.mockResolvedValue({
+    id: fakePageID,
+    object: 'page',
+    url: 'fake-url',
+    properties: deletedPropertyType
+      ? { Deleted: { id: 'abc', type: deletedPropertyType } }
+      : {},
+  } as unknown as GetPageResponse);
+
+  return { item, notion };
+}
+
+describe('syncTrashedItem', () => {
+  it('does nothing when action is none', async () => {
+    const { item, notion } = setup({ action: TrashedItemAction.none });
+
+    const outcome = await syncTrashedItem(item, notion);
+
+    expect(outcome).toBe('skipped');
+    expect(notion.pages.update).not.toHaveBeenCalled();
+    expect(saveTrashedItemAction).not.toHaveBeenCalled();
+  });
+
+  it('archives page and saves action', async () => {
+    const { item, notion } = setup({ action: TrashedItemAction.archivePage });
+
+    const outcome = await syncTrashedItem(item, notion);
+
+    expect(outcome).toBe('updated');
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakePageID,
+      archived: true,
+    });
+    expect(saveTrashedItemAction).toHaveBeenCalledWith(
+      item,
+      TrashedItemAction.archivePage,
+    );
+  });
+
+  it('skips page that already had action applied', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.archivePage,
+      savedAction: TrashedItemAction.archivePage,
+    });
+
+    const outcome = await syncTrashedItem(item, notion);
+
+    expect(outcome).toBe('skipped');
+    expect(notion.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('checks Deleted checkbox property', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.flagPage,
+      deletedPropertyType: 'checkbox',
+    });
+
+    await syncTrashedItem(item, notion);
+
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakePageID,
+      properties: { Deleted: { checkbox: true } },
+    });
+  });
+
+  it('sets Deleted option of status property', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.flagPage,
+      deletedPropertyType: 'status',
+    });
+
+    await syncTrashedItem(item, notion);
+
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakePageID,
+      properties: { Deleted: { status: { name: 'Deleted' } } },
+    });
+  });
+
+  it('throws error when database has no Deleted property', async () => {
+    const { item, notion } = setup({ action: TrashedItemAction.flagPage });
+
+    await expect(() => syncTrashedItem(item, notion)).rejects.toThrow(
+      'Notion database has no "Deleted" property',
+    );
+    expect(saveTrashedItemAction).not.toHaveBeenCalled();
+  });
+});
+
+describe('restoreTrashedItem', () => {
+  it('does nothing when no action was applied', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.archivePage,
+      deleted: false,
+    });
+
+    await restoreTrashedItem(item, notion);
+
+    expect(notion.pages.update).not.toHaveBeenCalled();
+    expect(saveTrashedItemAction).not.toHaveBeenCalled();
+  });
+
+  it('unarchives page and clears action', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.archivePage,
+      deleted: false,
+      savedAction: TrashedItemAction.archivePage,
+    });
+
+    await restoreTrashedItem(item, notion);
+
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakePageID,
+      archived: false,
+    });
+    expect(saveTrashedItemAction).toHaveBeenCalledWith(item, undefined);
+  });
+
+  it('clears Deleted select property', async () => {
+    const { item, notion } = setup({
+      action: TrashedItemAction.flagPage,
+      deleted: false,
+      deletedPropertyType: 'select',
+      savedAction: TrashedItemAction.flagPage,
+    });
+
+    await restoreTrashedItem(item, notion);
+
+    expect(notion.pages.update).toHaveBeenCalledWith({
+      page_id: fakePageID,
+      properties: { Deleted: { select: null } },
+    });
+    expect(saveTrashedItemAction).toHaveBeenCalledWith(item, undefined);
+  });
+});
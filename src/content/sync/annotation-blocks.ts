@@ -0,0 +1,326 @@
+import type {
+  BlockObjectRequest,
+  BlockObjectRequestWithoutChildren,
+} from '@notionhq/client/build/src/api-endpoints';
+
+import type {
+  SyncedAnnotationImages,
+  SyncedAnnotations,
+} from '../data/item-data';
+import { logger } from '../utils';
+import { uploadToImgur } from '../utils/imgur';
+
+import { getNotionBackgroundColor } from './html-to-notion/annotations';
+import type { Color, RichText } from './notion-types';
+import { buildRichText } from './notion-utils';
+
+const DEFAULT_COLOR: NonNullable<Color> = 'yellow_background';
+
+/** Stands in for the URLs of images that would be uploaded by a sync */
+const PREVIEW_IMAGE_URL = 'https://notero.invalid/preview-image';
+
+/** Titles of the headings of annotations of each color */
+const COLOR_TITLES: Partial<Record<NonNullable<Color>, string>> = {
+  yellow_background: 'Highlights',
+  red_background: 'Weak Points',
+  green_background: 'Strong Points',
+  blue_background: 'Unique Points',
+  purple_background: 'To Explore',
+};
+
+/** Role of a block within the blocks built from an annotation */
+type AnnotationBlockRole = 'callout' | 'comment' | 'tags' | 'divider';
+
+type AnnotationBlock = {
+  block: BlockObjectRequest;
+  role: AnnotationBlockRole;
+};
+
+type AnnotationBlockGroup = {
+  blocks: AnnotationBlock[];
+  color: NonNullable<Color>;
+  image?: SyncedAnnotationImages[Zotero.DataObjectKey];
+  key: Zotero.DataObjectKey;
+};
+
+/**
+ * Blocks of the annotations of an item, along with keys identifying the
+ * blocks built from each annotation across syncs and the images uploaded for
+ * image annotations
+ */
+export type AnnotationSection = {
+  blocks: BlockObjectRequest[];
+  images: SyncedAnnotationImages;
+  keys: Map<BlockObjectRequest, string>;
+};
+
+export type AnnotationSectionOptions = {
+  /**
+   * Images uploaded by the last sync, which are reused for annotations that
+   * have not moved since
+   */
+  images?: SyncedAnnotationImages;
+  /**
+   * Whether the blocks are built for a preview of a sync, in which case
+   * images are not uploaded and placeholder images are built instead
+   */
+  preview?: boolean;
+};
+
+/** Types of annotations that have annotated text */
+const TEXT_ANNOTATION_TYPES: ReadonlySet<Zotero.AnnotationType> =
+  new Set<Zotero.AnnotationType>(['highlight', 'underline']);
+
+/**
+ * Get the annotations of the PDF and EPUB attachments of an item, in the
+ * order in which they appear in each attachment.
+ */
+export function getItemAnnotations(item: Zotero.Item): Zotero.Item[] {
+  return Zotero.Items.get(item.getAttachments(false))
+    .filter(
+      (attachment) =>
+        attachment.isPDFAttachment() || attachment.isEPUBAttachment(),
+    )
+    .flatMap((attachment) =>
+      attachment
+        .getAnnotations()
+        .slice()
+        .sort((a, b) =>
+          a.annotationSortIndex.localeCompare(b.annotationSortIndex),
+        ),
+    );
+}
+
+/**
+ * Build blocks for the annotations of an item, read directly from Zotero
+ * rather than from the HTML of a note created from annotations.
+ *
+ * Annotations are grouped under a heading for each color, in the order in
+ * which the colors first appear. Each annotation is built as its own group of
+ * blocks:
+ * 1. A callout in the annotation color with the annotated text and page
+ *    label. Annotations without text, such as image annotations, have their
+ *    comment in the callout instead, and image annotations have their image
+ *    as a child of the callout.
+ * 2. A paragraph with the comment, if any.
+ * 3. A paragraph with the tags, if any.
+ * 4. A divider.
+ *
+ * @param item The regular item whose attachments have the annotations.
+ * @param options Options for building the blocks.
+ */
+export async function buildAnnotationSection(
+  item: Zotero.Item,
+  options: AnnotationSectionOptions = {},
+): Promise<AnnotationSection> {
+  const groups: AnnotationBlockGroup[] = [];
+
+  // Annotations are built sequentially to limit concurrent image uploads
+  for (const annotation of getItemAnnotations(item)) {
+    groups.push(await buildAnnotationBlockGroup(annotation, options));
+  }
+
+  const colorGroups = new Map<NonNullable<Color>, AnnotationBlockGroup[]>();
+  groups.forEach((group) => {
+    colorGroups.set(group.color, [
+      ...(colorGroups.get(group.color) ?? []),
+      group,
+    ]);
+  });
+
+  const keys = new Map<BlockObjectRequest, string>();
+  groups.forEach(({ blocks, key }) => {
+    blocks.forEach(({ block, role }) => {
+      keys.set(block, getAnnotationBlockKey(key, role));
+    });
+  });
+
+  const blocks = Array.from(colorGroups).map(
+    ([color, groups]): BlockObjectRequest => ({
+      type: 'heading_3',
+      heading_3: {
+        rich_text: buildRichText(getColorTitle(color)),
+        is_toggleable: true,
+        // Children are appended separately, so they can be nested deeper
+        // than the Notion API allows in a single request
+        children: groups.flatMap(({ blocks }) =>
+          blocks.map(({ block }) => block as BlockObjectRequestWithoutChildren),
+        ),
+      },
+    }),
+  );
+
+  const images: SyncedAnnotationImages = {};
+  groups.forEach(({ image, key }) => {
+    if (image) images[key] = image;
+  });
+
+  return { blocks, images, keys };
+}
+
+/**
+ * Get the keys of synced blocks from the blocks of each annotation.
+ * @returns The keys of the blocks, by block ID.
+ */
+export function getSyncedAnnotationBlockKeys(
+  annotations: SyncedAnnotations,
+): Map<string, string> {
+  const keys = new Map<string, string>();
+
+  Object.entries(annotations).forEach(([annotationKey, blockIDs]) => {
+    Object.entries(blockIDs).forEach(([role, blockID]) => {
+      keys.set(blockID, getAnnotationBlockKey(annotationKey, role));
+    });
+  });
+
+  return keys;
+}
+
+/**
+ * Get the blocks of each annotation from the IDs of blocks by their keys.
+ */
+export function buildSyncedAnnotations(
+  blockIDs: ReadonlyMap<string, string>,
+): SyncedAnnotations {
+  const annotations: SyncedAnnotations = {};
+
+  blockIDs.forEach((blockID, blockKey) => {
+    const [annotationKey, role] = blockKey.split('/');
+    if (!annotationKey || !role) return;
+
+    annotations[annotationKey] = {
+      ...annotations[annotationKey],
+      [role]: blockID,
+    };
+  });
+
+  return annotations;
+}
+
+function getAnnotationBlockKey(
+  annotationKey: Zotero.DataObjectKey,
+  role: string,
+): string {
+  return `${annotationKey}/${role}`;
+}
+
+function getColorTitle(color: NonNullable<Color>): string {
+  return (
+    COLOR_TITLES[color] ??
+    color.replace('_background', '').replace('_', ' ').toUpperCase()
+  );
+}
+
+async function buildAnnotationBlockGroup(
+  annotation: Zotero.Item,
+  options: AnnotationSectionOptions,
+): Promise<AnnotationBlockGroup> {
+  const {
+    annotationColor,
+    annotationComment,
+    annotationPageLabel,
+    annotationText,
+    annotationType,
+  } = annotation;
+  const hasText = TEXT_ANNOTATION_TYPES.has(annotationType);
+  const image =
+    annotationType === 'image'
+      ? await getAnnotationImage(annotation, options)
+      : undefined;
+  const imageURL = image?.url ?? (options.preview ? PREVIEW_IMAGE_URL : '');
+
+  const calloutRichText: RichText = [
+    ...buildRichText(hasText ? annotationText : annotationComment),
+    ...(annotationPageLabel
+      ? buildRichText(` (p. ${annotationPageLabel})`, {
+          annotations: { color: 'gray' },
+          preserveWhitespace: true,
+        })
+      : []),
+  ];
+
+  const color = getNotionBackgroundColor(annotationColor) ?? DEFAULT_COLOR;
+
+  const blocks: AnnotationBlock[] = [
+    {
+      role: 'callout',
+      block: {
+        type: 'callout',
+        callout: {
+          rich_text: calloutRichText,
+          color,
+          ...(imageURL && {
+            children: [
+              {
+                type: 'image',
+                image: { type: 'external', external: { url: imageURL } },
+              },
+            ],
+          }),
+        },
+      },
+    },
+  ];
+
+  if (hasText && annotationComment) {
+    blocks.push({
+      role: 'comment',
+      block: {
+        type: 'paragraph',
+        paragraph: { rich_text: buildRichText(annotationComment) },
+      },
+    });
+  }
+
+  const tags = annotation.getTags();
+  if (tags.length) {
+    blocks.push({
+      role: 'tags',
+      block: {
+        type: 'paragraph',
+        paragraph: {
+          rich_text: tags.flatMap(({ tag }, index) => [
+            ...(index > 0
+              ? buildRichText(' ', { preserveWhitespace: true })
+              : []),
+            ...buildRichText(`#${tag}`, { annotations: { code: true } }),
+          ]),
+        },
+      },
+    });
+  }
+
+  blocks.push({ role: 'divider', block: { type: 'divider', divider: {} } });
+
+  return { blocks, color, image, key: annotation.key };
+}
+
+/**
+ * Get the image of an image annotation, reusing the image uploaded by the last
+ * sync unless the annotation has moved since.
+ */
+async function getAnnotationImage(
+  annotation: Zotero.Item,
+  { images, preview = false }: AnnotationSectionOptions,
+): Promise<SyncedAnnotationImages[Zotero.DataObjectKey] | undefined> {
+  const position = annotation.annotationPosition;
+  const syncedImage = images?.[annotation.key];
+  if (syncedImage?.position === position) return syncedImage;
+  if (preview) return;
+
+  const url = await uploadAnnotationImage(annotation);
+  return url ? { position, url } : undefined;
+}
+
+async function uploadAnnotationImage(annotation: Zotero.Item): Promise<string> {
+  try {
+    const imagePath = Zotero.Annotations.getCacheImagePath({
+      libraryID: annotation.libraryID,
+      key: annotation.key,
+    });
+    return await uploadToImgur(imagePath);
+  } catch (error) {
+    logger.error('Failed to upload image of annotation', annotation.key, error);
+    return '';
+  }
+}
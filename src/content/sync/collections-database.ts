@@ -0,0 +1,278 @@
+import {
+  APIErrorCode,
+  type Client,
+  isFullDatabase,
+  isFullPage,
+} from '@notionhq/client';
+
+import {
+  loadCollectionPages,
+  saveCollectionPage,
+} from '../prefs/collection-pages';
+import { loadSyncEnabledCollectionIDs } from '../prefs/collection-sync-config';
+import { logger } from '../utils';
+
+import type {
+  DatabaseProperties,
+  DatabaseRequestProperties,
+} from './notion-types';
+import {
+  buildRichText,
+  isArchivedOrNotFoundError,
+  isNotionErrorWithCode,
+  normalizeID,
+} from './notion-utils';
+
+type CollectionsDatabaseSchema = {
+  /** Relation property of the database with itself that links to parents */
+  parentPropertyName?: string;
+  titlePropertyName: string;
+};
+
+const PARENT_PROPERTY_NAME_REGEX = /^parent/i;
+
+/**
+ * A Notion database with a page mirroring each sync-enabled collection, which
+ * item pages relate to. Parent collections are linked through a relation
+ * property of the database with itself, preferably one named `Parent`, so
+ * that the collection hierarchy is kept. Ancestors of sync-enabled
+ * collections are mirrored as well, so that the hierarchy has no gaps.
+ */
+export class CollectionsDatabase {
+  private readonly pageIDs = new Map<
+    Zotero.Collection['id'],
+    Promise<string | undefined>
+  >();
+  private schema?: Promise<CollectionsDatabaseSchema>;
+
+  private readonly databaseID: string;
+  private readonly notion: Client;
+  private readonly readOnly: boolean;
+
+  /**
+   * @param notion The Notion client that can access the database.
+   * @param databaseID The ID of the Collections database.
+   * @param options.readOnly Whether to only link to existing pages without
+   * creating or updating any, such as when previewing a sync.
+   */
+  public constructor(
+    notion: Client,
+    databaseID: string,
+    { readOnly = false }: { readOnly?: boolean } = {},
+  ) {
+    this.databaseID = normalizeID(databaseID);
+    this.notion = notion;
+    this.readOnly = readOnly;
+  }
+
+  /**
+   * Check whether a property of another database relates to this database.
+   */
+  public isRelationTarget(property: DatabaseProperties[string]): boolean {
+    return (
+      property.type === 'relation' &&
+      normalizeID(property.relation.database_id) === this.databaseID
+    );
+  }
+
+  /**
+   * Get the IDs of the pages of the given collections, creating or updating
+   * pages as needed. Collections that are not sync-enabled are skipped.
+   * @param collections The collections to get pages of, in order.
+   * @param limit The maximum number of pages to return.
+   * @returns The unique page IDs in the order of the collections.
+   */
+  public async getCollectionPageIDs(
+    collections: Zotero.Collection[],
+    limit: number,
+  ): Promise<string[]> {
+    const syncEnabledCollectionIDs = loadSyncEnabledCollectionIDs();
+    const pageIDs: string[] = [];
+
+    // Pages are upserted sequentially to avoid creating duplicate ancestors
+    for (const collection of collections) {
+      if (pageIDs.length >= limit) break;
+      if (!syncEnabledCollectionIDs.has(collection.id)) continue;
+
+      const pageID = await this.getCollectionPageID(collection);
+      if (pageID && !pageIDs.includes(pageID)) pageIDs.push(pageID);
+    }
+
+    return pageIDs;
+  }
+
+  /**
+   * Update the pages of collections that were renamed or moved. Collections
+   * that do not have pages are ignored.
+   */
+  public async updateCollectionPages(
+    collections: Zotero.Collection[],
+  ): Promise<void> {
+    const collectionPages = loadCollectionPages();
+
+    for (const collection of collections) {
+      if (collectionPages[collection.id]) {
+        await this.getCollectionPageID(collection);
+      }
+    }
+  }
+
+  /**
+   * Archive the pages of deleted collections and forget them.
+   * @param collectionIDs The IDs of the deleted collections.
+   */
+  public async archiveCollectionPages(
+    collectionIDs: Zotero.Collection['id'][],
+  ): Promise<void> {
+    const collectionPages = loadCollectionPages();
+
+    for (const collectionID of collectionIDs) {
+      const pageID = collectionPages[collectionID]?.pageID;
+      if (!pageID) continue;
+
+      logger.debug('Archiving page of deleted collection', pageID);
+      try {
+        await this.notion.pages.update({ page_id: pageID, archived: true });
+      } catch (error) {
+        if (!isArchivedOrNotFoundError(error)) throw error;
+      }
+      saveCollectionPage(collectionID, undefined);
+    }
+  }
+
+  private getCollectionPageID(
+    collection: Zotero.Collection,
+  ): Promise<string | undefined> {
+    let pageID = this.pageIDs.get(collection.id);
+
+    if (!pageID) {
+      pageID = this.upsertCollectionPage(collection);
+      this.pageIDs.set(collection.id, pageID);
+    }
+
+    return pageID;
+  }
+
+  /**
+   * Create or update the page of a collection. Pages whose name and parent
+   * have not changed since they were last sent are not updated.
+   */
+  private async upsertCollectionPage(
+    collection: Zotero.Collection,
+  ): Promise<string | undefined> {
+    const existingPage = loadCollectionPages()[collection.id];
+    if (this.readOnly) return existingPage?.pageID;
+
+    const parentCollection =
+      collection.parentID && Zotero.Collections.get(collection.parentID);
+    const parentPageID = parentCollection
+      ? await this.getCollectionPageID(parentCollection)
+      : undefined;
+
+    if (
+      existingPage?.databaseID === this.databaseID &&
+      existingPage.name === collection.name &&
+      existingPage.parentPageID === parentPageID
+    ) {
+      return existingPage.pageID;
+    }
+
+    const schema = await this.getSchema();
+    const properties: DatabaseRequestProperties = {
+      [schema.titlePropertyName]: { title: buildRichText(collection.name) },
+    };
+    if (schema.parentPropertyName) {
+      properties[schema.parentPropertyName] = {
+        relation: parentPageID ? [{ id: parentPageID }] : [],
+      };
+    }
+
+    const savePage = (pageID: string) => {
+      saveCollectionPage(collection.id, {
+        databaseID: this.databaseID,
+        name: collection.name,
+        pageID,
+        parentPageID,
+      });
+      return pageID;
+    };
+
+    if (existingPage) {
+      const pageID = await this.updatePage(existingPage.pageID, properties);
+      if (pageID) return savePage(pageID);
+    }
+
+    logger.debug('Creating page for collection', collection.name);
+    const response = await this.notion.pages.create({
+      parent: { database_id: this.databaseID },
+      properties,
+    });
+    return savePage(response.id);
+  }
+
+  /**
+   * Update an existing page of a collection.
+   * @returns The ID of the page, or `undefined` if the page no longer exists
+   * in this database, such as when a different database was chosen.
+   */
+  private async updatePage(
+    pageID: string,
+    properties: DatabaseRequestProperties,
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.notion.pages.update({
+        page_id: pageID,
+        properties,
+      });
+      const isInDatabase =
+        isFullPage(response) &&
+        response.parent.type === 'database_id' &&
+        normalizeID(response.parent.database_id) === this.databaseID;
+
+      return isInDatabase ? response.id : undefined;
+    } catch (error) {
+      // Properties of a page in a different database may not match
+      if (
+        isArchivedOrNotFoundError(error) ||
+        isNotionErrorWithCode(error, APIErrorCode.ValidationError)
+      ) {
+        logger.debug('Replacing page of collection that was not found', pageID);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private getSchema(): Promise<CollectionsDatabaseSchema> {
+    if (!this.schema) {
+      this.schema = this.retrieveSchema();
+    }
+    return this.schema;
+  }
+
+  private async retrieveSchema(): Promise<CollectionsDatabaseSchema> {
+    const database = await this.notion.databases.retrieve({
+      database_id: this.databaseID,
+    });
+    if (!isFullDatabase(database)) {
+      throw new Error(
+        `Collections database is not accessible: ${this.databaseID}`,
+      );
+    }
+
+    const properties = Object.values(database.properties);
+    const titleProperty = properties.find(({ type }) => type === 'title');
+    const parentProperties = properties.filter((property) =>
+      this.isRelationTarget(property),
+    );
+    const parentProperty =
+      parentProperties.find(({ name }) =>
+        PARENT_PROPERTY_NAME_REGEX.test(name),
+      ) ?? parentProperties[0];
+
+    return {
+      ...(parentProperty && { parentPropertyName: parentProperty.name }),
+      titlePropertyName: titleProperty?.name ?? 'Name',
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import type { Client } from '@notionhq/client';
+
+import {
+  ComputedValue,
+  type PropertyMapping,
+  type PropertySource,
+} from '../prefs/property-mappings';
+
+import type {
+  DatabaseProperties,
+  DatabasePropertyConfigRequest,
+} from './notion-types';
+import { sanitizeSelectOption } from './property-coercion';
+import {
+  getPropertySourceType,
+  resolvePropertyMappings,
+} from './property-mapping';
+
+export type DatabaseSchema = Record<string, DatabasePropertyConfigRequest>;
+
+/** Name of the title property of databases created by Notero */
+const TITLE_PROPERTY_NAME = 'Name';
+
+/** Item types that are never synced as Notion pages */
+const EXCLUDED_ITEM_TYPES = ['annotation', 'attachment', 'note'];
+
+/**
+ * Build the configs of the Notion properties that property mappings sync to.
+ * Only the first mapping to each property is included. Relation properties
+ * relate to the database itself, so they are only included when its ID is
+ * given.
+ */
+export function buildDatabaseSchema(
+  mappings: readonly PropertyMapping[],
+  databaseID?: string,
+): DatabaseSchema {
+  return mappings.reduce<DatabaseSchema>((schema, { propertyName, source }) => {
+    if (propertyName in schema) return schema;
+
+    const config = buildPropertyConfig(source, databaseID);
+    return config ? { ...schema, [propertyName]: config } : schema;
+  }, {});
+}
+
+/**
+ * Return the configs of the properties that property mappings sync to but
+ * that do not exist in a Notion database. Properties that exist with a
+ * different type are not included, so that existing properties are never
+ * changed.
+ */
+export function getMissingProperties(
+  mappings: readonly PropertyMapping[],
+  databaseID: string,
+  databaseProperties: DatabaseProperties,
+): DatabaseSchema {
+  const missingMappings = resolvePropertyMappings(
+    mappings,
+    databaseID,
+    databaseProperties,
+  )
+    .filter(({ status }) => status === 'missingProperty')
+    .map(({ mapping }) => mapping);
+
+  return buildDatabaseSchema(missingMappings, databaseID);
+}
+
+/**
+ * Add properties to a Notion database. Existing properties are left as is.
+ */
+export async function addDatabaseProperties(
+  notion: Client,
+  databaseID: string,
+  schema: DatabaseSchema,
+): Promise<void> {
+  await notion.databases.update({
+    database_id: databaseID,
+    properties: schema,
+  });
+}
+
+/**
+ * Create a Notion database with a title property and the properties that
+ * property mappings sync to. Relation properties are added once the database
+ * exists, as they relate to the database itself.
+ * @param notion A Notion client that can access the parent page.
+ * @param parentPageID The ID of the page to create the database in.
+ * @param title The title of the database.
+ * @param mappings The property mappings to build the properties from.
+ * @returns The ID of the created database.
+ */
+export async function createDatabase(
+  notion: Client,
+  parentPageID: string,
+  title: string,
+  mappings: readonly PropertyMapping[],
+): Promise<string> {
+  const propertyMappings = mappings.filter(
+    ({ propertyName }) => propertyName !== TITLE_PROPERTY_NAME,
+  );
+  const schema = buildDatabaseSchema(propertyMappings);
+
+  const response = await notion.databases.create({
+    parent: { type: 'page_id', page_id: parentPageID },
+    title: [{ text: { content: title } }],
+    properties: {
+      [TITLE_PROPERTY_NAME]: { title: {} },
+      ...schema,
+    },
+  });
+
+  const relationSchema = buildDatabaseSchema(
+    propertyMappings.filter(({ propertyName }) => !(propertyName in schema)),
+    response.id,
+  );
+  if (Object.keys(relationSchema).length) {
+    await addDatabaseProperties(notion, response.id, relationSchema);
+  }
+
+  return response.id;
+}
+
+function buildPropertyConfig(
+  source: PropertySource,
+  databaseID: string | undefined,
+): DatabasePropertyConfigRequest | undefined {
+  switch (getPropertySourceType(source)) {
+    case 'date':
+      return { date: {} };
+    case 'multi_select':
+      return { multi_select: { options: [] } };
+    case 'number':
+      return { number: { format: 'number' } };
+    case 'relation':
+      return databaseID
+        ? {
+            relation: {
+              database_id: databaseID,
+              type: 'single_property',
+              single_property: {},
+            },
+          }
+        : undefined;
+    case 'rich_text':
+      return { rich_text: {} };
+    case 'select':
+      return {
+        select: {
+          options:
+            source === ComputedValue.itemType ? buildItemTypeOptions() : [],
+        },
+      };
+    case 'url':
+      return { url: {} };
+  }
+}
+
+function buildItemTypeOptions(): { name: string }[] {
+  return Zotero.ItemTypes.getTypes()
+    .filter(({ name }) => !EXCLUDED_ITEM_TYPES.includes(name))
+    .map(({ id }) => ({
+      name: sanitizeSelectOption(Zotero.ItemTypes.getLocalizedString(id)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import type { Color } from '../../notion-types';
-import { getNotionColor } from '../annotations';
+import { getNotionBackgroundColor, getNotionColor } from '../annotations';
 
 type Hex = `#${string}`;
 
@@ -114,3 +114,13 @@ describe('getNotionColor', () => {
     });
   });
 });
+
+describe('getNotionBackgroundColor', () => {
+  it('returns undefined when color is not hex', () => {
+    expect(getNotionBackgroundColor('yellow')).toBeUndefined();
+  });
+
+  it.each(zoteroBackgroundColors)('%s returns %s', (hex, expected) => {
+    expect(getNotionBackgroundColor(hex)).toBe(expected);
+  });
+});
@@ -92,6 +92,28 @@ function getRGBFromStyleString(color: string): RGB | undefined {
   return [r, g, b];
 }
 
+function getRGBFromHexString(color: string): RGB | undefined {
+  const matches = color.match(/^#([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i);
+
+  if (!matches) return;
+
+  const [, r = '', g = '', b = ''] = matches;
+
+  return [parseInt(r, 16), parseInt(g, 16), parseInt(b, 16)];
+}
+
+/**
+ * Return the Notion background color closest to a hex color, such as the
+ * `#ffd400` color of a Zotero annotation.
+ */
+export function getNotionBackgroundColor(hexColor: string): Color {
+  const rgb = getRGBFromHexString(hexColor);
+
+  if (rgb) {
+    return getClosestNotionColor(rgb, BACKGROUND_COLORS);
+  }
+}
+
 export function getNotionColor(element: HTMLElement): Color {
   const { backgroundColor, color } = element.style;
 
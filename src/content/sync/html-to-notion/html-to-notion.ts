@@ -1,4 +1,4 @@
-import { keyValue } from '../../utils';
+import { keyValue, logger } from '../../utils';
 import {
   ChildBlock,
   ParagraphBlock,
@@ -29,18 +29,9 @@ import {
   ParsedNode,
   parseNode,
 } from './parse-node';
-import { logger } from '../../utils';
-import { uploadToImgur } from '../../utils/imgur';
-import { getAnnotations, getNotionColor } from './annotations';
-
-export async function convertHtmlToBlocks(
-  html: string,
-  options: { isAnnotation?: boolean } = {},
-): Promise<BlockObjectRequest[]> {
-  const { isAnnotation = false } = options;
-  
+
+export function convertHtmlToBlocks(html: string): BlockObjectRequest[] {
   logger.debug("=== CONVERTING HTML TO BLOCKS ===");
-  logger.debug("Is Annotation (from options): " + isAnnotation);
   logger.debug("HTML: " + html);
 
   const doc = parseHTML(html);
@@ -61,23 +52,15 @@ export async function convertHtmlToBlocks(
   }
 
   // Process each paragraph and flatten the results
-  const results = await Promise.all(
-    Array.from(paragraphs)
-      .map(async (element) => {
-        const parsedNode = parseNode(element);
-        if (!parsedNode) {
-          return;
-        }
+  const results = Array.from(paragraphs)
+    .map((element) => {
+      const parsedNode = parseNode(element);
+      if (!parsedNode) {
+        return;
+      }
 
-        const result = await convertNode(parsedNode, { isAnnotation });
-        if (isAnnotation && 
-            result?.type === 'paragraph' && 
-            result.paragraph.children) {
-          return result.paragraph.children;
-        }
-        return result;
-      })
-  );
+      return convertNode(parsedNode, {});
+    });
 
   return results.filter(Boolean).flat();
 }
@@ -110,14 +93,13 @@ function createEmptyAnnotation(): BlockObjectRequest[] {
   ];
 }
 
-async function convertNode(
+function convertNode(
   node: ParsedNode,
-  options: RichTextOptions & { isAnnotation?: boolean },
-): Promise<BlockObjectRequest | undefined> {
+  options: RichTextOptions,
+): BlockObjectRequest | undefined {
   switch (node.type) {
     case 'block':
-      const result = await convertBlockElement(node, options);
-      return result.block;
+      return convertBlockElement(node, options).block;
     case 'list':
       return convertListElement(node, options).block;
     default:
@@ -178,177 +160,12 @@ function convertParentElement(
   );
 }
 
-async function convertBlockElement(
+function convertBlockElement(
   { annotations, blockType, color, element }: BlockElement,
-  options: RichTextOptions & { isAnnotation?: boolean },
-): Promise<BlockResult> {
-  const { isAnnotation = false } = options;
-  
+  options: RichTextOptions,
+): BlockResult {
   logger.debug(`Converting block element: ${element.tagName}`);
-  
-  if (isAnnotation && element.tagName === 'P') {
-    logger.debug("Processing annotation paragraph");
-    const highlightSpan = element.querySelector('.highlight');
-    const image = element.querySelector('img');
-    
-    logger.debug(`Found highlight: ${!!highlightSpan}, image: ${!!image}`);
-    
-    if (highlightSpan || image) {
-      let blocks: ChildBlock[] = [];
-      
-      if (image) {
-        try {
-          const annotationData = JSON.parse(decodeURIComponent(image.getAttribute('data-annotation') || '{}'));
-          const annotationKey = annotationData.annotationKey;
-          const color = annotationData.color;
-          logger.debug('Annotation data:', { annotationKey, color });
-
-          // Extract comment (text after citation)
-          const citationSpan = element.querySelector('.citation');
-          let comment = '';
-          if (citationSpan) {
-            const nextSibling = citationSpan.nextSibling;
-            if (nextSibling) {
-              comment = nextSibling.textContent?.trim() || '';
-            }
-          }
-          logger.debug('Extracted comment:', comment);
-
-          // Construct image path directly
-          const imagePath = '/Users/suwonyoon/Library/Application Support/Zotero/Profiles/o576o2ld.dev/zotero/cache/library/' + 
-                          `${annotationKey}.png`;
-          logger.debug('Image path:', imagePath);
-
-          // Upload to Imgur
-          const imgurUrl = await uploadToImgur(imagePath);
-          logger.debug('Imgur URL:', imgurUrl);
-
-          // Convert hex color to Notion color
-          const notionColor = getNotionColorFromHex(color);
-
-          blocks = [
-            {
-              type: 'callout',
-              callout: {
-                rich_text: [{
-                  type: 'text',
-                  text: { content: comment }
-                }],
-                color: notionColor || 'yellow_background',
-                children: [
-                  {
-                    type: 'image',
-                    image: {
-                      type: 'external',
-                      external: {
-                        url: imgurUrl
-                      }
-                    }
-                  }
-                ]
-              }
-            },
-            {
-              type: 'divider',
-              divider: {}
-            }
-          ];
-        } catch (error) {
-          logger.error('Error processing image annotation:', error);
-          blocks = createFillerBlocks();
-        }
-      } else if (highlightSpan) {
-        // Get the inner span with the background color
-        const colorSpan = highlightSpan.querySelector('span');
-        logger.debug('Color spans:', {
-          highlight: highlightSpan.outerHTML,
-          inner: colorSpan?.outerHTML
-        });
-        
-        // Use the color span if it exists, otherwise use the highlight span
-        const notionColor = getNotionColor(colorSpan || highlightSpan);
-        logger.debug('Extracted color info:', {
-          computedColor: notionColor
-        });
-        
-        const rawText = colorSpan?.textContent || highlightSpan.textContent || '';
-        const highlightedText = rawText.slice(1, -1).trim();
-        
-        logger.debug("Highlight text:", {
-          raw: rawText,
-          processed: highlightedText,
-          notionColor
-        });
-        
-        // Get the remaining text after the citation
-        const citationSpan = element.querySelector('.citation');
-        let remainingText = '';
-        if (citationSpan) {
-          const nextSibling = citationSpan.nextSibling;
-          if (nextSibling) {
-            remainingText = nextSibling.textContent || '';
-          }
-        }
-        
-        logger.debug("Citation and remaining text:", {
-          citation: citationSpan?.textContent,
-          remaining: remainingText
-        });
-        
-        // Split into comment and tags
-        const [comment, ...tagParts] = remainingText.trim().split(/#/);
-        
-        // Format tags with code annotation
-        const formattedTags = tagParts.map(tag => ({
-          type: 'text',
-          text: { content: '#' + tag.trim() },
-          annotations: { code: true }
-        }));
-
-        blocks = [
-          {
-            type: 'callout',
-            callout: {
-              rich_text: [{
-                type: 'text',
-                text: { content: highlightedText }
-              }],
-              color: notionColor || 'yellow_background'
-            }
-          },
-          {
-            type: 'paragraph',
-            paragraph: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: { content: comment.trim() + '\n' }
-                },
-                ...formattedTags.flatMap((tag, index) => [
-                  tag,
-                  { type: 'text', text: { content: ' ' } }
-                ]).slice(0, -1)
-              ]
-            }
-          },
-          {
-            type: 'divider',
-            divider: {}
-          }
-        ];
-      }
 
-      logger.debug("Created blocks count:", blocks.length);
-      return blockResult({
-        type: 'paragraph',
-        paragraph: {
-          rich_text: [],
-          children: blocks
-        }
-      });
-    }
-  }
-  
   logger.debug("Processing as regular block");
   // Default handling for non-annotation blocks
   const updatedOptions = {
@@ -512,59 +329,3 @@ function trimRichText(richText: RichText): RichText {
 
   return [...first, ...middle, ...last];
 }
-
-// Updated color mapping function
-function getNotionColorFromHex(hexColor: string): string {
-  // Simple mapping of hex colors to Notion colors
-  const colorMap: Record<string, string> = {
-    '#ffd400': 'yellow_background',
-    '#ff6666': 'red_background',
-    '#ffb437': 'orange_background',
-    '#5ff036': 'green_background',
-    '#50c8e5': 'blue_background',
-    '#a28ae5': 'purple_background',
-    '#e56eee': 'pink_background',
-    '#aaaaaa': 'gray_background',
-    // Add RGB format support
-    'rgb(255, 212, 0)': 'yellow_background',
-    'rgb(255, 102, 102)': 'red_background',
-    'rgb(255, 180, 55)': 'orange_background',
-    'rgb(95, 240, 54)': 'green_background',
-    'rgb(80, 200, 229)': 'blue_background',
-    'rgb(162, 138, 229)': 'purple_background',
-    'rgb(229, 110, 238)': 'pink_background',
-    'rgb(170, 170, 170)': 'gray_background'
-  };
-
-  // Normalize the color value
-  const normalizedColor = hexColor.toLowerCase().trim();
-  return colorMap[normalizedColor] || 'yellow_background';
-}
-
-function createFillerBlocks(): ChildBlock[] {
-  return [
-    {
-      type: 'callout',
-      callout: {
-        rich_text: [{
-          type: 'text',
-          text: { content: 'Filler' }
-        }],
-        color: 'yellow_background'
-      }
-    },
-    {
-      type: 'paragraph',
-      paragraph: {
-        rich_text: [{
-          type: 'text',
-          text: { content: 'Filler' }
-        }]
-      }
-    },
-    {
-      type: 'divider',
-      divider: {}
-    }
-  ];
-}
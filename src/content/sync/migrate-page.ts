@@ -0,0 +1,390 @@
+import { type Client, isFullBlock } from '@notionhq/client';
+import type {
+  BlockObjectRequest,
+  BlockObjectResponse,
+  CreatePageResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+
+import type {
+  SyncedAnnotations,
+  SyncedBlock,
+  SyncedNotes,
+} from '../data/item-data';
+import { logger } from '../utils';
+
+import { LIMITS } from './notion-limits';
+import type { DatabaseRequestProperties } from './notion-types';
+import { normalizeID } from './notion-utils';
+
+/**
+ * Blocks that cannot be created through the Notion API
+ */
+const UNSUPPORTED_BLOCK_TYPES = new Set<BlockObjectResponse['type']>([
+  'child_database',
+  'child_page',
+  'link_preview',
+  'template',
+  'unsupported',
+]);
+
+/**
+ * Blocks whose files are hosted by Notion cannot be recreated, as the API only
+ * accepts external files
+ */
+const FILE_BLOCK_TYPES = new Set<BlockObjectResponse['type']>([
+  'audio',
+  'file',
+  'image',
+  'pdf',
+  'video',
+]);
+
+/**
+ * Blocks that must be created along with their children
+ */
+const INLINE_CHILDREN_BLOCK_TYPES = new Set<BlockObjectResponse['type']>([
+  'column',
+  'column_list',
+  'synced_block',
+  'table',
+]);
+
+export type MigratedPage = {
+  response: CreatePageResponse;
+  syncedNotes: SyncedNotes;
+};
+
+type CopyState = {
+  /** IDs of copied blocks, by the normalized ID of their source block */
+  blockIDs: Map<string, string>;
+  /**
+   * Children of blocks that are created along with their children, by the ID
+   * of their source block, so that they are only listed once
+   */
+  inlineChildren: Map<string, BlockObjectResponse[]>;
+  /** Blocks of the old page that could not be copied */
+  skippedBlocks: BlockObjectResponse[];
+};
+
+/**
+ * Move a page into a different database by creating a new page with the given
+ * properties, copying the body of the old page into it, and archiving the old
+ * page. If any blocks could not be copied, the old page is kept so that their
+ * content is not lost. If copying fails, the new page is archived so that the
+ * item is not left with a duplicate page.
+ *
+ * Copying the body includes the "Zotero Notes" container block, so the block
+ * IDs in the synced notes of the old page are mapped to the IDs of the copied
+ * blocks. This allows notes to continue updating their existing blocks rather
+ * than being created again. Notes with blocks that were not all copied keep
+ * their note block, but have its children recreated on the next sync.
+ *
+ * @param notion an initialized Notion `Client` instance
+ * @param oldPageID the ID of the page to migrate
+ * @param databaseID the ID of the database to migrate the page into
+ * @param properties the properties of the new page
+ * @param syncedNotes the synced notes of the old page
+ * @returns the new page and its synced notes
+ */
+export async function migratePage(
+  notion: Client,
+  oldPageID: string,
+  databaseID: string,
+  properties: DatabaseRequestProperties,
+  syncedNotes: SyncedNotes,
+): Promise<MigratedPage> {
+  logger.debug('Migrating page', oldPageID, 'to database', databaseID);
+
+  const response = await notion.pages.create({
+    parent: { database_id: databaseID },
+    properties,
+  });
+
+  const state: CopyState = {
+    blockIDs: new Map(),
+    inlineChildren: new Map(),
+    skippedBlocks: [],
+  };
+
+  try {
+    await copyChildBlocks(notion, oldPageID, response.id, state);
+  } catch (error) {
+    await archiveIncompletePage(notion, response.id);
+    throw error;
+  }
+
+  if (state.skippedBlocks.length) {
+    logger.warn(
+      'Keeping old page',
+      oldPageID,
+      'as some blocks could not be copied',
+      state.skippedBlocks.map(({ id }) => id),
+    );
+  } else {
+    await notion.pages.update({ page_id: oldPageID, archived: true });
+  }
+
+  return {
+    response,
+    syncedNotes: mapSyncedNotes(syncedNotes, state.blockIDs),
+  };
+}
+
+async function archiveIncompletePage(
+  notion: Client,
+  pageID: string,
+): Promise<void> {
+  try {
+    await notion.pages.update({ page_id: pageID, archived: true });
+  } catch (error) {
+    logger.error('Failed to archive incompletely migrated page', pageID, error);
+  }
+}
+
+function mapSyncedNotes(
+  { containerBlockID, notes }: SyncedNotes,
+  blockIDs: Map<string, string>,
+): SyncedNotes {
+  const mapBlockID = (blockID: string) => blockIDs.get(normalizeID(blockID));
+
+  const newContainerBlockID = containerBlockID && mapBlockID(containerBlockID);
+  if (!newContainerBlockID) return {};
+
+  const newNotes: Required<SyncedNotes>['notes'] = {};
+
+  Object.entries(notes ?? {}).forEach(([key, note]) => {
+    const blockID = mapBlockID(note.blockID);
+    if (!blockID) return;
+
+    const { annotations, blocks, ...rest } = note;
+    const newBlocks = blocks && mapSyncedBlocks(blocks, mapBlockID);
+    // Blocks of annotations are only kept along with the blocks they are in
+    const newAnnotations =
+      newBlocks && annotations && mapSyncedAnnotations(annotations, mapBlockID);
+    newNotes[key] = {
+      ...rest,
+      blockID,
+      ...(newAnnotations && { annotations: newAnnotations }),
+      ...(newBlocks && { blocks: newBlocks }),
+    };
+  });
+
+  return { containerBlockID: newContainerBlockID, notes: newNotes };
+}
+
+/**
+ * Map the IDs of synced blocks and their children to the IDs of the copied
+ * blocks.
+ * @returns The mapped blocks, or `undefined` if any block was not copied.
+ */
+function mapSyncedBlocks(
+  blocks: SyncedBlock[],
+  mapBlockID: (blockID: string) => string | undefined,
+): SyncedBlock[] | undefined {
+  const newBlocks: SyncedBlock[] = [];
+
+  for (const { children, ...block } of blocks) {
+    const id = mapBlockID(block.id);
+    if (!id) return undefined;
+
+    const newChildren = children && mapSyncedBlocks(children, mapBlockID);
+    if (children && !newChildren) return undefined;
+
+    newBlocks.push({
+      ...block,
+      id,
+      ...(newChildren && { children: newChildren }),
+    });
+  }
+
+  return newBlocks;
+}
+
+/**
+ * Map the IDs of the blocks of each annotation to the IDs of the copied blocks.
+ * @returns The mapped annotations, or `undefined` if any block was not copied.
+ */
+function mapSyncedAnnotations(
+  annotations: SyncedAnnotations,
+  mapBlockID: (blockID: string) => string | undefined,
+): SyncedAnnotations | undefined {
+  const newAnnotations: SyncedAnnotations = {};
+
+  for (const [annotationKey, blockIDs] of Object.entries(annotations)) {
+    newAnnotations[annotationKey] = {};
+
+    for (const [role, blockID] of Object.entries(blockIDs)) {
+      const newBlockID = mapBlockID(blockID);
+      if (!newBlockID) return undefined;
+
+      newAnnotations[annotationKey][role] = newBlockID;
+    }
+  }
+
+  return newAnnotations;
+}
+
+async function copyChildBlocks(
+  notion: Client,
+  sourceParentID: string,
+  targetParentID: string,
+  state: CopyState,
+): Promise<void> {
+  const sourceBlocks = await listCopyableChildBlocks(
+    notion,
+    sourceParentID,
+    state,
+  );
+
+  for (
+    let start = 0;
+    start < sourceBlocks.length;
+    start += LIMITS.BLOCK_ARRAY_ELEMENTS
+  ) {
+    const batch = sourceBlocks.slice(
+      start,
+      start + LIMITS.BLOCK_ARRAY_ELEMENTS,
+    );
+    const children: BlockObjectRequest[] = [];
+
+    for (const block of batch) {
+      children.push(await buildBlockRequest(notion, block, state));
+    }
+
+    const { results } = await notion.blocks.children.append({
+      block_id: targetParentID,
+      children,
+    });
+
+    await copyNestedBlocks(notion, batch, results, state);
+  }
+}
+
+/**
+ * Record the IDs of copied blocks and copy any of their children that were
+ * not created along with them.
+ */
+async function copyNestedBlocks(
+  notion: Client,
+  sourceBlocks: BlockObjectResponse[],
+  copiedBlocks: { id: string }[],
+  state: CopyState,
+): Promise<void> {
+  for (const [index, sourceBlock] of sourceBlocks.entries()) {
+    const copiedBlock = copiedBlocks[index];
+    if (!copiedBlock) continue;
+
+    state.blockIDs.set(normalizeID(sourceBlock.id), copiedBlock.id);
+
+    if (!sourceBlock.has_children || isSyncedBlockReference(sourceBlock)) {
+      continue;
+    }
+
+    if (INLINE_CHILDREN_BLOCK_TYPES.has(sourceBlock.type)) {
+      const sourceChildren = state.inlineChildren.get(sourceBlock.id) ?? [];
+      const copiedChildren = await listChildBlocks(notion, copiedBlock.id);
+      await copyNestedBlocks(notion, sourceChildren, copiedChildren, state);
+    } else {
+      await copyChildBlocks(notion, sourceBlock.id, copiedBlock.id, state);
+    }
+  }
+}
+
+async function buildBlockRequest(
+  notion: Client,
+  block: BlockObjectResponse,
+  state: CopyState,
+): Promise<BlockObjectRequest> {
+  const content = {
+    ...(getBlockContent(block) as Record<string, unknown>),
+  };
+
+  if (
+    block.has_children &&
+    INLINE_CHILDREN_BLOCK_TYPES.has(block.type) &&
+    !isSyncedBlockReference(block)
+  ) {
+    const sourceChildren = await listCopyableChildBlocks(
+      notion,
+      block.id,
+      state,
+    );
+    const children: BlockObjectRequest[] = [];
+
+    for (const child of sourceChildren) {
+      children.push(await buildBlockRequest(notion, child, state));
+    }
+
+    state.inlineChildren.set(block.id, sourceChildren);
+    content.children = children;
+  }
+
+  // Block content in responses is accepted as-is in requests
+  return {
+    type: block.type,
+    [block.type]: content,
+  } as unknown as BlockObjectRequest;
+}
+
+/**
+ * Whether a block is a synced block whose content comes from another block,
+ * in which case its children belong to the original block
+ */
+function isSyncedBlockReference(block: BlockObjectResponse): boolean {
+  return (
+    block.type === 'synced_block' && block.synced_block.synced_from !== null
+  );
+}
+
+function getBlockContent(block: BlockObjectResponse): unknown {
+  return (block as unknown as Record<string, unknown>)[block.type];
+}
+
+function isCopyableBlock(block: BlockObjectResponse): boolean {
+  if (UNSUPPORTED_BLOCK_TYPES.has(block.type)) {
+    logger.warn('Cannot copy block of type', block.type, block.id);
+    return false;
+  }
+
+  if (FILE_BLOCK_TYPES.has(block.type)) {
+    const content = getBlockContent(block) as { type?: string };
+    if (content.type !== 'external') {
+      logger.warn('Cannot copy block with Notion-hosted file', block.id);
+      return false;
+    }
+  }
+
+  return true;
+}
+
+async function listCopyableChildBlocks(
+  notion: Client,
+  blockID: string,
+  state: CopyState,
+): Promise<BlockObjectResponse[]> {
+  const blocks = await listChildBlocks(notion, blockID);
+  return blocks.filter((block) => {
+    if (isCopyableBlock(block)) return true;
+    state.skippedBlocks.push(block);
+    return false;
+  });
+}
+
+async function listChildBlocks(
+  notion: Client,
+  blockID: string,
+): Promise<BlockObjectResponse[]> {
+  const blocks: BlockObjectResponse[] = [];
+  let startCursor: string | undefined;
+
+  do {
+    const response = await notion.blocks.children.list({
+      block_id: blockID,
+      start_cursor: startCursor,
+    });
+    blocks.push(...response.results.filter(isFullBlock));
+    startCursor = response.next_cursor ?? undefined;
+  } while (startCursor);
+
+  return blocks;
+}
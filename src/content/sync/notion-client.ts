@@ -2,16 +2,32 @@ import { Client, Logger, LogLevel } from '@notionhq/client';
 
 import { logger } from '../utils';
 
+import { createNotionFetch, type NotionFetchOptions } from './notion-fetch';
+
+/**
+ * Requests can spend a while waiting to be retried, so allow more time than
+ * the default of 60 seconds before the client gives up on a request.
+ */
+const REQUEST_TIMEOUT_MS = 3 * 60_000;
+
 const notionLogger: Logger = (level, message, extraInfo) => {
   level = level === LogLevel.INFO ? LogLevel.DEBUG : level;
   logger[level](message, extraInfo);
 };
 
-export function getNotionClient(authToken: string, window: Window) {
+export function getNotionClient(
+  authToken: string,
+  window: Window,
+  fetchOptions?: Pick<NotionFetchOptions, 'onRetry'>,
+) {
   return new Client({
     auth: authToken,
-    fetch: window.fetch.bind(window),
+    fetch: createNotionFetch(window.fetch.bind(window), {
+      sleep: (ms) => new Promise((resolve) => window.setTimeout(resolve, ms)),
+      ...fetchOptions,
+    }),
     logger: notionLogger,
     logLevel: LogLevel.DEBUG,
+    timeoutMs: REQUEST_TIMEOUT_MS,
   });
 }
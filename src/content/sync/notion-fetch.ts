@@ -0,0 +1,168 @@
+import type {
+  SupportedFetch,
+  SupportedRequestInit,
+  SupportedResponse,
+} from '@notionhq/client/build/src/fetch-types';
+
+import { isObject, logger } from '../utils';
+
+/**
+ * Notion allows an average of three requests per second.
+ * @see https://developers.notion.com/reference/request-limits#rate-limits
+ */
+const MIN_REQUEST_INTERVAL_MS = Math.ceil(1000 / 3);
+
+const DEFAULT_MAX_RETRIES = 5;
+
+const BACKOFF_BASE_MS = 1000;
+
+const BACKOFF_MAX_MS = 30_000;
+
+const RATE_LIMITED_STATUS = 429;
+
+const TRANSIENT_ERROR_STATUSES = new Set([500, 502, 503, 504]);
+
+export type RetryInfo = {
+  /** The retry attempt about to be made, starting at 1 */
+  attempt: number;
+  /** How long until the retry is made */
+  delayMs: number;
+  maxRetries: number;
+  /** HTTP status of the response that triggered the retry */
+  status: number;
+};
+
+export type NotionFetchOptions = {
+  maxRetries?: number;
+  minRequestIntervalMs?: number;
+  now?: () => number;
+  onRetry?: (info: RetryInfo) => void;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wrap a `fetch` function so that requests made through it:
+ * - Are spaced out to stay within Notion's average rate limit
+ * - Are retried after the `Retry-After` delay when rate limited (HTTP 429)
+ * - Are retried with exponential backoff upon transient server errors, as
+ *   long as the request is safe to repeat
+ *
+ * When retries are exhausted, the last response is returned so that the
+ * Notion client can raise the appropriate error.
+ */
+export function createNotionFetch(
+  fetch: SupportedFetch,
+  {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    minRequestIntervalMs = MIN_REQUEST_INTERVAL_MS,
+    now = Date.now,
+    onRetry,
+    sleep = defaultSleep,
+  }: NotionFetchOptions = {},
+): SupportedFetch {
+  let nextRequestTime = 0;
+
+  async function throttle(): Promise<void> {
+    const currentTime = now();
+    const requestTime = Math.max(currentTime, nextRequestTime);
+    nextRequestTime = requestTime + minRequestIntervalMs;
+
+    if (requestTime > currentTime) {
+      await sleep(requestTime - currentTime);
+    }
+  }
+
+  return async (url, init) => {
+    let attempt = 0;
+
+    for (;;) {
+      await throttle();
+
+      const response = await fetch(url, init);
+
+      const delayMs = getRetryDelay(response, url, init, attempt);
+      if (delayMs === null || attempt >= maxRetries) return response;
+
+      attempt += 1;
+
+      logger.warn(
+        `Notion responded with status ${response.status}; retry ${attempt} of ${maxRetries} in ${delayMs} ms`,
+      );
+      onRetry?.({ attempt, delayMs, maxRetries, status: response.status });
+
+      await sleep(delayMs);
+    }
+  };
+}
+
+/**
+ * Return the number of milliseconds to wait before retrying the request, or
+ * `null` if the request should not be retried.
+ */
+function getRetryDelay(
+  response: SupportedResponse,
+  url: string,
+  init: SupportedRequestInit | undefined,
+  attempt: number,
+): number | null {
+  if (response.status === RATE_LIMITED_STATUS) {
+    return getRetryAfterDelay(response) ?? getBackoffDelay(attempt);
+  }
+
+  if (
+    TRANSIENT_ERROR_STATUSES.has(response.status) &&
+    isIdempotentRequest(url, init?.method)
+  ) {
+    return getBackoffDelay(attempt);
+  }
+
+  return null;
+}
+
+function getBackoffDelay(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+}
+
+function getRetryAfterDelay(response: SupportedResponse): number | null {
+  const { headers } = response;
+
+  if (!isHeaders(headers)) return null;
+
+  const value = headers.get('Retry-After');
+  if (value === null) return null;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) return null;
+
+  return Math.ceil(seconds * 1000);
+}
+
+function isHeaders(value: unknown): value is Pick<Headers, 'get'> {
+  return isObject(value) && typeof value.get === 'function';
+}
+
+/**
+ * Determine whether repeating a request cannot create duplicate content.
+ *
+ * Most `POST` and `PATCH` requests are safe to repeat, except for those that
+ * create pages, databases, comments, or append block children.
+ */
+export function isIdempotentRequest(url: string, method = 'GET'): boolean {
+  const { pathname } = new URL(url);
+
+  switch (method.toUpperCase()) {
+    case 'GET':
+    case 'DELETE':
+      return true;
+    case 'PATCH':
+      return !/\/blocks\/[^/]+\/children\/?$/.test(pathname);
+    case 'POST':
+      return /\/(databases\/[^/]+\/query|search)\/?$/.test(pathname);
+    default:
+      return false;
+  }
+}
@@ -1,5 +1,6 @@
 import type {
   BlockObjectRequest,
+  CreateDatabaseParameters,
   CreatePageParameters,
   DatabaseObjectResponse,
   PageObjectResponse,
@@ -88,6 +89,9 @@ export type DatabasePropertyConfig<T extends RequestPropertyType> = Extract<
   { type: T }
 >;
 
+export type DatabasePropertyConfigRequest =
+  CreateDatabaseParameters['properties'][string];
+
 export type DatabaseRequestProperties = CreatePageParameters['properties'];
 
 export type DatabaseRequestProperty = Extract<
@@ -1,9 +1,16 @@
 import { APIErrorCode } from '@notionhq/client';
-import { APIResponseError } from '@notionhq/client/build/src/errors';
+import {
+  APIResponseError,
+  RequestTimeoutError,
+} from '@notionhq/client/build/src/errors';
 import { describe, expect, it } from 'vitest';
 import { mock } from 'vitest-mock-extended';
 
-import { isArchivedOrNotFoundError, isNotionErrorWithCode } from '../error';
+import {
+  isArchivedOrNotFoundError,
+  isNetworkError,
+  isNotionErrorWithCode,
+} from '../error';
 
 describe('isNotionErrorWithCode', () => {
   it('returns false for generic error', () => {
@@ -87,3 +94,37 @@ describe('isArchivedOrNotFoundError', () => {
     expect(isArchivedOrNotFoundError(error)).toBe(true);
   });
 });
+
+describe('isNetworkError', () => {
+  it('returns false for generic error', () => {
+    const error = new Error('Generic error');
+
+    expect(isNetworkError(error)).toBe(false);
+  });
+
+  it('returns false for API errors', () => {
+    const error = new APIResponseError({
+      code: APIErrorCode.ServiceUnavailable,
+      headers: mock<APIResponseError['headers']>(),
+      message: 'Fake error',
+      rawBodyText: 'Fake error',
+      status: 503,
+    });
+
+    expect(isNetworkError(error)).toBe(false);
+  });
+
+  it('returns true for fetch network error', () => {
+    const error = new TypeError(
+      'NetworkError when attempting to fetch resource.',
+    );
+
+    expect(isNetworkError(error)).toBe(true);
+  });
+
+  it('returns true for request timeout error', () => {
+    const error = new RequestTimeoutError();
+
+    expect(isNetworkError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseNotionID } from '../url';
+
+const fakeID = '0123456789abcdef0123456789abcdef';
+
+describe('parseNotionID', () => {
+  it('returns ID without dashes', () => {
+    expect(parseNotionID(fakeID)).toBe(fakeID);
+  });
+
+  it('removes dashes from ID', () => {
+    expect(parseNotionID('01234567-89ab-cdef-0123-456789abcdef')).toBe(fakeID);
+  });
+
+  it('ignores surrounding whitespace and case', () => {
+    expect(parseNotionID(` ${fakeID.toUpperCase()}\n`)).toBe(fakeID);
+  });
+
+  it.each([
+    `https://www.notion.so/${fakeID}`,
+    `https://www.notion.so/${fakeID}?v=fedcba9876543210fedcba9876543210`,
+    `https://www.notion.so/workspace/Zotero-Library-${fakeID}`,
+    `https://workspace.notion.site/${fakeID}`,
+    `notion://www.notion.so/workspace/${fakeID}`,
+  ])('returns ID from URL %s', (url) => {
+    expect(parseNotionID(url)).toBe(fakeID);
+  });
+
+  it.each([
+    '',
+    'Zotero Library',
+    fakeID.slice(1),
+    `https://example.com/${fakeID}`,
+    `https://www.notion.so/workspace/ZoteroLibrary${fakeID}`,
+  ])('returns undefined for invalid input %j', (input) => {
+    expect(parseNotionID(input)).toBeUndefined();
+  });
+});
@@ -1,7 +1,57 @@
 import type { PropertyRequest } from '../notion-types';
 
+/** A range of years such as `2020-2021` */
+const YEAR_RANGE_PATTERN = /^(\d{4})\s*[-–—]\s*(\d{4})$/;
+
+/** A dash between the start and end of a range such as `May – June 2021` */
+const RANGE_SEPARATOR_PATTERN = /\s*[–—]\s*|\s+-\s+/;
+
 export function buildDate(
   date: Date | false | null | undefined,
 ): PropertyRequest<'date'> {
   return date ? { start: date.toISOString() } : null;
 }
+
+/**
+ * Build a date from a Zotero date string, such as `2023`, `May 2023`,
+ * `2023-05-10`, or a range such as `2020–2021`. Partial dates start on the
+ * first day of their year or month, and the start of a range without a year
+ * is in the year of its end.
+ */
+export function buildDateFromText(
+  text: string | null | undefined,
+): PropertyRequest<'date'> {
+  const trimmedText = text?.trim();
+  if (!trimmedText) return null;
+
+  const yearRange = YEAR_RANGE_PATTERN.exec(trimmedText);
+  const [startText = '', endText] = yearRange
+    ? yearRange.slice(1)
+    : trimmedText.split(RANGE_SEPARATOR_PATTERN);
+
+  const endDate = endText ? Zotero.Date.strToDate(endText) : {};
+  const startDate = Zotero.Date.strToDate(startText);
+
+  const start = formatDate({
+    ...startDate,
+    year: startDate.year || endDate.year,
+  });
+  if (!start) return null;
+
+  const end = formatDate(endDate);
+  return end ? { start, end } : { start };
+}
+
+function formatDate({
+  year,
+  month,
+  day,
+}: ReturnType<typeof Zotero.Date.strToDate>): string | undefined {
+  if (!year) return;
+
+  return [
+    String(year).padStart(4, '0'),
+    String((month ?? 0) + 1).padStart(2, '0'),
+    String(day || 1).padStart(2, '0'),
+  ].join('-');
+}
@@ -1,5 +1,6 @@
 import {
   APIErrorCode,
+  ClientErrorCode,
   NotionClientError,
   NotionErrorCode,
   isNotionClientError,
@@ -23,3 +24,21 @@ export function isArchivedOrNotFoundError(
       error.message.includes('archive'))
   );
 }
+
+/**
+ * Return whether the error indicates that Notion could not be reached, such
+ * as when the network is offline or the request timed out.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isNotionErrorWithCode(error, ClientErrorCode.RequestTimeout)) {
+    return true;
+  }
+
+  // `fetch()` rejects with a `TypeError` when a network error occurs. It may
+  // come from another window's global, so `instanceof` cannot be relied upon.
+  return (
+    error instanceof Error &&
+    error.name === 'TypeError' &&
+    error.message.startsWith('NetworkError')
+  );
+}
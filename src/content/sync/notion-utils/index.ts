@@ -1,5 +1,14 @@
-export { buildDate } from './build-date';
+export { buildDate, buildDateFromText } from './build-date';
 export { buildRichText } from './build-rich-text';
-export { isArchivedOrNotFoundError, isNotionErrorWithCode } from './error';
+export {
+  isArchivedOrNotFoundError,
+  isNetworkError,
+  isNotionErrorWithCode,
+} from './error';
 export { normalizeID } from './normalize-id';
-export { convertWebURLToAppURL, getPageIDFromURL, isNotionURL } from './url';
+export {
+  convertWebURLToAppURL,
+  getPageIDFromURL,
+  isNotionURL,
+  parseNotionID,
+} from './url';
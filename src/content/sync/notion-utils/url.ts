@@ -1,7 +1,14 @@
+import { normalizeID } from './normalize-id';
+
 const APP_URL_PROTOCOL = 'notion:';
 const WEB_URL_PROTOCOL = 'https:';
 const WEB_URL_PROTOCOL_REGEX = new RegExp(`^${WEB_URL_PROTOCOL}`);
 
+const ID_REGEX =
+  /^(?:[0-9a-f]{32}|[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12})$/i;
+const ID_SUFFIX_REGEX = /(?:^|-)([0-9a-f]{32})$/i;
+const NOTION_HOSTNAME_REGEX = /(?:^|\.)notion\.(?:so|site)$/;
+
 const PAGE_URL_REGEX = new RegExp(
   `^(?:${APP_URL_PROTOCOL}|${WEB_URL_PROTOCOL})//www.notion.so/.*([0-9a-f]{32})$`,
 );
@@ -15,6 +22,29 @@ export function getPageIDFromURL(url: string): string | undefined {
   return matches ? matches[1] : undefined;
 }
 
+/**
+ * Parse the ID of a Notion page or database from text pasted by the user.
+ * @param input A Notion URL, such as a link copied from Notion, or an ID with
+ * or without dashes.
+ * @returns The normalized ID, or `undefined` if the input is not valid.
+ */
+export function parseNotionID(input: string): string | undefined {
+  const text = input.trim();
+
+  if (ID_REGEX.test(text)) return normalizeID(text).toLowerCase();
+
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return undefined;
+  }
+  if (!NOTION_HOSTNAME_REGEX.test(url.hostname)) return undefined;
+
+  const lastSegment = url.pathname.split('/').pop() ?? '';
+  return ID_SUFFIX_REGEX.exec(lastSegment)?.[1]?.toLowerCase();
+}
+
 export function isNotionURL(value: unknown): value is string {
   if (typeof value !== 'string') return false;
   return PAGE_URL_REGEX.test(value);
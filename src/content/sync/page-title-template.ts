@@ -0,0 +1,133 @@
+/**
+ * Page title templates contain placeholders in braces that are replaced with
+ * values of the item being synced. For example:
+ *
+ * `{firstCreator} ({year}) – {shortTitle|title:60}`
+ *
+ * - `{name}` is replaced with the value of a Zotero field, such as `year` or
+ *   `publicationTitle`, or of a computed value, such as `fullCitation`.
+ * - `{name1|name2|"text"}` is replaced with the first non-empty value. Quoted
+ *   text is used as is.
+ * - `{name:transform}` applies transforms in order. Supported transforms are
+ *   `lower`, `upper`, and a number of characters to truncate the value to.
+ */
+
+export type TemplateValue = string | null | undefined;
+
+export type TemplateValueGetter = (
+  name: string,
+) => TemplateValue | Promise<TemplateValue>;
+
+type TemplateSource =
+  | { kind: 'literal'; text: string }
+  | { kind: 'value'; name: string };
+
+type Transform = (value: string) => string;
+
+type Placeholder = {
+  sources: TemplateSource[];
+  transforms: Transform[];
+};
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+const NAMED_TRANSFORMS: Partial<Record<string, Transform>> = {
+  lower: (value) => value.toLocaleLowerCase(),
+  upper: (value) => value.toLocaleUpperCase(),
+};
+
+/**
+ * Render a page title template for an item.
+ * @param template The page title template.
+ * @param getValue A function that returns the value for a placeholder name.
+ * @returns The rendered page title with surrounding whitespace removed.
+ */
+export async function renderPageTitleTemplate(
+  template: string,
+  getValue: TemplateValueGetter,
+): Promise<string> {
+  const values = await Promise.all(
+    Array.from(template.matchAll(PLACEHOLDER_PATTERN), ([, expression = '']) =>
+      renderPlaceholder(parsePlaceholder(expression), getValue),
+    ),
+  );
+
+  let index = 0;
+  return template
+    .replace(PLACEHOLDER_PATTERN, () => values[index++] ?? '')
+    .trim();
+}
+
+async function renderPlaceholder(
+  { sources, transforms }: Placeholder,
+  getValue: TemplateValueGetter,
+): Promise<string> {
+  for (const source of sources) {
+    const value =
+      source.kind === 'literal' ? source.text : await getValue(source.name);
+    if (value?.trim()) {
+      return transforms.reduce((result, transform) => transform(result), value);
+    }
+  }
+  return '';
+}
+
+function parsePlaceholder(expression: string): Placeholder {
+  const [sourceList = '', ...transformNames] = splitOutsideQuotes(
+    expression,
+    ':',
+  );
+
+  return {
+    sources: splitOutsideQuotes(sourceList, '|').map(parseSource),
+    transforms: transformNames.flatMap((name) => {
+      const transform = parseTransform(name.trim());
+      return transform ? [transform] : [];
+    }),
+  };
+}
+
+function parseSource(text: string): TemplateSource {
+  const trimmedText = text.trim();
+  const literalMatch = /^"(.*)"$/.exec(trimmedText);
+
+  return literalMatch
+    ? { kind: 'literal', text: literalMatch[1] ?? '' }
+    : { kind: 'value', name: trimmedText };
+}
+
+function parseTransform(name: string): Transform | undefined {
+  if (/^\d+$/.test(name)) {
+    const maxLength = Number(name);
+    return (value) => truncateEnd(value, maxLength);
+  }
+  return NAMED_TRANSFORMS[name];
+}
+
+function truncateEnd(value: string, maxLength: number): string {
+  if (maxLength < 1 || value.length <= maxLength) return value;
+  return `${value.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Split text on a separator that is not within double quotes.
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
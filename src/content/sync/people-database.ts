@@ -0,0 +1,288 @@
+import {
+  type Client,
+  collectPaginatedAPI,
+  isFullDatabase,
+  isFullPage,
+} from '@notionhq/client';
+import type {
+  PageObjectResponse,
+  QueryDatabaseParameters,
+} from '@notionhq/client/build/src/api-endpoints';
+
+import type {
+  DatabaseProperties,
+  DatabaseRequestProperties,
+} from './notion-types';
+import { buildRichText, normalizeID } from './notion-utils';
+
+/**
+ * A creator of a Zotero item to be linked to a page in a People database
+ */
+export type Person = {
+  firstName: string;
+  lastName: string;
+  orcid?: string;
+};
+
+type PeopleDatabaseSchema = {
+  orcidProperty?: { name: string; type: 'rich_text' | 'url' };
+  titlePropertyName: string;
+};
+
+type QueryFilter = NonNullable<QueryDatabaseParameters['filter']>;
+
+/** Name of the optional People database property holding ORCID iDs */
+const ORCID_PROPERTY_NAME = 'ORCID';
+
+const ORCID_PATTERN = '\\d{4}-\\d{4}-\\d{4}-\\d{3}[\\dX]';
+
+/**
+ * Lines in the Extra field that assign an ORCID iD to a creator, such as:
+ * `ORCID: Curie, Marie 0000-0002-1825-0097`
+ */
+const ORCID_LINE_REGEX = new RegExp(
+  `^\\s*ORCID:\\s*(.+?)[\\s:|]+(?:https?://orcid\\.org/)?(${ORCID_PATTERN})\\s*$`,
+  'gim',
+);
+
+const ORCID_URL_PREFIX = 'https://orcid.org/';
+
+/**
+ * Build the display name of a creator, as used for the title of the creator's
+ * page in the People database.
+ */
+export function buildPersonName({ firstName, lastName }: Person): string {
+  return [firstName, lastName].filter(Boolean).join(' ');
+}
+
+/**
+ * Normalize a person name so that names differing only in order
+ * (`Last, First`), case, diacritics, or punctuation are matched.
+ */
+export function normalizePersonName(name: string): string {
+  const [lastName = '', ...firstNames] = name.split(',');
+  const orderedName = firstNames.length
+    ? [...firstNames, lastName].join(' ')
+    : lastName;
+
+  return orderedName
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLocaleLowerCase()
+    .replace(/[.\s]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse the ORCID iDs of creators from the Extra field of an item.
+ * @returns ORCID iDs by normalized creator name.
+ */
+export function parseORCIDs(extra: string): Map<string, string> {
+  return new Map(
+    Array.from(
+      extra.matchAll(ORCID_LINE_REGEX),
+      ([, name = '', orcid = '']) => [
+        normalizePersonName(name),
+        orcid.toUpperCase(),
+      ],
+    ),
+  );
+}
+
+/**
+ * A Notion database with a page for each person that item pages relate to.
+ * People are matched to existing pages by ORCID iD when the database has an
+ * `ORCID` property, or otherwise by normalized name. Pages are created for
+ * people that do not match any page.
+ */
+export class PeopleDatabase {
+  private readonly pageIDs = new Map<string, Promise<string | undefined>>();
+  private schema?: Promise<PeopleDatabaseSchema>;
+
+  private readonly createMissing: boolean;
+  private readonly databaseID: string;
+  private readonly notion: Client;
+
+  /**
+   * @param notion The Notion client that can access the database.
+   * @param databaseID The ID of the People database.
+   * @param options.createMissing Whether to create pages for people that do
+   * not match any page. Disable to avoid writing to Notion, such as when
+   * previewing a sync.
+   */
+  public constructor(
+    notion: Client,
+    databaseID: string,
+    { createMissing = true }: { createMissing?: boolean } = {},
+  ) {
+    this.createMissing = createMissing;
+    this.databaseID = normalizeID(databaseID);
+    this.notion = notion;
+  }
+
+  /**
+   * Check whether a property of another database relates to this database.
+   */
+  public isRelationTarget(property: DatabaseProperties[string]): boolean {
+    return (
+      property.type === 'relation' &&
+      normalizeID(property.relation.database_id) === this.databaseID
+    );
+  }
+
+  /**
+   * Get the IDs of the pages of the given people, creating pages as needed.
+   * @param people The people to get pages of, in order.
+   * @param limit The maximum number of pages to return.
+   * @returns The unique page IDs in the order of the people.
+   */
+  public async getPersonPageIDs(
+    people: Person[],
+    limit: number,
+  ): Promise<string[]> {
+    const pageIDs: string[] = [];
+
+    // Pages are upserted sequentially to avoid creating duplicates
+    for (const person of people) {
+      if (pageIDs.length >= limit) break;
+
+      const pageID = await this.getPersonPageID(person);
+      if (pageID && !pageIDs.includes(pageID)) pageIDs.push(pageID);
+    }
+
+    return pageIDs;
+  }
+
+  private getPersonPageID(person: Person): Promise<string | undefined> {
+    const key = person.orcid || normalizePersonName(buildPersonName(person));
+    let pageID = this.pageIDs.get(key);
+
+    if (!pageID) {
+      pageID = this.upsertPersonPage(person);
+      this.pageIDs.set(key, pageID);
+    }
+
+    return pageID;
+  }
+
+  private async upsertPersonPage(person: Person): Promise<string | undefined> {
+    const schema = await this.getSchema();
+    const { orcid } = person;
+
+    if (orcid && schema.orcidProperty) {
+      const [page] = await this.queryPages({
+        property: schema.orcidProperty.name,
+        ...(schema.orcidProperty.type === 'url'
+          ? { url: { contains: orcid } }
+          : { rich_text: { contains: orcid } }),
+      });
+      if (page) return page.id;
+    }
+
+    const name = normalizePersonName(buildPersonName(person));
+    const pages = await this.queryPages({
+      property: schema.titlePropertyName,
+      title: { contains: person.lastName || person.firstName },
+    });
+    const page = pages.find(
+      (page) =>
+        normalizePersonName(getPropertyText(page, schema.titlePropertyName)) ===
+        name,
+    );
+
+    if (page) {
+      const { orcidProperty } = schema;
+      if (
+        orcid &&
+        orcidProperty &&
+        !getPropertyText(page, orcidProperty.name)
+      ) {
+        await this.notion.pages.update({
+          page_id: page.id,
+          properties: buildORCIDProperty(orcidProperty, orcid),
+        });
+      }
+      return page.id;
+    }
+
+    if (!this.createMissing) return undefined;
+
+    const properties: DatabaseRequestProperties = {
+      [schema.titlePropertyName]: {
+        title: buildRichText(buildPersonName(person)),
+      },
+    };
+    if (orcid && schema.orcidProperty) {
+      Object.assign(
+        properties,
+        buildORCIDProperty(schema.orcidProperty, orcid),
+      );
+    }
+
+    const response = await this.notion.pages.create({
+      parent: { database_id: this.databaseID },
+      properties,
+    });
+    return response.id;
+  }
+
+  private async queryPages(filter: QueryFilter): Promise<PageObjectResponse[]> {
+    const results = await collectPaginatedAPI(this.notion.databases.query, {
+      database_id: this.databaseID,
+      filter,
+    });
+    return results.filter(isFullPage);
+  }
+
+  private getSchema(): Promise<PeopleDatabaseSchema> {
+    if (!this.schema) {
+      this.schema = this.retrieveSchema();
+    }
+    return this.schema;
+  }
+
+  private async retrieveSchema(): Promise<PeopleDatabaseSchema> {
+    const database = await this.notion.databases.retrieve({
+      database_id: this.databaseID,
+    });
+    if (!isFullDatabase(database)) {
+      throw new Error(`People database is not accessible: ${this.databaseID}`);
+    }
+
+    const properties = Object.values(database.properties);
+    const titleProperty = properties.find(({ type }) => type === 'title');
+    const orcidProperty = database.properties[ORCID_PROPERTY_NAME];
+
+    return {
+      orcidProperty:
+        orcidProperty?.type === 'rich_text' || orcidProperty?.type === 'url'
+          ? { name: orcidProperty.name, type: orcidProperty.type }
+          : undefined,
+      titlePropertyName: titleProperty?.name ?? 'Name',
+    };
+  }
+}
+
+function buildORCIDProperty(
+  { name, type }: NonNullable<PeopleDatabaseSchema['orcidProperty']>,
+  orcid: string,
+): DatabaseRequestProperties {
+  return type === 'url'
+    ? { [name]: { url: `${ORCID_URL_PREFIX}${orcid}` } }
+    : { [name]: { rich_text: buildRichText(orcid) } };
+}
+
+function getPropertyText(page: PageObjectResponse, name: string): string {
+  const property = page.properties[name];
+
+  switch (property?.type) {
+    case 'rich_text':
+      return property.rich_text.map((t) => t.plain_text).join('');
+    case 'title':
+      return property.title.map((t) => t.plain_text).join('');
+    case 'url':
+      return property.url ?? '';
+    default:
+      return '';
+  }
+}
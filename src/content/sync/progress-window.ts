@@ -1,10 +1,19 @@
 import { FluentMessageId } from '../../locale/fluent-types';
+import { buildNoteroURL } from '../utils';
+
+import type { RetryInfo } from './notion-fetch';
+import {
+  type ItemSyncResult,
+  isFailedResult,
+  summarizeResults,
+} from './sync-result';
 
 export class ProgressWindow {
   private readonly itemCount: number;
   private itemProgress!: Zotero.ProgressWindow.ItemProgress;
   private readonly l10n: L10n.Localization<FluentMessageId>;
   private readonly progressWindow: Zotero.ProgressWindow;
+  private warningCount = 0;
 
   public constructor(itemCount: number, window: Window) {
     this.itemCount = itemCount;
@@ -27,27 +36,81 @@ export class ProgressWindow {
     this.itemProgress.setText(message);
   }
 
+  public async updateRetryText({ attempt, delayMs, maxRetries }: RetryInfo) {
+    const seconds = Math.ceil(delayMs / 1000);
+    const args = { attempt, 'max-retries': maxRetries, seconds };
+    const message =
+      (await this.l10n.formatValue('notero-progress-retry', args)) ||
+      `Notion is busy. Retrying in ${seconds}s (attempt ${attempt} of ${maxRetries})…`;
+    this.itemProgress.setText(message);
+  }
+
   public updateProgress(step: number) {
     const percentage = (step / this.itemCount) * 100;
     this.itemProgress.setProgress(percentage);
   }
 
-  public complete() {
-    this.progressWindow.startCloseTimer();
-  }
+  /**
+   * Complete the sync job. If every item synced successfully without warnings,
+   * the window closes automatically. Otherwise, it stays open with a summary of
+   * the outcomes, each failed item with its error, and a link to retry them.
+   */
+  public async complete(results: ItemSyncResult[]) {
+    const failedResults = results.filter(isFailedResult);
 
-  public fail(errorMessage: string, failedItem?: Zotero.Item) {
-    if (failedItem) {
-      new this.progressWindow.ItemProgress(
-        failedItem.itemType,
-        failedItem.getDisplayTitle(),
-        this.itemProgress,
-      ).setProgress(100);
-      new this.progressWindow.ItemProgress('', errorMessage).setError();
-    } else {
-      this.itemProgress.setError();
-      this.itemProgress.setText(errorMessage);
-      this.progressWindow.addDescription(''); // Hack to force window resize
+    if (!failedResults.length && !this.warningCount) {
+      this.progressWindow.startCloseTimer();
+      return;
     }
+
+    const summary = summarizeResults(results);
+    const summaryText =
+      (await this.l10n.formatValue('notero-progress-summary', summary)) ||
+      `Created: ${summary.created}, Updated: ${summary.updated}, Skipped: ${summary.skipped}, Failed: ${summary.failed}`;
+    this.itemProgress.setText(summaryText);
+
+    if (!failedResults.length) return;
+
+    failedResults.forEach(({ errorMessage, item }) => {
+      this.addFailedItem(errorMessage, item);
+    });
+
+    const retryLabel =
+      (await this.l10n.formatValue('notero-progress-retry-failed')) ||
+      'Retry failed items';
+    const retryURL = buildNoteroURL('sync-items', {
+      itemIDs: failedResults.map(({ item }) => item.id).join(','),
+    });
+    this.progressWindow.addDescription(
+      `<a href="${retryURL}">${retryLabel}</a>`,
+    );
+  }
+
+  /**
+   * Show a warning that does not fail the sync job. The window stays open once
+   * the job completes so that the warning can be read.
+   */
+  public addWarning(message: string) {
+    this.warningCount++;
+    new this.progressWindow.ItemProgress('', message).setError();
+  }
+
+  public close() {
+    this.progressWindow.close();
+  }
+
+  public fail(errorMessage: string) {
+    this.itemProgress.setError();
+    this.itemProgress.setText(errorMessage);
+    this.progressWindow.addDescription(''); // Hack to force window resize
+  }
+
+  private addFailedItem(errorMessage: string, item: Zotero.Item) {
+    new this.progressWindow.ItemProgress(
+      item.itemType,
+      item.getDisplayTitle(),
+      this.itemProgress,
+    ).setProgress(100);
+    new this.progressWindow.ItemProgress('', errorMessage).setError();
   }
 }
@@ -1,36 +1,106 @@
 import { NOTION_TAG_NAME } from '../constants';
-import { PageTitleFormat } from '../prefs/notero-pref';
+import { getNotionPageID } from '../data/item-data';
+import {
+  getNotionDatabaseIDForItem,
+  loadSyncEnabledConfigs,
+} from '../prefs/collection-sync-config';
+import {
+  getNoteroPref,
+  NoteroPref,
+  PageTitleFormat,
+} from '../prefs/notero-pref';
+import {
+  ComputedValue,
+  getItemFieldName,
+  isItemFieldSource,
+  type PropertyMapping,
+} from '../prefs/property-mappings';
 import {
   buildCollectionFullName,
   getItemURL,
+  getRelatedItems,
   parseItemDate,
-  truncateMiddle,
 } from '../utils';
 
+import type { CollectionsDatabase } from './collections-database';
 import { LIMITS } from './notion-limits';
 import type {
   DatabaseProperties,
   DatabaseRequestProperties,
-  DatabaseRequestProperty,
-  PropertyRequest,
-  RequestPropertyType,
 } from './notion-types';
-import { buildDate, buildRichText } from './notion-utils';
+import { buildRichText, normalizeID } from './notion-utils';
+import {
+  renderPageTitleTemplate,
+  type TemplateValue,
+} from './page-title-template';
+import {
+  normalizePersonName,
+  parseORCIDs,
+  type PeopleDatabase,
+  type Person,
+} from './people-database';
+import {
+  coercePropertyValue,
+  isCompatiblePropertyType,
+  type PropertyValue,
+  type ValueType,
+} from './property-coercion';
+import {
+  COMPUTED_VALUE_TYPES,
+  CREATOR_VALUES,
+  ITEM_FIELD_TYPE,
+} from './property-mapping';
 
 type PropertyBuilderParams = {
   citationFormat: string;
+  /** If given, collections sync to relations with pages in this database */
+  collectionsDatabase?: CollectionsDatabase;
   databaseProperties: DatabaseProperties;
   item: Zotero.Item;
   pageTitleFormat: PageTitleFormat;
+  pageTitleTemplate: string;
+  /** If given, creators sync to relations with pages in this database */
+  peopleDatabase?: PeopleDatabase;
+  propertyMappings: readonly PropertyMapping[];
 };
 
-type PropertyDefinition<T extends RequestPropertyType = RequestPropertyType> = {
-  [P in T]: {
-    name: string;
-    type: P;
-    buildRequest: () => PropertyRequest<P> | Promise<PropertyRequest<P>>;
-  };
-}[T];
+type PageTitleParams = Pick<
+  PropertyBuilderParams,
+  'citationFormat' | 'item' | 'pageTitleFormat' | 'pageTitleTemplate'
+>;
+
+type PropertyDefinition = {
+  name: string;
+  valueType: ValueType;
+  /** Whether line breaks and spacing are kept when converted to rich text */
+  preserveWhitespace: boolean;
+  buildValue: () => PropertyValue | Promise<PropertyValue>;
+  /** Used instead of the value for properties relating to another database */
+  relation?: PropertyRelation;
+};
+
+type PropertyRelation = {
+  /**
+   * Database of the related pages, which properties must relate to. If not
+   * given, pages are related in whichever database the property relates to.
+   */
+  database?: CollectionsDatabase | PeopleDatabase;
+  /** Build the IDs of the related pages in the database with the given ID */
+  buildPageIDs: (databaseID: string) => Promise<string[]>;
+};
+
+type ComputedValueBuilders = Record<
+  ComputedValue,
+  () => PropertyValue | Promise<PropertyValue>
+>;
+
+const PRESERVE_WHITESPACE_VALUES: ReadonlySet<string> = new Set([
+  ComputedValue.abstract,
+  ComputedValue.authors,
+  ComputedValue.editors,
+  ComputedValue.extra,
+  ComputedValue.fullCitation,
+]);
 
 export function buildProperties(
   params: PropertyBuilderParams,
@@ -39,37 +109,67 @@ export function buildProperties(
   return propertyBuilder.buildProperties();
 }
 
-function formatCreatorName({ firstName, lastName }: Zotero.Creator) {
-  return [lastName, firstName].filter((name) => name).join(', ');
+/**
+ * Build the Notion page title of an item without building its properties.
+ */
+export function buildPageTitle(params: PageTitleParams): Promise<string> {
+  const propertyBuilder = new PropertyBuilder({
+    ...params,
+    databaseProperties: {},
+    propertyMappings: [],
+  });
+  return propertyBuilder.getPageTitle();
 }
 
 /**
- * Sanitize name of select option to conform to the following constraints:
- * - Commas (`,`) are not valid
- * - Length must be <= 100
- *
- * @see https://developers.notion.com/reference/property-object#select
+ * Only the first mapping to each property is synced, so that duplicate
+ * mappings do not overwrite each other
  */
-function sanitizeSelectOption(text: string): string {
-  return truncateMiddle(
-    text.replace(/,/g, ';'),
-    LIMITS.SELECT_OPTION_CHARACTERS,
+function isFirstMappingOfProperty(
+  { propertyName }: PropertyMapping,
+  index: number,
+  mappings: readonly PropertyMapping[],
+): boolean {
+  return (
+    mappings.findIndex((mapping) => mapping.propertyName === propertyName) ===
+    index
   );
 }
 
+function formatCreatorName({ firstName, lastName }: Zotero.Creator) {
+  return [lastName, firstName].filter((name) => name).join(', ');
+}
+
+function buildPerson(
+  creator: Zotero.Creator,
+  orcids: Map<string, string>,
+): Person {
+  const { firstName, lastName } = creator;
+  const orcid = orcids.get(normalizePersonName(formatCreatorName(creator)));
+  return { firstName, lastName, ...(orcid && { orcid }) };
+}
+
 class PropertyBuilder {
   private readonly cachedCitations = new Map<string, string | null>();
 
   private readonly citationFormat: string;
+  private readonly collectionsDatabase?: CollectionsDatabase;
   private readonly databaseProperties: DatabaseProperties;
   private readonly item: Zotero.Item;
   private readonly pageTitleFormat: PageTitleFormat;
+  private readonly pageTitleTemplate: string;
+  private readonly peopleDatabase?: PeopleDatabase;
+  private readonly propertyMappings: readonly PropertyMapping[];
 
   public constructor(params: PropertyBuilderParams) {
     this.citationFormat = params.citationFormat;
+    this.collectionsDatabase = params.collectionsDatabase;
     this.databaseProperties = params.databaseProperties;
     this.item = params.item;
     this.pageTitleFormat = params.pageTitleFormat;
+    this.pageTitleTemplate = params.pageTitleTemplate;
+    this.peopleDatabase = params.peopleDatabase;
+    this.propertyMappings = params.propertyMappings;
   }
 
   public async buildProperties(): Promise<DatabaseRequestProperties> {
@@ -79,24 +179,100 @@ class PropertyBuilder {
       },
     };
 
-    const validPropertyDefinitions = this.propertyDefinitions.filter(
-      this.databaseHasProperty,
-    );
+    const propertyDefinitions = this.propertyMappings
+      .filter(isFirstMappingOfProperty)
+      .map(this.buildPropertyDefinition);
+
+    for (const definition of propertyDefinitions) {
+      const { name, valueType, preserveWhitespace, buildValue, relation } =
+        definition;
+      const property = this.databaseProperties[name];
+      const type = property?.type;
+
+      if (
+        property?.type === 'relation' &&
+        relation &&
+        (!relation.database || relation.database.isRelationTarget(property))
+      ) {
+        const pageIDs = await relation.buildPageIDs(
+          normalizeID(property.relation.database_id),
+        );
+        properties[name] = {
+          type: 'relation',
+          relation: pageIDs.map((id) => ({ id })),
+        };
+        continue;
+      }
 
-    for (const { name, type, buildRequest } of validPropertyDefinitions) {
-      const request = await buildRequest();
+      // Skip properties that are missing or cannot hold the value
+      if (!type || !isCompatiblePropertyType(valueType, type)) continue;
 
-      properties[name] = {
-        type,
-        [type]: request,
-      } as DatabaseRequestProperty;
+      properties[name] = coercePropertyValue(await buildValue(), type, {
+        preserveWhitespace,
+      });
     }
 
     return properties;
   }
 
-  private databaseHasProperty = ({ name, type }: PropertyDefinition) =>
-    this.databaseProperties[name]?.type === type;
+  private buildPropertyDefinition = ({
+    propertyName,
+    source,
+  }: PropertyMapping): PropertyDefinition => {
+    if (isItemFieldSource(source)) {
+      const field = getItemFieldName(source);
+      return {
+        name: propertyName,
+        valueType: ITEM_FIELD_TYPE,
+        preserveWhitespace: false,
+        buildValue: () => this.item.getField(field),
+      };
+    }
+
+    const relation = this.buildPropertyRelation(source);
+
+    return {
+      name: propertyName,
+      valueType: COMPUTED_VALUE_TYPES[source],
+      preserveWhitespace: PRESERVE_WHITESPACE_VALUES.has(source),
+      buildValue: this.computedValueBuilders[source],
+      ...(relation && { relation }),
+    };
+  };
+
+  private buildPropertyRelation(
+    source: ComputedValue,
+  ): PropertyRelation | undefined {
+    const { collectionsDatabase, peopleDatabase } = this;
+
+    if (CREATOR_VALUES.has(source) && peopleDatabase) {
+      return {
+        database: peopleDatabase,
+        buildPageIDs: () =>
+          this.getPersonPageIDs(peopleDatabase, this.getCreatorTypeID(source)),
+      };
+    }
+
+    if (source === ComputedValue.collections && collectionsDatabase) {
+      return {
+        database: collectionsDatabase,
+        buildPageIDs: () =>
+          collectionsDatabase.getCollectionPageIDs(
+            Zotero.Collections.get(this.item.getCollections()),
+            LIMITS.RELATION_RELATED_PAGES,
+          ),
+      };
+    }
+
+    if (source === ComputedValue.relatedItems) {
+      return {
+        buildPageIDs: (databaseID) =>
+          Promise.resolve(this.getRelatedPageIDs(databaseID)),
+      };
+    }
+
+    return undefined;
+  }
 
   private pageTitleBuilders: Record<
     PageTitleFormat,
@@ -108,10 +284,32 @@ class PropertyBuilder {
     [PageTitleFormat.itemFullCitation]: () => this.getFullCitation(),
     [PageTitleFormat.itemInTextCitation]: () => this.getInTextCitation(),
     [PageTitleFormat.itemShortTitle]: () => this.getShortTitle(),
+    [PageTitleFormat.itemTemplate]: () =>
+      renderPageTitleTemplate(this.pageTitleTemplate, this.getTemplateValue),
     [PageTitleFormat.itemTitle]: () => this.getTitle(),
   };
 
-  private async getPageTitle(): Promise<string> {
+  /**
+   * Values available to page title templates in addition to Zotero fields
+   */
+  private templateValueBuilders: Partial<
+    Record<string, () => TemplateValue | Promise<TemplateValue>>
+  > = {
+    authorDateCitation: () => this.getAuthorDateCitation(),
+    citationKey: () => this.getCitationKey(),
+    fullCitation: () => this.getFullCitation(),
+    inTextCitation: () => this.getInTextCitation(),
+    title: () => this.getTitle(),
+  };
+
+  private getTemplateValue = (
+    name: string,
+  ): TemplateValue | Promise<TemplateValue> => {
+    const buildValue = this.templateValueBuilders[name];
+    return buildValue ? buildValue() : this.item.getField(name, false, true);
+  };
+
+  public async getPageTitle(): Promise<string> {
     const pageTitle = await this.pageTitleBuilders[this.pageTitleFormat]();
     return pageTitle || this.getTitle();
   }
@@ -184,181 +382,117 @@ class PropertyBuilder {
     return this.item.getDisplayTitle();
   }
 
-  private propertyDefinitions: PropertyDefinition[] = [
-    {
-      name: 'Abstract',
-      type: 'rich_text',
-      buildRequest: () =>
-        buildRichText(this.item.getField('abstractNote'), {
-          preserveWhitespace: true,
-        }),
-    },
-    {
-      name: 'Authors',
-      type: 'rich_text',
-      buildRequest: () => {
-        const primaryCreatorTypeID = Zotero.CreatorTypes.getPrimaryIDForType(
-          this.item.itemTypeID,
-        );
-        if (!primaryCreatorTypeID) return [];
+  private getCreatorTypeID(source: ComputedValue): number | false {
+    switch (source) {
+      case ComputedValue.authors:
+        return Zotero.CreatorTypes.getPrimaryIDForType(this.item.itemTypeID);
+      case ComputedValue.editors:
+        return Zotero.CreatorTypes.getID('editor');
+      default:
+        return false;
+    }
+  }
 
-        const authors = this.item
-          .getCreators()
-          .filter(({ creatorTypeID }) => creatorTypeID === primaryCreatorTypeID)
-          .map(formatCreatorName)
-          .join('\n');
+  private getCreators(creatorTypeID: number | false): Zotero.Creator[] {
+    if (!creatorTypeID) return [];
 
-        return buildRichText(authors, { preserveWhitespace: true });
-      },
-    },
-    {
-      name: 'Citation Key',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.getCitationKey()),
-    },
-    {
-      name: 'Collections',
-      type: 'multi_select',
-      buildRequest: () =>
-        Zotero.Collections.get(this.item.getCollections()).map(
-          (collection) => ({
-            name: sanitizeSelectOption(buildCollectionFullName(collection)),
-          }),
-        ),
-    },
-    {
-      name: 'Date',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.item.getField('date')),
-    },
-    {
-      name: 'Date Added',
-      type: 'date',
-      buildRequest: () => buildDate(parseItemDate(this.item.dateAdded)),
-    },
-    {
-      name: 'Date Modified',
-      type: 'date',
-      buildRequest: () => buildDate(parseItemDate(this.item.dateModified)),
-    },
-    {
-      name: 'DOI',
-      type: 'url',
-      buildRequest: () => {
-        const doi = this.item.getField('DOI');
-        return doi ? `https://doi.org/${doi}` : null;
-      },
-    },
-    {
-      name: 'Editors',
-      type: 'rich_text',
-      buildRequest: () => {
-        const editorTypeID = Zotero.CreatorTypes.getID('editor');
-        if (!editorTypeID) return [];
-
-        const editors = this.item
-          .getCreators()
-          .filter(({ creatorTypeID }) => creatorTypeID === editorTypeID)
-          .map(formatCreatorName)
-          .join('\n');
-
-        return buildRichText(editors, { preserveWhitespace: true });
-      },
-    },
-    {
-      name: 'Extra',
-      type: 'rich_text',
-      buildRequest: () =>
-        buildRichText(this.item.getField('extra'), {
-          preserveWhitespace: true,
-        }),
-    },
-    {
-      name: 'File Path',
-      type: 'rich_text',
-      buildRequest: async () => {
-        const attachment = await this.item.getBestAttachment();
-        if (!attachment) return [];
-
-        return buildRichText((await attachment.getFilePathAsync()) || null);
-      },
-    },
-    {
-      name: 'Full Citation',
-      type: 'rich_text',
-      buildRequest: async () =>
-        buildRichText(await this.getFullCitation(), {
-          preserveWhitespace: true,
-        }),
-    },
-    {
-      name: 'In-Text Citation',
-      type: 'rich_text',
-      buildRequest: async () => buildRichText(await this.getInTextCitation()),
-    },
-    {
-      name: 'Item Type',
-      type: 'select',
-      buildRequest: () => ({
-        name: Zotero.ItemTypes.getLocalizedString(this.item.itemTypeID),
-      }),
-    },
-    {
-      name: 'Place',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.item.getField('place')),
-    },
-    {
-      name: 'Proceedings Title',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.item.getField('proceedingsTitle')),
-    },
-    {
-      name: 'Publication',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.item.getField('publicationTitle')),
-    },
-    {
-      name: 'Series Title',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.item.getField('seriesTitle')),
-    },
-    {
-      name: 'Short Title',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.getShortTitle()),
-    },
-    {
-      name: 'Tags',
-      type: 'multi_select',
-      buildRequest: () =>
-        this.item
-          .getTags()
-          .filter(({ tag }) => tag !== NOTION_TAG_NAME)
-          .map(({ tag }) => ({ name: sanitizeSelectOption(tag) })),
-    },
-    {
-      name: 'Title',
-      type: 'rich_text',
-      buildRequest: () => buildRichText(this.getTitle()),
-    },
-    {
-      name: 'URL',
-      type: 'url',
-      buildRequest: () => this.item.getField('url') || null,
+    return this.item
+      .getCreators()
+      .filter((creator) => creator.creatorTypeID === creatorTypeID);
+  }
+
+  private getCreatorNames(creatorTypeID: number | false): string {
+    return this.getCreators(creatorTypeID).map(formatCreatorName).join('\n');
+  }
+
+  /**
+   * Get the IDs of the pages of related items that sync to the given database,
+   * as Notion rejects relations to pages in other databases.
+   */
+  private getRelatedPageIDs(databaseID: string): string[] {
+    const syncEnabledConfigs = loadSyncEnabledConfigs();
+    const defaultDatabaseID = getNoteroPref(NoteroPref.notionDatabaseID);
+
+    return getRelatedItems(this.item)
+      .filter((relatedItem) => {
+        const relatedDatabaseID =
+          getNotionDatabaseIDForItem(relatedItem, syncEnabledConfigs) ||
+          defaultDatabaseID;
+        return relatedDatabaseID
+          ? normalizeID(relatedDatabaseID) === databaseID
+          : false;
+      })
+      .map(getNotionPageID)
+      .filter((pageID): pageID is string => Boolean(pageID))
+      .slice(0, LIMITS.RELATION_RELATED_PAGES);
+  }
+
+  private getPersonPageIDs(
+    peopleDatabase: PeopleDatabase,
+    creatorTypeID: number | false,
+  ): Promise<string[]> {
+    const orcids = parseORCIDs(this.item.getField('extra') || '');
+    const people = this.getCreators(creatorTypeID).map((creator) =>
+      buildPerson(creator, orcids),
+    );
+
+    return peopleDatabase.getPersonPageIDs(
+      people,
+      LIMITS.RELATION_RELATED_PAGES,
+    );
+  }
+
+  private computedValueBuilders: ComputedValueBuilders = {
+    [ComputedValue.abstract]: () => this.item.getField('abstractNote'),
+    [ComputedValue.authors]: () =>
+      this.getCreatorNames(this.getCreatorTypeID(ComputedValue.authors)),
+    [ComputedValue.citationKey]: () => this.getCitationKey(),
+    [ComputedValue.collections]: () =>
+      Zotero.Collections.get(this.item.getCollections()).map(
+        buildCollectionFullName,
+      ),
+    [ComputedValue.date]: () => this.item.getField('date'),
+    [ComputedValue.dateAdded]: () => parseItemDate(this.item.dateAdded) || null,
+    [ComputedValue.dateModified]: () =>
+      parseItemDate(this.item.dateModified) || null,
+    [ComputedValue.doi]: () => {
+      const doi = this.item.getField('DOI');
+      return doi ? `https://doi.org/${doi}` : null;
     },
-    {
-      name: 'Year',
-      type: 'number',
-      buildRequest: () => {
-        const year = Number.parseInt(this.item.getField('year') || '');
-        return Number.isNaN(year) ? null : year;
-      },
+    [ComputedValue.editors]: () =>
+      this.getCreatorNames(this.getCreatorTypeID(ComputedValue.editors)),
+    [ComputedValue.extra]: () => this.item.getField('extra'),
+    [ComputedValue.filePath]: async () => {
+      const attachment = await this.item.getBestAttachment();
+      if (!attachment) return null;
+
+      return (await attachment.getFilePathAsync()) || null;
     },
-    {
-      name: 'Zotero URI',
-      type: 'url',
-      buildRequest: () => getItemURL(this.item),
+    [ComputedValue.fullCitation]: () => this.getFullCitation(),
+    [ComputedValue.inTextCitation]: () => this.getInTextCitation(),
+    [ComputedValue.itemType]: () =>
+      Zotero.ItemTypes.getLocalizedString(this.item.itemTypeID),
+    [ComputedValue.place]: () => this.item.getField('place'),
+    [ComputedValue.proceedingsTitle]: () =>
+      this.item.getField('proceedingsTitle'),
+    [ComputedValue.publication]: () => this.item.getField('publicationTitle'),
+    [ComputedValue.relatedItems]: () =>
+      getRelatedItems(this.item)
+        .map(getNotionPageID)
+        .filter((pageID): pageID is string => Boolean(pageID)),
+    [ComputedValue.seriesTitle]: () => this.item.getField('seriesTitle'),
+    [ComputedValue.shortTitle]: () => this.getShortTitle(),
+    [ComputedValue.tags]: () =>
+      this.item
+        .getTags()
+        .map(({ tag }) => tag)
+        .filter((tag) => tag !== NOTION_TAG_NAME),
+    [ComputedValue.title]: () => this.getTitle(),
+    [ComputedValue.url]: () => this.item.getField('url') || null,
+    [ComputedValue.year]: () => {
+      const year = Number.parseInt(this.item.getField('year') || '');
+      return Number.isNaN(year) ? null : year;
     },
-  ];
+    [ComputedValue.zoteroURI]: () => getItemURL(this.item),
+  };
 }
@@ -0,0 +1,159 @@
+import { truncateMiddle } from '../utils';
+
+import { LIMITS } from './notion-limits';
+import type {
+  DatabaseRequestProperty,
+  RequestPropertyType,
+  RichTextOptions,
+} from './notion-types';
+import { buildDate, buildDateFromText, buildRichText } from './notion-utils';
+
+/**
+ * A value of a Zotero item before it is converted to a Notion property
+ */
+export type PropertyValue =
+  | Date
+  | number
+  | string
+  | string[]
+  | null
+  | undefined;
+
+/**
+ * Notion property types that values of each type can be converted to
+ */
+export const COMPATIBLE_PROPERTY_TYPES = {
+  date: ['date', 'rich_text'],
+  multi_select: ['multi_select', 'rich_text', 'select'],
+  number: ['number', 'multi_select', 'rich_text', 'select'],
+  relation: ['relation'],
+  rich_text: [
+    'rich_text',
+    'checkbox',
+    'date',
+    'multi_select',
+    'number',
+    'select',
+    'url',
+  ],
+  select: ['select', 'multi_select', 'rich_text'],
+  url: ['url', 'rich_text'],
+} as const satisfies Partial<
+  Record<RequestPropertyType, readonly RequestPropertyType[]>
+>;
+
+/** Property type that a value has before it is converted */
+export type ValueType = keyof typeof COMPATIBLE_PROPERTY_TYPES;
+
+type CompatibleType = (typeof COMPATIBLE_PROPERTY_TYPES)[ValueType][number];
+
+const CHECKED_TEXT_PATTERN = /^(true|yes|y|x|1|✓|✔)$/i;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Check whether values of a type can be converted to a Notion property type.
+ */
+export function isCompatiblePropertyType(
+  valueType: ValueType,
+  propertyType: string,
+): propertyType is CompatibleType {
+  return (COMPATIBLE_PROPERTY_TYPES[valueType] as readonly string[]).includes(
+    propertyType,
+  );
+}
+
+/**
+ * Convert a value to a Notion property of the given type.
+ * @param value The value to convert.
+ * @param type The type of the Notion property.
+ * @param options Options used when converting to rich text.
+ */
+export function coercePropertyValue(
+  value: PropertyValue,
+  type: CompatibleType,
+  options: RichTextOptions = {},
+): DatabaseRequestProperty {
+  switch (type) {
+    case 'checkbox':
+      return { type, checkbox: convertToCheckbox(value) };
+    case 'date':
+      return {
+        type,
+        date:
+          value instanceof Date
+            ? buildDate(value)
+            : buildDateFromText(convertToText(value)),
+      };
+    case 'multi_select':
+      return {
+        type,
+        multi_select: convertToOptionNames(value).map((name) => ({
+          name: sanitizeSelectOption(name),
+        })),
+      };
+    case 'number':
+      return { type, number: convertToNumber(value) };
+    case 'relation':
+      return {
+        type,
+        relation: convertToOptionNames(value)
+          .slice(0, LIMITS.RELATION_RELATED_PAGES)
+          .map((id) => ({ id })),
+      };
+    case 'rich_text':
+      return { type, rich_text: buildRichText(convertToText(value), options) };
+    case 'select': {
+      const [name] = convertToOptionNames(value);
+      return {
+        type,
+        select: name ? { name: sanitizeSelectOption(name) } : null,
+      };
+    }
+    case 'url':
+      return { type, url: convertToText(value) || null };
+  }
+}
+
+/**
+ * Sanitize name of select option to conform to the following constraints:
+ * - Commas (`,`) are not valid
+ * - Length must be <= 100
+ *
+ * @see https://developers.notion.com/reference/property-object#select
+ */
+export function sanitizeSelectOption(text: string): string {
+  return truncateMiddle(
+    text.replace(/,/g, ';'),
+    LIMITS.SELECT_OPTION_CHARACTERS,
+  );
+}
+
+function convertToCheckbox(value: PropertyValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0;
+  return CHECKED_TEXT_PATTERN.test(convertToText(value).trim());
+}
+
+function convertToNumber(value: PropertyValue): number | null {
+  if (typeof value === 'number') return value;
+
+  const text = convertToText(value).trim();
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+}
+
+/**
+ * Convert a value to select option names. Text is split into one option per
+ * line, so that values such as authors become separate options.
+ */
+function convertToOptionNames(value: PropertyValue): string[] {
+  const names = Array.isArray(value) ? value : convertToText(value).split('\n');
+
+  return names.map((name) => name.trim()).filter(Boolean);
+}
+
+function convertToText(value: PropertyValue): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
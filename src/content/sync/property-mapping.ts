@@ -0,0 +1,208 @@
+import type { FluentMessageId } from '../../locale/fluent-types';
+import { getNoteroPref, NoteroPref } from '../prefs/notero-pref';
+import {
+  ComputedValue,
+  getItemFieldName,
+  isItemFieldSource,
+  type PropertyMapping,
+  type PropertySource,
+} from '../prefs/property-mappings';
+
+import type { DatabaseProperties } from './notion-types';
+import { normalizeID } from './notion-utils';
+import { isCompatiblePropertyType, type ValueType } from './property-coercion';
+
+/**
+ * Types of each computed value, which are also the Notion property types that
+ * they sync to by default
+ */
+export const COMPUTED_VALUE_TYPES = {
+  [ComputedValue.abstract]: 'rich_text',
+  [ComputedValue.authors]: 'rich_text',
+  [ComputedValue.citationKey]: 'rich_text',
+  [ComputedValue.collections]: 'multi_select',
+  [ComputedValue.date]: 'rich_text',
+  [ComputedValue.dateAdded]: 'date',
+  [ComputedValue.dateModified]: 'date',
+  [ComputedValue.doi]: 'url',
+  [ComputedValue.editors]: 'rich_text',
+  [ComputedValue.extra]: 'rich_text',
+  [ComputedValue.filePath]: 'rich_text',
+  [ComputedValue.fullCitation]: 'rich_text',
+  [ComputedValue.inTextCitation]: 'rich_text',
+  [ComputedValue.itemType]: 'select',
+  [ComputedValue.place]: 'rich_text',
+  [ComputedValue.proceedingsTitle]: 'rich_text',
+  [ComputedValue.publication]: 'rich_text',
+  [ComputedValue.relatedItems]: 'relation',
+  [ComputedValue.seriesTitle]: 'rich_text',
+  [ComputedValue.shortTitle]: 'rich_text',
+  [ComputedValue.tags]: 'multi_select',
+  [ComputedValue.title]: 'rich_text',
+  [ComputedValue.url]: 'url',
+  [ComputedValue.year]: 'number',
+  [ComputedValue.zoteroURI]: 'url',
+} as const satisfies Record<ComputedValue, ValueType>;
+
+/** Type of Zotero item fields */
+export const ITEM_FIELD_TYPE = 'rich_text' satisfies ValueType;
+
+/**
+ * Computed values listing creators, which can also sync to a relation with
+ * pages in the People database
+ */
+export const CREATOR_VALUES: ReadonlySet<PropertySource> = new Set([
+  ComputedValue.authors,
+  ComputedValue.editors,
+]);
+
+export type PropertyMappingStatus =
+  | 'deletedProperty'
+  | 'duplicateProperty'
+  | 'incompatibleType'
+  | 'missingProperty'
+  | 'unknownField'
+  | 'valid';
+
+export const PROPERTY_MAPPING_STATUS_L10N_IDS: Record<
+  PropertyMappingStatus,
+  FluentMessageId
+> = {
+  deletedProperty: 'notero-property-mapping-status-deleted-property',
+  duplicateProperty: 'notero-property-mapping-status-duplicate-property',
+  incompatibleType: 'notero-property-mapping-status-incompatible-type',
+  missingProperty: 'notero-property-mapping-status-missing-property',
+  unknownField: 'notero-property-mapping-status-unknown-field',
+  valid: 'notero-property-mapping-status-valid',
+};
+
+/**
+ * Return the type of the values of a property source.
+ */
+export function getPropertySourceType(source: PropertySource): ValueType {
+  return isItemFieldSource(source)
+    ? ITEM_FIELD_TYPE
+    : COMPUTED_VALUE_TYPES[source];
+}
+
+/**
+ * Preferences of the databases whose pages property sources can relate to
+ */
+const RELATED_DATABASE_PREFS = new Map<
+  PropertySource,
+  NoteroPref.collectionsDatabaseID | NoteroPref.peopleDatabaseID
+>([
+  [ComputedValue.authors, NoteroPref.peopleDatabaseID],
+  [ComputedValue.collections, NoteroPref.collectionsDatabaseID],
+  [ComputedValue.editors, NoteroPref.peopleDatabaseID],
+]);
+
+/**
+ * Check whether values of a property source can sync to a Notion property.
+ * Creators and collections can also sync to a relation with the People or
+ * Collections database, but only when that database is configured.
+ */
+export function isCompatibleSourceType(
+  source: PropertySource,
+  property: DatabaseProperties[string],
+): boolean {
+  const databasePref = RELATED_DATABASE_PREFS.get(source);
+
+  if (property.type === 'relation' && databasePref) {
+    const databaseID = getNoteroPref(databasePref);
+    if (!databaseID) return false;
+
+    return (
+      normalizeID(property.relation.database_id) === normalizeID(databaseID)
+    );
+  }
+
+  return isCompatiblePropertyType(getPropertySourceType(source), property.type);
+}
+
+export type PropertyMappingResolution = {
+  mapping: PropertyMapping;
+  /** The property that the mapping resolved to, if any */
+  property?: DatabaseProperties[string];
+  /** Whether the mapping is bound to a property ID in the database */
+  bound: boolean;
+  status: PropertyMappingStatus;
+};
+
+/**
+ * Resolve each property mapping to a property of a Notion database. Mappings
+ * bound to a property ID are resolved by ID, and other mappings are resolved
+ * by name. Only the first mapping to a given property name is used, so later
+ * ones are reported as duplicates.
+ *
+ * @param mappings The property mappings to resolve.
+ * @param databaseID The ID of the target database.
+ * @param databaseProperties The properties of the target database.
+ * @returns The resolution of each mapping, in the same order as the mappings.
+ */
+export function resolvePropertyMappings(
+  mappings: readonly PropertyMapping[],
+  databaseID: string,
+  databaseProperties: DatabaseProperties,
+): PropertyMappingResolution[] {
+  const normalizedDatabaseID = normalizeID(databaseID);
+  const properties = Object.values(databaseProperties);
+  const mappedNames = new Set<string>();
+
+  return mappings.map((mapping) => {
+    const { propertyName, source } = mapping;
+    const propertyID = mapping.propertyIDs?.[normalizedDatabaseID];
+    const bound = Boolean(propertyID);
+
+    if (mappedNames.has(propertyName)) {
+      return { mapping, bound, status: 'duplicateProperty' };
+    }
+    mappedNames.add(propertyName);
+
+    if (
+      isItemFieldSource(source) &&
+      !Zotero.ItemFields.getID(getItemFieldName(source))
+    ) {
+      return { mapping, bound, status: 'unknownField' };
+    }
+
+    const property = propertyID
+      ? properties.find(({ id }) => id === propertyID)
+      : databaseProperties[propertyName];
+
+    if (!property) {
+      return {
+        mapping,
+        bound,
+        status: bound ? 'deletedProperty' : 'missingProperty',
+      };
+    }
+
+    return {
+      mapping,
+      property,
+      bound,
+      status: isCompatibleSourceType(source, property)
+        ? 'valid'
+        : 'incompatibleType',
+    };
+  });
+}
+
+/**
+ * Check whether each property mapping can sync to a Notion database.
+ *
+ * @param mappings The property mappings to validate.
+ * @param databaseID The ID of the target database.
+ * @param databaseProperties The properties of the target database.
+ * @returns The status of each mapping, in the same order as the mappings.
+ */
+export function validatePropertyMappings(
+  mappings: readonly PropertyMapping[],
+  databaseID: string,
+  databaseProperties: DatabaseProperties,
+): PropertyMappingStatus[] {
+  return resolvePropertyMappings(mappings, databaseID, databaseProperties).map(
+    ({ status }) => status,
+  );
+}
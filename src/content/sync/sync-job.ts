@@ -1,32 +1,196 @@
 import { type Client } from '@notionhq/client';
 
 import { APA_STYLE } from '../constants';
+import { getNotionPageID } from '../data/item-data';
 import { ItemSyncError } from '../errors';
+import {
+  type CollectionSyncConfigsRecord,
+  getNotionDatabaseIDForItem,
+  loadSyncEnabledConfigs,
+} from '../prefs/collection-sync-config';
 import {
   NoteroPref,
   PageTitleFormat,
   getNoteroPref,
   getRequiredNoteroPref,
 } from '../prefs/notero-pref';
-import { getLocalizedErrorMessage, logger } from '../utils';
+import {
+  bindPropertyMappings,
+  ComputedValue,
+  loadPropertyMappings,
+  type PropertyMapping,
+} from '../prefs/property-mappings';
+import { getLocalizedErrorMessage, getRelatedItems, logger } from '../utils';
 
+import { CollectionsDatabase } from './collections-database';
 import { getNotionClient } from './notion-client';
 import type { DatabaseProperties } from './notion-types';
+import { isNetworkError, normalizeID } from './notion-utils';
+import { PeopleDatabase } from './people-database';
 import { ProgressWindow } from './progress-window';
-import { syncNoteItem } from './sync-note-item';
+import { resolvePropertyMappings } from './property-mapping';
+import { syncItemAnnotations, syncNoteItem } from './sync-note-item';
+import { type ItemSyncPreview, previewItem } from './sync-preview';
+import { SyncPreviewWindow } from './sync-preview-window';
 import { syncRegularItem } from './sync-regular-item';
+import type { ItemSyncResult, SyncOutcome } from './sync-result';
+import { syncTrashedItem } from './sync-trashed-item';
 
 export type SyncJobParams = {
   citationFormat: string;
+  collectionsDatabase?: CollectionsDatabase;
   databaseID: string;
   databaseProperties: DatabaseProperties;
   notion: Client;
   pageTitleFormat: PageTitleFormat;
+  pageTitleTemplate: string;
+  peopleDatabase?: PeopleDatabase;
+  propertyMappings: PropertyMapping[];
+};
+
+/**
+ * Params shared by all items in a sync job, along with a Notion client for
+ * each target database
+ */
+type SyncJobContext = Omit<
+  SyncJobParams,
+  'databaseID' | 'databaseProperties' | 'notion'
+> & {
+  notionClients: Map<string, Client>;
+};
+
+export type SyncJobResult = {
+  /**
+   * IDs of previously synced items that are related to items whose pages were
+   * created, so that their relations can include the new pages
+   */
+  relatedItemIDs: Set<Zotero.Item['id']>;
+  /** IDs of items that did not sync because Notion was unreachable */
+  unreachableItemIDs: Set<Zotero.Item['id']>;
+};
+
+type NotionAuthTokenGetter = (databaseID: string) => Promise<string>;
+
+type DatabaseItem = {
+  databaseID: string;
+  item: Zotero.Item;
+};
+
+type SyncItemsResult = {
+  relatedItemIDs: Zotero.Item['id'][];
+  results: ItemSyncResult[];
+  unreachableItems: Zotero.Item[];
 };
 
+/**
+ * Sync the given items to Notion.
+ *
+ * When Notion cannot be reached, the job stops without reporting an error and
+ * the items that did not sync are returned so that they can be retried later.
+ * Items related to those whose pages were created are also returned, so that
+ * they can be synced again with relations to the new pages.
+ */
 export async function performSyncJob(
   itemIDs: Set<Zotero.Item['id']>,
-  getNotionAuthToken: () => Promise<string>,
+  getNotionAuthToken: NotionAuthTokenGetter,
+  window: Window,
+): Promise<SyncJobResult> {
+  const items = Zotero.Items.get(Array.from(itemIDs));
+  if (!items.length) return buildSyncJobResult();
+
+  if (!window.navigator.onLine) {
+    logger.warn('Network is offline - deferring sync of items', itemIDs);
+    return buildSyncJobResult([], itemIDs);
+  }
+
+  const progressWindow = new ProgressWindow(items.length, window);
+  await progressWindow.show();
+
+  try {
+    const databaseItems = groupItemsByDatabase(items);
+    const context = await prepareSyncJob(
+      databaseItems,
+      getNotionAuthToken,
+      window,
+      progressWindow,
+    );
+    const { relatedItemIDs, results, unreachableItems } = await syncItems(
+      databaseItems,
+      progressWindow,
+      context,
+      window,
+    );
+    await progressWindow.complete(results);
+    return buildSyncJobResult(
+      relatedItemIDs,
+      unreachableItems.map(({ id }) => id),
+    );
+  } catch (error) {
+    if (isNetworkError(error)) {
+      logger.warn('Notion is unreachable - deferring sync of items', error);
+      progressWindow.close();
+      return buildSyncJobResult([], itemIDs);
+    }
+
+    await handleError(error, progressWindow, window);
+    return buildSyncJobResult();
+  }
+}
+
+function buildSyncJobResult(
+  relatedItemIDs: Iterable<Zotero.Item['id']> = [],
+  unreachableItemIDs: Iterable<Zotero.Item['id']> = [],
+): SyncJobResult {
+  return {
+    relatedItemIDs: new Set(relatedItemIDs),
+    unreachableItemIDs: new Set(unreachableItemIDs),
+  };
+}
+
+/**
+ * Return the IDs of items that already have Notion pages and are related to an
+ * item whose page was just created. Their relations were synced before the new
+ * page existed, so they are filled in by syncing the items again.
+ *
+ * Only items that sync to the database of the new page are returned, and only
+ * when that database has a relation property for related items.
+ */
+function getRelatedItemIDsToResync(
+  item: Zotero.Item,
+  { databaseID, databaseProperties, propertyMappings }: SyncJobParams,
+): Zotero.Item['id'][] {
+  const hasRelatedItemsRelation = propertyMappings.some(
+    ({ propertyName, source }) => {
+      const property = databaseProperties[propertyName];
+      return (
+        source === ComputedValue.relatedItems &&
+        property?.type === 'relation' &&
+        normalizeID(property.relation.database_id) === databaseID
+      );
+    },
+  );
+  if (!hasRelatedItemsRelation) return [];
+
+  const syncEnabledConfigs = loadSyncEnabledConfigs();
+
+  return getRelatedItems(item)
+    .filter(
+      (relatedItem) =>
+        relatedItem.isRegularItem() &&
+        Boolean(getNotionPageID(relatedItem)) &&
+        getItemDatabaseID(relatedItem, syncEnabledConfigs) === databaseID,
+    )
+    .map(({ id }) => id);
+}
+
+/**
+ * Preview what a sync job would send to Notion without writing anything.
+ * Properties and note blocks are built as they would be during a sync, and
+ * properties are compared against those of any existing Notion pages.
+ */
+export async function previewSyncJob(
+  itemIDs: Set<Zotero.Item['id']>,
+  getNotionAuthToken: NotionAuthTokenGetter,
   window: Window,
 ): Promise<void> {
   const items = Zotero.Items.get(Array.from(itemIDs));
@@ -36,37 +200,161 @@ export async function performSyncJob(
   await progressWindow.show();
 
   try {
-    const params = await prepareSyncJob(getNotionAuthToken, window);
-    await syncItems(items, progressWindow, params);
+    const databaseItems = groupItemsByDatabase(items);
+    const context = await prepareSyncJob(
+      databaseItems,
+      getNotionAuthToken,
+      window,
+      progressWindow,
+      { preview: true },
+    );
+    const previews = await previewItems(
+      databaseItems,
+      progressWindow,
+      context,
+      window,
+    );
+    progressWindow.close();
+    await new SyncPreviewWindow(window).open(previews);
   } catch (error) {
     await handleError(error, progressWindow, window);
   }
 }
 
 async function prepareSyncJob(
-  getNotionAuthToken: () => Promise<string>,
+  databaseItems: DatabaseItem[],
+  getNotionAuthToken: NotionAuthTokenGetter,
   window: Window,
-): Promise<SyncJobParams> {
-  const authToken = await getNotionAuthToken();
-  const notion = getNotionClient(authToken, window);
-  const databaseID = getRequiredNoteroPref(NoteroPref.notionDatabaseID);
-  const databaseProperties = await retrieveDatabaseProperties(
-    notion,
-    databaseID,
-  );
+  progressWindow: ProgressWindow,
+  { preview = false }: { preview?: boolean } = {},
+): Promise<SyncJobContext> {
+  const notionClients = new Map<string, Client>();
+
+  // Use the token of the workspace that can access each database
+  const getClient = async (databaseID: string) => {
+    const authToken = await getNotionAuthToken(databaseID);
+    return getNotionClient(authToken, window, {
+      onRetry: (info) => {
+        void progressWindow.updateRetryText(info);
+      },
+    });
+  };
+
+  for (const { databaseID } of databaseItems) {
+    if (notionClients.has(databaseID)) continue;
+    notionClients.set(databaseID, await getClient(databaseID));
+  }
+
+  // Previews only link to existing collections and people to avoid writing
+  // to Notion
+  const collectionsDatabaseID = getNoteroPref(NoteroPref.collectionsDatabaseID);
+  const collectionsDatabase =
+    collectionsDatabaseID &&
+    new CollectionsDatabase(
+      await getClient(collectionsDatabaseID),
+      collectionsDatabaseID,
+      { readOnly: preview },
+    );
+
+  const peopleDatabaseID = getNoteroPref(NoteroPref.peopleDatabaseID);
+  const peopleDatabase =
+    peopleDatabaseID &&
+    new PeopleDatabase(await getClient(peopleDatabaseID), peopleDatabaseID, {
+      createMissing: !preview,
+    });
+
   const citationFormat = getCitationFormat();
   const pageTitleFormat = getPageTitleFormat();
+  const pageTitleTemplate = getNoteroPref(NoteroPref.pageTitleTemplate) || '';
+  const propertyMappings = loadPropertyMappings();
 
   return {
     citationFormat,
-    databaseID,
-    databaseProperties,
-    notion,
+    ...(collectionsDatabase && { collectionsDatabase }),
+    notionClients,
     pageTitleFormat,
+    pageTitleTemplate,
+    ...(peopleDatabase && { peopleDatabase }),
+    propertyMappings,
+  };
+}
+
+/**
+ * Order items so that those syncing to the same Notion database are grouped
+ * together, preserving their order within each group. Notes are grouped with
+ * their parent items so that they still sync after them.
+ */
+function groupItemsByDatabase(items: Zotero.Item[]): DatabaseItem[] {
+  const syncEnabledConfigs = loadSyncEnabledConfigs();
+  const groups = new Map<string, DatabaseItem[]>();
+
+  items.forEach((item) => {
+    const databaseID = getItemDatabaseID(item, syncEnabledConfigs);
+    groups.set(databaseID, [
+      ...(groups.get(databaseID) ?? []),
+      { databaseID, item },
+    ]);
+  });
+
+  return Array.from(groups.values()).flat();
+}
+
+/**
+ * Get the normalized ID of the Notion database that an item syncs to.
+ */
+function getItemDatabaseID(
+  item: Zotero.Item,
+  syncEnabledConfigs: CollectionSyncConfigsRecord,
+): string {
+  return normalizeID(
+    getNotionDatabaseIDForItem(item.topLevelItem, syncEnabledConfigs) ||
+      getRequiredNoteroPref(NoteroPref.notionDatabaseID),
+  );
+}
+
+/**
+ * Create a function that returns the params for syncing to a given Notion
+ * database. The properties of each database are retrieved only once.
+ */
+function createParamsGetter(
+  { notionClients, propertyMappings, ...context }: SyncJobContext,
+  progressWindow: ProgressWindow,
+  window: Window,
+): (databaseID: string) => Promise<SyncJobParams> {
+  const paramsByDatabase = new Map<string, Promise<SyncJobParams>>();
+
+  return (databaseID) => {
+    let params = paramsByDatabase.get(databaseID);
+
+    if (!params) {
+      const notion = notionClients.get(databaseID);
+      if (!notion) {
+        throw new Error(`No Notion client for database: ${databaseID}`);
+      }
+
+      params = retrieveDatabaseProperties(notion, databaseID).then(
+        async (databaseProperties) => ({
+          ...context,
+          databaseID,
+          databaseProperties,
+          notion,
+          propertyMappings: await resolveDatabasePropertyMappings(
+            propertyMappings,
+            databaseID,
+            databaseProperties,
+            progressWindow,
+            window,
+          ),
+        }),
+      );
+      paramsByDatabase.set(databaseID, params);
+    }
+
+    return params;
   };
 }
 
-function getCitationFormat(): string {
+export function getCitationFormat(): string {
   const format = Zotero.Prefs.get('export.quickCopy.setting');
 
   if (typeof format === 'string' && format) return format;
@@ -89,15 +377,76 @@ async function retrieveDatabaseProperties(
   return database.properties;
 }
 
+/**
+ * Resolve property mappings to the current names of the properties in a Notion
+ * database, and bind newly resolved mappings to their property IDs so that
+ * they keep syncing when the properties are renamed. Bound properties that
+ * were deleted or changed type are reported as warnings.
+ */
+async function resolveDatabasePropertyMappings(
+  mappings: PropertyMapping[],
+  databaseID: string,
+  databaseProperties: DatabaseProperties,
+  progressWindow: ProgressWindow,
+  window: Window,
+): Promise<PropertyMapping[]> {
+  const resolutions = resolvePropertyMappings(
+    mappings,
+    databaseID,
+    databaseProperties,
+  );
+
+  const bindings = resolutions.flatMap(
+    ({ bound, mapping, property, status }) =>
+      !bound && property && status === 'valid'
+        ? [{ mapping, propertyID: property.id }]
+        : [],
+  );
+  if (bindings.length) bindPropertyMappings(databaseID, bindings);
+
+  for (const { bound, mapping, status } of resolutions) {
+    if (!bound) continue;
+
+    if (status === 'deletedProperty') {
+      logger.warn('Bound Notion property was deleted', mapping.propertyName);
+      const message =
+        (await window.document.l10n.formatValue(
+          'notero-progress-property-deleted',
+          { property: mapping.propertyName },
+        )) || `Notion property "${mapping.propertyName}" was deleted`;
+      progressWindow.addWarning(message);
+    } else if (status === 'incompatibleType') {
+      logger.warn('Bound Notion property changed type', mapping.propertyName);
+      const message =
+        (await window.document.l10n.formatValue(
+          'notero-progress-property-type-changed',
+          { property: mapping.propertyName },
+        )) || `Notion property "${mapping.propertyName}" changed type`;
+      progressWindow.addWarning(message);
+    }
+  }
+
+  return resolutions.flatMap(({ mapping, property, status }) =>
+    property && status === 'valid'
+      ? [{ ...mapping, propertyName: property.name }]
+      : [],
+  );
+}
+
 async function syncItems(
-  items: Zotero.Item[],
+  databaseItems: DatabaseItem[],
   progressWindow: ProgressWindow,
-  params: SyncJobParams,
-) {
-  for (const [index, item] of items.entries()) {
+  context: SyncJobContext,
+  window: Window,
+): Promise<SyncItemsResult> {
+  const relatedItemIDs: Zotero.Item['id'][] = [];
+  const results: ItemSyncResult[] = [];
+  const getParams = createParamsGetter(context, progressWindow, window);
+
+  for (const [index, { databaseID, item }] of databaseItems.entries()) {
     const step = index + 1;
     logger.groupCollapsed(
-      `Syncing item ${step} of ${items.length} with ID`,
+      `Syncing item ${step} of ${databaseItems.length} with ID`,
       item.id,
     );
     logger.debug(item.getDisplayTitle());
@@ -105,13 +454,35 @@ async function syncItems(
     await progressWindow.updateText(step);
 
     try {
-      if (item.isNote()) {
-        await syncNoteItem(item, params.notion);
-      } else {
-        await syncRegularItem(item, params);
+      const params = await getParams(databaseID);
+      const outcome = await syncItem(item, params);
+      logger.debug('Sync outcome:', outcome);
+      results.push({ item, outcome });
+
+      if (outcome === 'created' && item.isRegularItem()) {
+        relatedItemIDs.push(...getRelatedItemIDsToResync(item, params));
       }
-    } catch (error) {
-      throw new ItemSyncError(error, item);
+    } catch (cause) {
+      if (isNetworkError(cause)) {
+        logger.warn('Notion is unreachable - stopping sync', cause);
+        return {
+          relatedItemIDs,
+          results,
+          unreachableItems: databaseItems.slice(index).map(({ item }) => item),
+        };
+      }
+
+      const error = new ItemSyncError(cause, item);
+      logger.error(error, item.getDisplayTitle());
+      results.push({
+        item,
+        outcome: 'failed',
+        error,
+        errorMessage: await getLocalizedErrorMessage(
+          cause,
+          window.document.l10n,
+        ),
+      });
     } finally {
       logger.groupEnd();
     }
@@ -119,28 +490,72 @@ async function syncItems(
     progressWindow.updateProgress(step);
   }
 
-  progressWindow.complete();
+  return { relatedItemIDs, results, unreachableItems: [] };
 }
 
-async function handleError(
-  error: unknown,
+async function previewItems(
+  databaseItems: DatabaseItem[],
   progressWindow: ProgressWindow,
+  context: SyncJobContext,
   window: Window,
-) {
-  let cause = error;
-  let failedItem: Zotero.Item | undefined;
+): Promise<ItemSyncPreview[]> {
+  const previews: ItemSyncPreview[] = [];
+  const getParams = createParamsGetter(context, progressWindow, window);
+
+  for (const [index, { databaseID, item }] of databaseItems.entries()) {
+    const step = index + 1;
+    await progressWindow.updateText(step);
+
+    try {
+      previews.push(await previewItem(item, await getParams(databaseID)));
+    } catch (cause) {
+      logger.error(new ItemSyncError(cause, item), item.getDisplayTitle());
+      previews.push({
+        item,
+        kind: 'failed',
+        errorMessage: await getLocalizedErrorMessage(
+          cause,
+          window.document.l10n,
+        ),
+      });
+    }
 
-  if (error instanceof ItemSyncError) {
-    cause = error.cause;
-    failedItem = error.item;
+    progressWindow.updateProgress(step);
+  }
+
+  return previews;
+}
+
+function syncItem(
+  item: Zotero.Item,
+  params: SyncJobParams,
+): Promise<SyncOutcome> | SyncOutcome {
+  if (item.deleted) {
+    return item.isRegularItem()
+      ? syncTrashedItem(item, params.notion)
+      : 'skipped';
   }
 
+  if (item.isNote()) {
+    return syncNoteItem(item, params.notion);
+  }
+  if (item.isAttachment()) {
+    return syncItemAnnotations(item.topLevelItem, params.notion);
+  }
+  return syncRegularItem(item, params);
+}
+
+async function handleError(
+  error: unknown,
+  progressWindow: ProgressWindow,
+  window: Window,
+) {
   const errorMessage = await getLocalizedErrorMessage(
-    cause,
+    error,
     window.document.l10n,
   );
 
-  logger.error(error, failedItem?.getDisplayTitle());
+  logger.error(error);
 
-  progressWindow.fail(errorMessage, failedItem);
+  progressWindow.fail(errorMessage);
 }
@@ -0,0 +1,498 @@
+import type { Client } from '@notionhq/client';
+import type {
+  BlockObjectRequest,
+  UpdateBlockParameters,
+} from '@notionhq/client/build/src/api-endpoints';
+
+import type { SyncedBlock } from '../data/item-data';
+import { isObject } from '../utils';
+
+import { LIMITS } from './notion-limits';
+import type { BlockType } from './notion-types';
+import { isArchivedOrNotFoundError } from './notion-utils';
+
+/**
+ * Types of blocks that are replaced rather than updated when their content
+ * changes, as the Notion API does not allow changing all of their content
+ */
+const REPLACED_BLOCK_TYPES: ReadonlySet<BlockType> = new Set<BlockType>([
+  'table',
+]);
+
+/**
+ * Keys identifying blocks across syncs, such as the annotation that a block
+ * was built from. Blocks with keys are only matched with synced blocks that
+ * have the same key, even if their content changed.
+ */
+export type BlockKeys = {
+  /** Keys of the blocks to sync */
+  readonly blocks: ReadonlyMap<BlockObjectRequest, string>;
+  /** Keys of the synced blocks, by block ID */
+  readonly syncedBlocks: ReadonlyMap<string, string>;
+};
+
+const NO_BLOCK_KEYS: BlockKeys = { blocks: new Map(), syncedBlocks: new Map() };
+
+type SyncContext = {
+  keys: BlockKeys;
+  notion: Client;
+};
+
+type NewBlock = {
+  block: BlockObjectRequest;
+  children: BlockObjectRequest[];
+  fingerprint: string;
+  key?: string;
+  type: BlockType;
+};
+
+/**
+ * Append blocks to a parent block, including all nested children.
+ *
+ * Children are appended separately from their parent so that the IDs of all
+ * blocks are known and so that blocks can be nested deeper than the two
+ * levels allowed by the Notion API in a single request.
+ *
+ * @param notion The Notion client.
+ * @param parentID The ID of the block to append blocks to.
+ * @param blocks The blocks to append.
+ * @param keys The keys of the blocks, if any.
+ * @returns The tree of appended blocks to save for later updates.
+ */
+export async function appendNoteBlocks(
+  notion: Client,
+  parentID: string,
+  blocks: BlockObjectRequest[],
+  keys = NO_BLOCK_KEYS,
+): Promise<SyncedBlock[]> {
+  const context = { keys, notion };
+  return appendBlocks(
+    context,
+    parentID,
+    blocks.map((block) => toNewBlock(context, block)),
+    undefined,
+  );
+}
+
+/**
+ * Update the children of a block that were previously appended so that they
+ * match the given blocks. Only blocks that were changed, inserted, or removed
+ * since the last sync are patched, which preserves the IDs of unchanged
+ * blocks along with any comments and backlinks on them in Notion.
+ *
+ * @param notion The Notion client.
+ * @param parentID The ID of the block containing the synced blocks.
+ * @param syncedBlocks The tree of blocks saved after the last sync.
+ * @param blocks The blocks that the children should match.
+ * @param keys The keys of the blocks and synced blocks, if any.
+ * @returns The tree of updated blocks to save for later updates.
+ */
+export async function updateNoteBlocks(
+  notion: Client,
+  parentID: string,
+  syncedBlocks: SyncedBlock[],
+  blocks: BlockObjectRequest[],
+  keys = NO_BLOCK_KEYS,
+): Promise<SyncedBlock[]> {
+  const context = { keys, notion };
+  return updateBlocks(
+    context,
+    parentID,
+    syncedBlocks,
+    blocks.map((block) => toNewBlock(context, block)),
+  );
+}
+
+/**
+ * Find the IDs of the blocks with keys in the tree of blocks returned after
+ * appending or updating them.
+ * @param blocks The blocks that were appended or updated.
+ * @param syncedBlocks The tree of blocks returned for the blocks.
+ * @param blockKeys The keys of the blocks.
+ * @returns The IDs of the blocks, by key.
+ */
+export function getBlockIDsByKey(
+  blocks: BlockObjectRequest[],
+  syncedBlocks: SyncedBlock[],
+  blockKeys: BlockKeys['blocks'],
+): Map<string, string> {
+  const blockIDs = new Map<string, string>();
+
+  const addBlockIDs = (
+    blocks: BlockObjectRequest[],
+    syncedBlocks: SyncedBlock[],
+  ) => {
+    blocks.forEach((block, index) => {
+      const syncedBlock = syncedBlocks[index];
+      if (!syncedBlock) return;
+
+      const key = blockKeys.get(block);
+      if (key) blockIDs.set(key, syncedBlock.id);
+
+      addBlockIDs(getChildren(block), syncedBlock.children ?? []);
+    });
+  };
+
+  addBlockIDs(blocks, syncedBlocks);
+
+  return blockIDs;
+}
+
+/**
+ * Count blocks along with all of their nested children.
+ */
+export function countBlocks(blocks: BlockObjectRequest[]): number {
+  return blocks.reduce(
+    (count, block) => count + 1 + countBlocks(getChildren(block)),
+    0,
+  );
+}
+
+/**
+ * Build a fingerprint of a block excluding its children, so that blocks can
+ * be compared without storing their content.
+ */
+export function buildBlockFingerprint(block: BlockObjectRequest): string {
+  return Zotero.Utilities.Internal.md5(JSON.stringify(stripChildren(block)));
+}
+
+async function appendBlocks(
+  context: SyncContext,
+  parentID: string,
+  blocks: NewBlock[],
+  after: string | undefined,
+): Promise<SyncedBlock[]> {
+  const syncedBlocks: SyncedBlock[] = [];
+  let previousID = after;
+
+  for (let i = 0; i < blocks.length; i += LIMITS.BLOCK_ARRAY_ELEMENTS) {
+    const batch = blocks.slice(i, i + LIMITS.BLOCK_ARRAY_ELEMENTS);
+    const { results } = await context.notion.blocks.children.append({
+      block_id: parentID,
+      children: batch.map(({ block }) => stripChildren(block)),
+      ...(previousID && { after: previousID }),
+    });
+
+    for (const [index, newBlock] of batch.entries()) {
+      const result = results[index];
+      if (!result) {
+        throw new Error(`Failed to append block to ${parentID}`);
+      }
+      syncedBlocks.push(
+        buildSyncedBlock(
+          result.id,
+          newBlock,
+          await appendBlocks(
+            context,
+            result.id,
+            newBlock.children.map((block) => toNewBlock(context, block)),
+            undefined,
+          ),
+        ),
+      );
+      previousID = result.id;
+    }
+  }
+
+  return syncedBlocks;
+}
+
+async function updateBlocks(
+  context: SyncContext,
+  parentID: string,
+  syncedBlocks: SyncedBlock[],
+  blocks: NewBlock[],
+): Promise<SyncedBlock[]> {
+  const [firstBlock] = blocks;
+  if (!firstBlock) {
+    await deleteBlocks(context.notion, syncedBlocks);
+    return [];
+  }
+
+  // Blocks can only be inserted after an existing block, so the first block
+  // must be kept in place to preserve the order of the remaining blocks
+  const anchorIndex = findAnchorIndex(context, syncedBlocks, firstBlock);
+  const anchorBlock = syncedBlocks[anchorIndex];
+
+  if (!anchorBlock) {
+    await deleteBlocks(context.notion, syncedBlocks);
+    return appendBlocks(context, parentID, blocks, undefined);
+  }
+
+  await deleteBlocks(context.notion, syncedBlocks.slice(0, anchorIndex));
+  const syncedFirstBlock = await updateBlock(context, anchorBlock, firstBlock);
+
+  return [
+    syncedFirstBlock,
+    ...(await updateBlocksAfter(
+      context,
+      parentID,
+      syncedFirstBlock.id,
+      syncedBlocks.slice(anchorIndex + 1),
+      blocks.slice(1),
+    )),
+  ];
+}
+
+/**
+ * Find the synced block to keep as the first block, preferring a matching
+ * block over the first block of the same type.
+ * @returns The index of the synced block, or -1 if none can be kept.
+ */
+function findAnchorIndex(
+  context: SyncContext,
+  syncedBlocks: SyncedBlock[],
+  firstBlock: NewBlock,
+): number {
+  const matchingIndex = syncedBlocks.findIndex(
+    (syncedBlock) =>
+      getSyncedMatchKey(context, syncedBlock) === getMatchKey(firstBlock),
+  );
+  if (matchingIndex !== -1) return matchingIndex;
+
+  return syncedBlocks.findIndex((syncedBlock) =>
+    canUpdateBlock(context, syncedBlock, firstBlock),
+  );
+}
+
+/**
+ * Update the synced blocks following an existing block. Blocks are matched
+ * by their keys, or by their fingerprints if they have no keys, and changed
+ * blocks between them are updated in place when possible, or otherwise
+ * replaced.
+ */
+async function updateBlocksAfter(
+  context: SyncContext,
+  parentID: string,
+  previousID: string,
+  syncedBlocks: SyncedBlock[],
+  blocks: NewBlock[],
+): Promise<SyncedBlock[]> {
+  const updatedBlocks: SyncedBlock[] = [];
+  let lastID = previousID;
+  let syncedIndex = 0;
+  let index = 0;
+
+  const matches = matchBlocks(context, syncedBlocks, blocks);
+  matches.push([syncedBlocks.length, blocks.length]);
+
+  for (const [matchedSyncedIndex, matchedIndex] of matches) {
+    const syncedGap = syncedBlocks.slice(syncedIndex, matchedSyncedIndex);
+    const gap = blocks.slice(index, matchedIndex);
+    const keptBlockIDs = new Set<string>();
+    let insertedBlocks: NewBlock[] = [];
+
+    const flushInsertedBlocks = async () => {
+      if (!insertedBlocks.length) return;
+      const appendedBlocks = await appendBlocks(
+        context,
+        parentID,
+        insertedBlocks,
+        lastID,
+      );
+      updatedBlocks.push(...appendedBlocks);
+      lastID = appendedBlocks.at(-1)?.id ?? lastID;
+      insertedBlocks = [];
+    };
+
+    for (const [gapIndex, block] of gap.entries()) {
+      const syncedBlock = syncedGap[gapIndex];
+
+      if (syncedBlock && canUpdateBlock(context, syncedBlock, block)) {
+        await flushInsertedBlocks();
+        updatedBlocks.push(await updateBlock(context, syncedBlock, block));
+        keptBlockIDs.add(syncedBlock.id);
+        lastID = syncedBlock.id;
+      } else {
+        insertedBlocks.push(block);
+      }
+    }
+
+    await flushInsertedBlocks();
+    await deleteBlocks(
+      context.notion,
+      syncedGap.filter(({ id }) => !keptBlockIDs.has(id)),
+    );
+
+    const syncedBlock = syncedBlocks[matchedSyncedIndex];
+    const block = blocks[matchedIndex];
+    if (syncedBlock && block) {
+      updatedBlocks.push(await updateBlock(context, syncedBlock, block));
+      lastID = syncedBlock.id;
+    }
+
+    syncedIndex = matchedSyncedIndex + 1;
+    index = matchedIndex + 1;
+  }
+
+  return updatedBlocks;
+}
+
+/**
+ * Match blocks using the longest common subsequence of their match keys.
+ * @returns Pairs of indices of synced blocks and new blocks, in order.
+ */
+function matchBlocks(
+  context: SyncContext,
+  syncedBlocks: SyncedBlock[],
+  blocks: NewBlock[],
+): [number, number][] {
+  const syncedMatchKeys = syncedBlocks.map((syncedBlock) =>
+    getSyncedMatchKey(context, syncedBlock),
+  );
+  const matchKeys = blocks.map(getMatchKey);
+  const width = matchKeys.length + 1;
+  const lengths = new Uint32Array((syncedMatchKeys.length + 1) * width);
+  const getLength = (i: number, j: number) => lengths[i * width + j] ?? 0;
+  const isMatch = (i: number, j: number) => syncedMatchKeys[i] === matchKeys[j];
+
+  for (let i = syncedMatchKeys.length - 1; i >= 0; i--) {
+    for (let j = matchKeys.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = isMatch(i, j)
+        ? getLength(i + 1, j + 1) + 1
+        : Math.max(getLength(i + 1, j), getLength(i, j + 1));
+    }
+  }
+
+  const matches: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < syncedMatchKeys.length && j < matchKeys.length) {
+    if (isMatch(i, j)) {
+      matches.push([i++, j++]);
+    } else if (getLength(i + 1, j) >= getLength(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Get the value used to match a block with a synced block. Blocks with keys
+ * are matched by key so that they keep their IDs when their content changes.
+ */
+function getMatchKey({ fingerprint, key }: NewBlock): string {
+  return key === undefined ? fingerprint : `key:${key}`;
+}
+
+function getSyncedMatchKey(
+  { keys }: SyncContext,
+  { fingerprint, id }: SyncedBlock,
+): string {
+  const key = keys.syncedBlocks.get(id);
+  return key === undefined ? fingerprint : `key:${key}`;
+}
+
+function canUpdateBlock(
+  { keys }: SyncContext,
+  syncedBlock: SyncedBlock,
+  block: NewBlock,
+): boolean {
+  if (keys.syncedBlocks.get(syncedBlock.id) !== block.key) return false;
+
+  return (
+    syncedBlock.fingerprint === block.fingerprint ||
+    (syncedBlock.type === block.type && !REPLACED_BLOCK_TYPES.has(block.type))
+  );
+}
+
+/**
+ * Update a synced block in place if its content changed, then update its
+ * children.
+ */
+async function updateBlock(
+  context: SyncContext,
+  syncedBlock: SyncedBlock,
+  block: NewBlock,
+): Promise<SyncedBlock> {
+  if (syncedBlock.fingerprint !== block.fingerprint) {
+    await context.notion.blocks.update({
+      block_id: syncedBlock.id,
+      ...stripChildren(block.block),
+    } as UpdateBlockParameters);
+  }
+
+  const children =
+    syncedBlock.children || block.children.length
+      ? await updateBlocks(
+          context,
+          syncedBlock.id,
+          syncedBlock.children ?? [],
+          block.children.map((child) => toNewBlock(context, child)),
+        )
+      : [];
+
+  return buildSyncedBlock(syncedBlock.id, block, children);
+}
+
+async function deleteBlocks(
+  notion: Client,
+  syncedBlocks: SyncedBlock[],
+): Promise<void> {
+  for (const { id } of syncedBlocks) {
+    try {
+      await notion.blocks.delete({ block_id: id });
+    } catch (error) {
+      if (!isArchivedOrNotFoundError(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function buildSyncedBlock(
+  id: string,
+  { fingerprint, type }: NewBlock,
+  children: SyncedBlock[],
+): SyncedBlock {
+  return {
+    id,
+    type,
+    fingerprint,
+    ...(children.length > 0 && { children }),
+  };
+}
+
+function toNewBlock(
+  { keys }: SyncContext,
+  block: BlockObjectRequest,
+): NewBlock {
+  return {
+    block,
+    children: getChildren(block),
+    fingerprint: buildBlockFingerprint(block),
+    key: keys.blocks.get(block),
+    type: getBlockContent(block).type,
+  };
+}
+
+function getChildren(block: BlockObjectRequest): BlockObjectRequest[] {
+  const { content } = getBlockContent(block);
+  return isObject(content) && Array.isArray(content.children)
+    ? (content.children as BlockObjectRequest[])
+    : [];
+}
+
+function getBlockContent(block: BlockObjectRequest): {
+  type: BlockType;
+  content: unknown;
+} {
+  const type =
+    block.type ??
+    (Object.keys(block).find((key) => key !== 'object') as BlockType);
+
+  return { type, content: block[type as keyof typeof block] };
+}
+
+function stripChildren(block: BlockObjectRequest): BlockObjectRequest {
+  const { type, content } = getBlockContent(block);
+  if (!isObject(content) || !('children' in content)) return block;
+
+  const contentWithoutChildren = { ...content };
+  delete contentWithoutChildren.children;
+  return { ...block, [type]: contentWithoutChildren } as BlockObjectRequest;
+}
@@ -5,15 +5,34 @@ import {
   getNotionPageID,
   getSyncedNotes,
   saveSyncedNote,
+  type SyncedBlock,
 } from '../data/item-data';
 import { LocalizableError } from '../errors';
+import { logger } from '../utils';
+import { isAnnotationNote } from '../utils/note-utils';
 
+import {
+  type AnnotationSection,
+  type AnnotationSectionOptions,
+  buildAnnotationSection,
+  buildSyncedAnnotations,
+  getSyncedAnnotationBlockKeys,
+} from './annotation-blocks';
 import { convertHtmlToBlocks } from './html-to-notion';
-import { LIMITS } from './notion-limits';
-import { ChildBlock } from './notion-types';
+import type { Block } from './notion-types';
 import { isArchivedOrNotFoundError } from './notion-utils';
-import { isAnnotationNote } from '../utils/note-utils';
-import { logger } from '../utils';
+import {
+  appendNoteBlocks,
+  type BlockKeys,
+  getBlockIDsByKey,
+  updateNoteBlocks,
+} from './sync-note-blocks';
+import type { SyncOutcome } from './sync-result';
+
+/** Key of the synced annotations of an item among its synced notes */
+const ANNOTATIONS_NOTE_KEY = 'annotations';
+
+const ANNOTATIONS_TITLE = 'PDF Annotations';
 
 /**
  * Sync a Zotero note item to Notion as children blocks of the page for its
@@ -28,22 +47,30 @@ import { logger } from '../utils';
  * Syncing a note performs the following steps:
  * 1. If the top-level container block ID is not saved in Zotero, create the
  *    block by appending it to the page and save its ID.
- * 2. If a block ID is saved in Zotero for the note's toggle heading, delete
+ * 2. If the note's toggle heading and its children were saved in Zotero on the
+ *    last sync, update the toggle heading and patch only the children that
+ *    were changed, inserted, or removed. The remaining steps are skipped
+ *    unless the toggle heading no longer exists.
+ * 3. If a block ID is saved in Zotero for the note's toggle heading, delete
  *    the block (including all its children).
- * 3. Append a new toggle heading block with the note content as a child of
+ * 4. Append a new toggle heading block with the note content as a child of
  *    the desired container block.
  *    - For new notes, the container is the top-level container block.
  *    - For existing notes, the container is the existing parent block. This
  *      supports notes within synced blocks as the synced block is used as the
  *      container rather than the top-level container.
  *
+ * Notes created from annotations are synced as the annotations of their
+ * parent item instead (see `syncItemAnnotations`).
+ *
  * @param noteItem the Zotero note item to sync to Notion
  * @param notion an initialized Notion `Client` instance
+ * @returns whether the note block was created or updated
  */
 export async function syncNoteItem(
   noteItem: Zotero.Item,
   notion: Client,
-): Promise<void> {
+): Promise<SyncOutcome> {
   if (noteItem.isTopLevelItem()) {
     throw new LocalizableError(
       'Cannot sync note without a parent item',
@@ -54,10 +81,95 @@ export async function syncNoteItem(
   const isAnnotation = isAnnotationNote(noteItem);
   logger.debug(
     `Processing ${isAnnotation ? 'annotation' : 'regular'} note:`,
-    noteItem.getNoteTitle()
+    noteItem.getNoteTitle(),
   );
 
+  if (isAnnotation) {
+    return syncAnnotationNote(noteItem, notion);
+  }
+
   const regularItem = noteItem.topLevelItem;
+  const pageID = getRequiredPageID(regularItem);
+  const blocks = await buildNoteBlocks(noteItem, isAnnotation);
+
+  return syncNoteBlock(
+    notion,
+    regularItem,
+    pageID,
+    noteItem.key,
+    buildNoteBlockContent(noteItem.getNoteTitle()),
+    blocks,
+  );
+}
+
+/**
+ * Sync the annotations of the PDF and EPUB attachments of a Zotero item to
+ * Notion as a single toggle heading block within the top-level container
+ * block of its page. The block is synced the same way as a note.
+ *
+ * @param regularItem the Zotero regular item whose annotations to sync
+ * @param notion an initialized Notion `Client` instance
+ * @returns whether the annotations block was created, updated, or skipped
+ */
+export async function syncItemAnnotations(
+  regularItem: Zotero.Item,
+  notion: Client,
+): Promise<SyncOutcome> {
+  const pageID = getRequiredPageID(regularItem);
+  const { notes } = getSyncedNotes(regularItem);
+  const section = await buildAnnotationSectionBlocks(regularItem, {
+    images: notes?.[ANNOTATIONS_NOTE_KEY]?.annotationImages,
+  });
+
+  // Avoid adding an empty block to pages of items that were never annotated
+  if (!section.blocks.length && !notes?.[ANNOTATIONS_NOTE_KEY]) {
+    return 'skipped';
+  }
+
+  return syncNoteBlock(
+    notion,
+    regularItem,
+    pageID,
+    ANNOTATIONS_NOTE_KEY,
+    buildNoteBlockContent(ANNOTATIONS_TITLE),
+    section.blocks,
+    section,
+  );
+}
+
+/**
+ * Sync a note created from annotations by syncing the annotations of its
+ * parent item, so that all annotations of an item share a single block.
+ */
+async function syncAnnotationNote(
+  noteItem: Zotero.Item,
+  notion: Client,
+): Promise<SyncOutcome> {
+  const regularItem = noteItem.topLevelItem;
+  const outcome = await syncItemAnnotations(regularItem, notion);
+
+  const { containerBlockID, notes } = getSyncedNotes(regularItem);
+  const noteBlockID = notes?.[noteItem.key]?.blockID;
+  const annotationsBlockID = notes?.[ANNOTATIONS_NOTE_KEY]?.blockID;
+
+  // Annotation notes synced before annotations had their own block
+  if (noteBlockID && noteBlockID !== annotationsBlockID) {
+    await deleteNoteBlock(notion, noteBlockID);
+  }
+
+  if (containerBlockID && annotationsBlockID) {
+    await saveSyncedNote(
+      regularItem,
+      containerBlockID,
+      annotationsBlockID,
+      noteItem.key,
+    );
+  }
+
+  return outcome;
+}
+
+function getRequiredPageID(regularItem: Zotero.Item): string {
   const pageID = getNotionPageID(regularItem);
 
   if (!pageID) {
@@ -67,6 +179,28 @@ export async function syncNoteItem(
     );
   }
 
+  return pageID;
+}
+
+/**
+ * Sync a toggle heading block and its children to the page of a regular
+ * item, following the steps described for `syncNoteItem`.
+ *
+ * When the children are built from annotations, the keys of the blocks built
+ * from each annotation are given so that only the blocks of annotations that
+ * changed are patched, and the IDs of the blocks of each annotation are saved
+ * along with the images uploaded for image annotations.
+ */
+async function syncNoteBlock(
+  notion: Client,
+  regularItem: Zotero.Item,
+  pageID: string,
+  noteKey: Zotero.DataObjectKey,
+  content: Block<'toggle'>['toggle'],
+  blocks: BlockObjectRequest[],
+  annotationSection?: AnnotationSection,
+): Promise<SyncOutcome> {
+  const annotationKeys = annotationSection?.keys;
   const syncedNotes = getSyncedNotes(regularItem);
   let { containerBlockID } = syncedNotes;
 
@@ -74,7 +208,54 @@ export async function syncNoteItem(
     containerBlockID = await createContainerBlock(notion, pageID);
   }
 
-  const existingNoteBlockID = syncedNotes.notes?.[noteItem.key]?.blockID;
+  const existingNote = syncedNotes.notes?.[noteKey];
+  const existingNoteBlockID = existingNote?.blockID;
+  const keys: BlockKeys | undefined = annotationKeys && {
+    blocks: annotationKeys,
+    syncedBlocks: getSyncedAnnotationBlockKeys(existingNote?.annotations ?? {}),
+  };
+  const getSyncedAnnotations = (syncedBlocks: SyncedBlock[]) =>
+    annotationKeys &&
+    buildSyncedAnnotations(
+      getBlockIDsByKey(blocks, syncedBlocks, annotationKeys),
+    );
+
+  if (existingNoteBlockID && existingNote.blocks) {
+    let updatedBlocks;
+
+    try {
+      updatedBlocks = await updateNoteBlock(
+        notion,
+        existingNoteBlockID,
+        existingNote.blocks,
+        blocks,
+        content,
+        keys,
+      );
+    } catch (error) {
+      // Forget the saved blocks so that the note block is recreated next time
+      await saveSyncedNote(
+        regularItem,
+        containerBlockID,
+        existingNoteBlockID,
+        noteKey,
+      );
+      throw error;
+    }
+
+    if (updatedBlocks) {
+      await saveSyncedNote(
+        regularItem,
+        containerBlockID,
+        existingNoteBlockID,
+        noteKey,
+        updatedBlocks,
+        getSyncedAnnotations(updatedBlocks),
+        annotationSection?.images,
+      );
+      return 'updated';
+    }
+  }
 
   if (existingNoteBlockID) {
     containerBlockID = await getEffectiveContainerBlockID(
@@ -88,34 +269,41 @@ export async function syncNoteItem(
   let newNoteBlockID;
 
   try {
-    newNoteBlockID = await createNoteBlock(
-      notion, 
-      containerBlockID, 
-      noteItem,
-      isAnnotation
-    );
+    newNoteBlockID = await createNoteBlock(notion, containerBlockID, content);
   } catch (error) {
     if (!isArchivedOrNotFoundError(error)) {
       throw error;
     }
 
     containerBlockID = await createContainerBlock(notion, pageID);
-    newNoteBlockID = await createNoteBlock(
-      notion, 
-      containerBlockID, 
-      noteItem,
-      isAnnotation
-    );
+    newNoteBlockID = await createNoteBlock(notion, containerBlockID, content);
   } finally {
     await saveSyncedNote(
       regularItem,
       containerBlockID,
       newNoteBlockID,
-      noteItem.key,
+      noteKey,
     );
   }
 
-  await addNoteBlockContent(notion, newNoteBlockID, noteItem, isAnnotation);
+  const syncedBlocks = await appendNoteBlocks(
+    notion,
+    newNoteBlockID,
+    blocks,
+    keys,
+  );
+
+  await saveSyncedNote(
+    regularItem,
+    containerBlockID,
+    newNoteBlockID,
+    noteKey,
+    syncedBlocks,
+    getSyncedAnnotations(syncedBlocks),
+    annotationSection?.images,
+  );
+
+  return existingNoteBlockID ? 'updated' : 'created';
 }
 
 async function createContainerBlock(
@@ -147,24 +335,14 @@ async function createContainerBlock(
 async function createNoteBlock(
   notion: Client,
   containerBlockID: string,
-  noteItem: Zotero.Item,
-  isAnnotation: boolean = false,
+  content: Block<'toggle'>['toggle'],
 ): Promise<string> {
   const response = await notion.blocks.children.append({
     block_id: containerBlockID,
     children: [
       {
         type: 'toggle',
-        toggle: {
-          rich_text: [
-            {
-              type: 'text',
-              text: {
-                content: isAnnotation ? 'PDF Annotations' : noteItem.getNoteTitle(),
-              },
-            },
-          ],
-        },
+        toggle: content,
       },
     ],
   });
@@ -176,148 +354,69 @@ async function createNoteBlock(
   return response.results[0].id;
 }
 
-async function addNoteBlockContent(
+/**
+ * Update the toggle heading of a note and patch its children.
+ * @returns The updated children to save, or `undefined` if the toggle heading
+ * no longer exists and must be recreated.
+ */
+async function updateNoteBlock(
   notion: Client,
   noteBlockID: string,
-  noteItem: Zotero.Item,
-  isAnnotation: boolean,
-): Promise<void> {
-  const blockBatches = await buildNoteBlockBatches(noteItem, isAnnotation);
-  
-  for (const blocks of blockBatches) {
-    await notion.blocks.children.append({
+  syncedBlocks: SyncedBlock[],
+  blocks: BlockObjectRequest[],
+  content: Block<'toggle'>['toggle'],
+  keys: BlockKeys | undefined,
+): Promise<SyncedBlock[] | undefined> {
+  try {
+    await notion.blocks.update({
       block_id: noteBlockID,
-      children: blocks,
+      toggle: content,
     });
+  } catch (error) {
+    if (!isArchivedOrNotFoundError(error)) {
+      throw error;
+    }
+    return undefined;
   }
+
+  return updateNoteBlocks(notion, noteBlockID, syncedBlocks, blocks, keys);
+}
+
+function buildNoteBlockContent(title: string): Block<'toggle'>['toggle'] {
+  return {
+    rich_text: [
+      {
+        type: 'text',
+        text: {
+          content: title,
+        },
+      },
+    ],
+  };
 }
 
-async function buildNoteBlockBatches(
+/**
+ * Build the blocks of a note, or of the annotations of its parent item if it
+ * is a note of annotations.
+ */
+export async function buildNoteBlocks(
   noteItem: Zotero.Item,
-  isAnnotation: boolean = false,
-): Promise<BlockObjectRequest[][]> {
-  let blocks;
+  isAnnotation: boolean,
+  options: AnnotationSectionOptions = {},
+): Promise<BlockObjectRequest[]> {
+  if (isAnnotation) {
+    const { blocks } = await buildAnnotationSectionBlocks(
+      noteItem.topLevelItem,
+      options,
+    );
+    return blocks;
+  }
+
+  let blocks: BlockObjectRequest[];
   try {
-    const originalBlocks = await convertHtmlToBlocks(noteItem.getNote(), { isAnnotation });
-    
-    if (isAnnotation && Array.isArray(originalBlocks)) {
-      blocks = [];
-      const colorGroups: { [key: string]: boolean } = {};
-      
-      // Color to section title mapping
-      const colorTitles: { [key: string]: string } = {
-        'yellow_background': 'Highlights',
-        'red_background': 'Weak Points',
-        'green_background': 'Strong Points',
-        'blue_background': 'Unique Points',
-        'purple_background': 'To Explore',
-        'default': 'Other Notes'
-      };
-      
-      // First pass: identify colors
-      originalBlocks.forEach(block => {
-        if ('callout' in block) {
-          const color = block.callout.color || 'default';
-          colorGroups[color] = true;
-        }
-      });
-
-      // Create toggle headings
-      Object.keys(colorGroups).forEach(color => {
-        blocks.push({
-          type: 'heading_3',
-          heading_3: {
-            rich_text: [{
-              type: 'text',
-              text: { 
-                content: colorTitles[color] || color.replace('_background', '').replace('_', ' ').toUpperCase()
-              }
-            }],
-            children: []
-          }
-        });
-      });
-
-      // Second pass: organize blocks
-      let currentCalloutColor = null;
-      let currentGroup = [];
-
-      originalBlocks.forEach(block => {
-        if ('callout' in block) {
-          // Add previous group if exists
-          if (currentCalloutColor && currentGroup.length > 0) {
-            const heading = blocks.find(b => 
-              'heading_3' in b && 
-              b.heading_3.rich_text[0].text.content === colorTitles[currentCalloutColor]
-            );
-            if (heading && 'heading_3' in heading) {
-              heading.heading_3.children.push(...currentGroup);
-            }
-          }
-
-          // Start new group
-          currentCalloutColor = block.callout.color || 'default';
-          currentGroup = [block];
-        } else if (currentCalloutColor && 'paragraph' in block) {
-          // Split paragraph into comment and tags
-          const richText = block.paragraph.rich_text;
-          let comment = '';
-          const tags: { type: 'text', text: { content: string }, annotations: { code: true } }[] = [];
-          
-          richText.forEach(text => {
-            if ('annotations' in text && text.annotations?.code) {
-              // This is a tag
-              tags.push({
-                type: 'text',
-                text: { content: text.text.content },
-                annotations: { code: true }
-              });
-            } else {
-              // This is comment text
-              comment += text.text.content;
-            }
-          });
-
-          // Add comment if exists
-          if (comment.trim()) {
-            currentGroup.push({
-              type: 'paragraph',
-              paragraph: {
-                rich_text: [{ type: 'text', text: { content: comment.trim() } }]
-              }
-            });
-          }
-
-          // Add tags if exist
-          if (tags.length > 0) {
-            currentGroup.push({
-              type: 'paragraph',
-              paragraph: {
-                rich_text: tags.flatMap((tag, index) => [
-                  tag,
-                  index < tags.length - 1 ? { type: 'text', text: { content: ' ' } } : null
-                ]).filter(Boolean)
-              }
-            });
-          }
-        } else if (currentCalloutColor && 'divider' in block) {
-          currentGroup.push(block);
-        }
-      });
-
-      // Add final group
-      if (currentCalloutColor && currentGroup.length > 0) {
-        const heading = blocks.find(b => 
-          'heading_3' in b && 
-          b.heading_3.rich_text[0].text.content === colorTitles[currentCalloutColor]
-        );
-        if (heading && 'heading_3' in heading) {
-          heading.heading_3.children.push(...currentGroup);
-        }
-      }
-    } else {
-      blocks = originalBlocks;
-    }
+    // Blocks can be nested deeper than the Notion API allows in a single
+    // request, which is supported as children are appended separately
+    blocks = convertHtmlToBlocks(noteItem.getNote()) as BlockObjectRequest[];
   } catch (error) {
     throw new LocalizableError(
       'Failed to convert note content to Notion blocks',
@@ -332,22 +431,22 @@ async function buildNoteBlockBatches(
     blocks = [];
   }
 
-  // Safety check for array length
-  const batchSize = Math.min(LIMITS.BLOCK_ARRAY_ELEMENTS, 100);
-  const numBatches = Math.max(1, Math.ceil(blocks.length / batchSize));
-  
-  const batches: BlockObjectRequest[][] = [];
-  
-  for (let i = 0; i < numBatches; i++) {
-    const start = i * batchSize;
-    const end = Math.min(start + batchSize, blocks.length);
-    const batch = blocks.slice(start, end);
-    if (batch.length > 0) {
-      batches.push(batch);
-    }
-  }
+  return blocks;
+}
 
-  return batches;
+async function buildAnnotationSectionBlocks(
+  regularItem: Zotero.Item,
+  options: AnnotationSectionOptions = {},
+): Promise<AnnotationSection> {
+  try {
+    return await buildAnnotationSection(regularItem, options);
+  } catch (error) {
+    throw new LocalizableError(
+      'Failed to convert note content to Notion blocks',
+      'notero-error-note-conversion-failed',
+      { cause: error },
+    );
+  }
 }
 
 async function deleteNoteBlock(notion: Client, blockID: string): Promise<void> {
@@ -0,0 +1,185 @@
+import { FluentMessageId } from '../../locale/fluent-types';
+import { createHTMLElement } from '../utils';
+
+import type {
+  ItemSyncPreview,
+  PropertyChange,
+  PropertyChangeType,
+} from './sync-preview';
+
+const CHANGE_L10N_IDS: Record<PropertyChangeType, FluentMessageId> = {
+  added: 'notero-sync-preview-change-added',
+  changed: 'notero-sync-preview-change-changed',
+  removed: 'notero-sync-preview-change-removed',
+};
+
+const CHANGE_COLORS: Record<PropertyChangeType, string> = {
+  added: '#2e7d32',
+  changed: '#b26a00',
+  removed: '#c62828',
+};
+
+const STYLES = `
+  body { font: message-box; margin: 16px; }
+  h2 { font-size: 1.1em; margin: 20px 0 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: start; vertical-align: top; }
+  td { white-space: pre-wrap; word-break: break-word; }
+  .error { color: #c62828; }
+`;
+
+/**
+ * A window that shows what would be sent to Notion for each item in a sync
+ * job previewed with `previewSyncJob()`.
+ */
+export class SyncPreviewWindow {
+  private readonly l10n: L10n.Localization<FluentMessageId>;
+  private readonly window: Window;
+
+  public constructor(window: Window) {
+    this.l10n = window.document.l10n;
+    this.window = window;
+  }
+
+  public async open(previews: ItemSyncPreview[]) {
+    const dialog = this.window.openDialog(
+      'about:blank',
+      '_blank',
+      'chrome,centerscreen,resizable,width=800,height=600',
+    );
+    if (!dialog) return;
+
+    await new Promise((resolve) => {
+      dialog.addEventListener('load', resolve, { once: true });
+    });
+
+    const doc = dialog.document;
+    doc.title = await this.format(
+      'notero-sync-preview-title',
+      'Notion Sync Preview',
+    );
+
+    const style = createHTMLElement(doc, 'style');
+    style.textContent = STYLES;
+    doc.head.append(style);
+
+    const summary = createHTMLElement(doc, 'p');
+    summary.textContent = await this.format(
+      'notero-sync-preview-summary',
+      `${previews.length} item(s) would be synced. Nothing has been sent to Notion.`,
+      { count: previews.length },
+    );
+    doc.body.append(summary);
+
+    for (const preview of previews) {
+      doc.body.append(...(await this.buildItemSection(doc, preview)));
+    }
+  }
+
+  private async buildItemSection(
+    doc: Document,
+    preview: ItemSyncPreview,
+  ): Promise<HTMLElement[]> {
+    const heading = createHTMLElement(doc, 'h2');
+    heading.textContent = preview.item.getDisplayTitle();
+
+    const description = createHTMLElement(doc, 'p');
+    description.textContent = await this.getDescription(preview);
+
+    if (preview.kind === 'failed') {
+      description.className = 'error';
+    }
+
+    if (preview.kind !== 'page' || !preview.changes.length) {
+      return [heading, description];
+    }
+
+    return [
+      heading,
+      description,
+      await this.buildChangesTable(doc, preview.changes),
+    ];
+  }
+
+  private getDescription(preview: ItemSyncPreview): Promise<string> {
+    switch (preview.kind) {
+      case 'failed':
+        return Promise.resolve(preview.errorMessage);
+      case 'note': {
+        const args = { count: preview.blockCount };
+        return preview.action === 'create'
+          ? this.format(
+              'notero-sync-preview-note-create',
+              `A new note block with ${args.count} blocks would be added.`,
+              args,
+            )
+          : this.format(
+              'notero-sync-preview-note-update',
+              `The existing note block would be updated to ${args.count} blocks.`,
+              args,
+            );
+      }
+      case 'page': {
+        const args = { count: preview.changes.length };
+        return preview.action === 'create'
+          ? this.format(
+              'notero-sync-preview-page-create',
+              'A new page would be created.',
+            )
+          : this.format(
+              'notero-sync-preview-page-update',
+              `${args.count} properties would change on the existing page.`,
+              args,
+            );
+      }
+    }
+  }
+
+  private async buildChangesTable(
+    doc: Document,
+    changes: PropertyChange[],
+  ): Promise<HTMLTableElement> {
+    const table = createHTMLElement(doc, 'table');
+
+    const columnLabels = await this.l10n.formatValues([
+      'notero-sync-preview-property-column',
+      'notero-sync-preview-change-column',
+      'notero-sync-preview-current-column',
+      'notero-sync-preview-new-column',
+    ]);
+    const fallbackLabels = ['Property', 'Change', 'Current Value', 'New Value'];
+
+    const headerRow = table.createTHead().insertRow();
+    fallbackLabels.forEach((fallback, index) => {
+      const cell = createHTMLElement(doc, 'th');
+      cell.textContent = columnLabels[index] || fallback;
+      headerRow.append(cell);
+    });
+
+    const body = table.createTBody();
+
+    for (const { currentValue, name, newValue, type } of changes) {
+      const row = body.insertRow();
+      const changeLabel = await this.format(CHANGE_L10N_IDS[type], type);
+
+      [name, changeLabel, currentValue, newValue].forEach((text) => {
+        row.insertCell().textContent = text;
+      });
+
+      const changeCell = row.cells[1];
+      if (changeCell) {
+        changeCell.style.color = CHANGE_COLORS[type];
+      }
+    }
+
+    return table;
+  }
+
+  private async format(
+    id: FluentMessageId,
+    fallback: string,
+    args?: L10n.L10nArgs,
+  ): Promise<string> {
+    return (await this.l10n.formatValue(id, args)) || fallback;
+  }
+}
@@ -0,0 +1,245 @@
+import type { Client } from '@notionhq/client';
+
+import { getNotionPageID, getSyncedNotes } from '../data/item-data';
+import { LocalizableError } from '../errors';
+import { isObject, logger } from '../utils';
+import { isAnnotationNote } from '../utils/note-utils';
+
+import type {
+  DatabaseProperties,
+  DatabaseRequestProperties,
+  PageResponseProperty,
+} from './notion-types';
+import { isArchivedOrNotFoundError } from './notion-utils';
+import { buildProperties } from './property-builder';
+import type { SyncJobParams } from './sync-job';
+import { countBlocks } from './sync-note-blocks';
+import { buildNoteBlocks } from './sync-note-item';
+
+type PageProperties = Record<string, PageResponseProperty>;
+
+export type PropertyChangeType = 'added' | 'changed' | 'removed';
+
+export type PropertyChange = {
+  name: string;
+  type: PropertyChangeType;
+  currentValue: string;
+  newValue: string;
+};
+
+/**
+ * What would happen to an item if it were synced:
+ * - `page`: The Notion page would be created or updated with the given
+ *   property changes
+ * - `note`: The note block would be created or updated to the given number
+ *   of blocks
+ * - `failed`: The item could not be previewed
+ */
+export type ItemSyncPreview =
+  | {
+      item: Zotero.Item;
+      kind: 'page';
+      action: 'create' | 'update';
+      changes: PropertyChange[];
+    }
+  | {
+      item: Zotero.Item;
+      kind: 'note';
+      action: 'create' | 'update';
+      blockCount: number;
+    }
+  | {
+      item: Zotero.Item;
+      kind: 'failed';
+      errorMessage: string;
+    };
+
+/**
+ * Build a preview of syncing an item without writing anything to Notion or
+ * Zotero. Existing Notion pages are retrieved in order to compare properties.
+ */
+export async function previewItem(
+  item: Zotero.Item,
+  params: SyncJobParams,
+): Promise<Exclude<ItemSyncPreview, { kind: 'failed' }>> {
+  if (item.isNote()) {
+    return previewNoteItem(item);
+  }
+  return previewRegularItem(item, params);
+}
+
+async function previewNoteItem(
+  noteItem: Zotero.Item,
+): Promise<Extract<ItemSyncPreview, { kind: 'note' }>> {
+  if (noteItem.isTopLevelItem()) {
+    throw new LocalizableError(
+      'Cannot sync note without a parent item',
+      'notero-error-note-without-parent',
+    );
+  }
+
+  const { notes } = getSyncedNotes(noteItem.topLevelItem);
+  // Images of annotations are not uploaded, as previews write nothing
+  const blocks = await buildNoteBlocks(noteItem, isAnnotationNote(noteItem), {
+    preview: true,
+  });
+
+  return {
+    item: noteItem,
+    kind: 'note',
+    action: notes?.[noteItem.key] ? 'update' : 'create',
+    blockCount: countBlocks(blocks),
+  };
+}
+
+async function previewRegularItem(
+  item: Zotero.Item,
+  params: SyncJobParams,
+): Promise<Extract<ItemSyncPreview, { kind: 'page' }>> {
+  const properties = await buildProperties({ item, ...params });
+  const pageID = getNotionPageID(item);
+  const currentProperties =
+    pageID && (await retrievePageProperties(params.notion, pageID));
+
+  return {
+    item,
+    kind: 'page',
+    action: currentProperties ? 'update' : 'create',
+    changes: diffProperties(
+      properties,
+      currentProperties || undefined,
+      params.databaseProperties,
+    ),
+  };
+}
+
+async function retrievePageProperties(
+  notion: Client,
+  pageID: string,
+): Promise<PageProperties | undefined> {
+  try {
+    const page = await notion.pages.retrieve({ page_id: pageID });
+    if (!('properties' in page) || page.in_trash) return;
+    return page.properties;
+  } catch (error) {
+    if (isArchivedOrNotFoundError(error)) {
+      logger.debug('Page not found, so it would be recreated:', pageID);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compare the properties that would be sent to Notion against the current
+ * properties of a page. Only properties that would be sent are compared, as
+ * any other properties are left untouched by a sync.
+ *
+ * @param properties The properties that would be sent to Notion.
+ * @param currentProperties The current properties of the page, if it exists.
+ * @param databaseProperties The properties of the database, used to resolve
+ * the name of the title property.
+ * @returns The properties that would change, in the order they are sent.
+ */
+export function diffProperties(
+  properties: DatabaseRequestProperties,
+  currentProperties: PageProperties | undefined,
+  databaseProperties: DatabaseProperties,
+): PropertyChange[] {
+  const titleName =
+    Object.values(databaseProperties).find(({ type }) => type === 'title')
+      ?.name ?? 'title';
+
+  return Object.entries(properties).reduce<PropertyChange[]>(
+    (changes, [key, property]) => {
+      const isTitle = key === 'title';
+      const currentProperty = isTitle
+        ? Object.values(currentProperties ?? {}).find(
+            ({ type }) => type === 'title',
+          )
+        : currentProperties?.[key];
+
+      const currentValue = formatPropertyValue(currentProperty);
+      const newValue = formatPropertyValue(property);
+
+      if (currentValue === newValue) return changes;
+
+      const type: PropertyChangeType = !currentValue
+        ? 'added'
+        : !newValue
+          ? 'removed'
+          : 'changed';
+
+      return [
+        ...changes,
+        { name: isTitle ? titleName : key, type, currentValue, newValue },
+      ];
+    },
+    [],
+  );
+}
+
+/**
+ * Format a property value as plain text. This accepts both request properties
+ * (as built by `buildProperties`) and response properties (as returned by the
+ * Notion API) so that they can be compared with one another.
+ */
+export function formatPropertyValue(property: unknown): string {
+  if (!isObject(property)) return '';
+
+  const type =
+    typeof property.type === 'string'
+      ? property.type
+      : Object.keys(property)[0];
+  if (!type) return '';
+
+  const value = property[type];
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return Array.isArray(value) ? value.map(formatRichTextItem).join('') : '';
+    case 'multi_select':
+      return Array.isArray(value)
+        ? value.map(getStringField('name')).filter(Boolean).join(', ')
+        : '';
+    case 'relation':
+      return Array.isArray(value)
+        ? value.map(getStringField('id')).filter(Boolean).join(', ')
+        : '';
+    case 'select':
+    case 'status':
+      return getStringField('name')(value);
+    case 'date':
+      return formatDate(value);
+    case 'checkbox':
+      return typeof value === 'boolean' ? String(value) : '';
+    case 'number':
+      return typeof value === 'number' ? String(value) : '';
+    case 'email':
+    case 'phone_number':
+    case 'url':
+      return typeof value === 'string' ? value : '';
+    default:
+      return value === null || value === undefined ? '' : JSON.stringify(value);
+  }
+}
+
+function formatRichTextItem(item: unknown): string {
+  if (!isObject(item)) return '';
+  if (typeof item.plain_text === 'string') return item.plain_text;
+  return isObject(item.text) ? getStringField('content')(item.text) : '';
+}
+
+function formatDate(value: unknown): string {
+  const start = getStringField('start')(value);
+  const end = getStringField('end')(value);
+  return end ? `${start} → ${end}` : start;
+}
+
+function getStringField(field: string) {
+  return (value: unknown): string => {
+    const fieldValue = isObject(value) ? value[field] : undefined;
+    return typeof fieldValue === 'string' ? fieldValue : '';
+  };
+}
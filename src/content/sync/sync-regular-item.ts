@@ -3,12 +3,16 @@ import type { CreatePageResponse } from '@notionhq/client/build/src/api-endpoint
 
 import {
   getNotionPageID,
+  getPropertiesFingerprint,
+  getSyncedNotes,
   saveNotionLinkAttachment,
   saveNotionTag,
+  type SyncedNotes,
 } from '../data/item-data';
 import { LocalizableError } from '../errors';
 import { logger } from '../utils';
 
+import { migratePage } from './migrate-page';
 import type { DatabaseRequestProperties } from './notion-types';
 import {
   convertWebURLToAppURL,
@@ -18,39 +22,65 @@ import {
 } from './notion-utils';
 import { buildProperties } from './property-builder';
 import type { SyncJobParams } from './sync-job';
+import type { SyncOutcome } from './sync-result';
+import { restoreTrashedItem } from './sync-trashed-item';
+
+type PageResult = {
+  response: CreatePageResponse;
+  /** Synced notes of a page that was migrated from a different database */
+  syncedNotes?: SyncedNotes;
+};
 
 export async function syncRegularItem(
   item: Zotero.Item,
-  params: SyncJobParams,
-): Promise<void> {
-  const response = await saveItemToDatabase(item, params);
+  { databaseID, notion, ...params }: SyncJobParams,
+): Promise<SyncOutcome> {
+  await restoreTrashedItem(item, notion);
+
+  const pageID = getNotionPageID(item);
+  const properties = await buildProperties({ item, ...params });
+  const fingerprint = buildPropertiesFingerprint(databaseID, properties);
+
+  if (pageID && fingerprint === getPropertiesFingerprint(item)) {
+    logger.debug('Skipping page with unchanged properties', pageID);
+    return 'skipped';
+  }
+
+  const { response, syncedNotes } = pageID
+    ? await updatePage(notion, databaseID, pageID, properties, item)
+    : { response: await createPage(notion, databaseID, properties) };
 
   await saveNotionTag(item);
 
   if (isFullPage(response)) {
     const appURL = convertWebURLToAppURL(response.url);
-    await saveNotionLinkAttachment(item, appURL);
+    await saveNotionLinkAttachment(item, appURL, fingerprint, syncedNotes);
   } else {
     throw new LocalizableError(
       'Failed to create Notion link attachment',
       'notero-error-notion-link-attachment',
     );
   }
-}
-
-async function saveItemToDatabase(
-  item: Zotero.Item,
-  { databaseID, notion, ...params }: SyncJobParams,
-): Promise<CreatePageResponse> {
-  const pageID = getNotionPageID(item);
 
-  const properties = await buildProperties({ item, ...params });
-
-  if (pageID) {
-    return updatePage(notion, databaseID, pageID, properties);
-  }
+  const pageUpdated =
+    pageID && normalizeID(response.id) === normalizeID(pageID);
+  return pageUpdated ? 'updated' : 'created';
+}
 
-  return createPage(notion, databaseID, properties);
+/**
+ * Build a fingerprint of the properties sent to Notion so that subsequent
+ * syncs can be skipped when nothing has changed. The database ID is included
+ * so that changing the target database results in a new fingerprint.
+ */
+function buildPropertiesFingerprint(
+  databaseID: string,
+  properties: DatabaseRequestProperties,
+): string {
+  const json = JSON.stringify({
+    databaseID: normalizeID(databaseID),
+    properties,
+  });
+  return Zotero.Utilities.Internal.md5(json);
 }
 
 function createPage(
@@ -70,57 +100,69 @@ async function updatePage(
   databaseID: string,
   pageID: string,
   properties: DatabaseRequestProperties,
-): Promise<CreatePageResponse> {
+  item: Zotero.Item,
+): Promise<PageResult> {
   logger.debug('Updating page', pageID, 'in database', databaseID, properties);
   try {
     const response = await notion.pages.update({ page_id: pageID, properties });
-    return await recreatePageIfDatabaseDiffers(
+    return await migratePageIfDatabaseDiffers(
       notion,
       databaseID,
       properties,
       response,
+      item,
     );
   } catch (error) {
     if (isArchivedOrNotFoundError(error)) {
       logger.debug('Recreating page that was not found');
-      return createPage(notion, databaseID, properties);
+      return { response: await createPage(notion, databaseID, properties) };
     }
     if (!isNotionErrorWithCode(error, APIErrorCode.ValidationError)) {
       throw error;
     }
     const retrieveResponse = await notion.pages.retrieve({ page_id: pageID });
-    const createResponse = await recreatePageIfDatabaseDiffers(
+    const result = await migratePageIfDatabaseDiffers(
       notion,
       databaseID,
       properties,
       retrieveResponse,
+      item,
     );
-    // Throw the original error if the page was not recreated
-    if (createResponse === retrieveResponse) {
+    // Throw the original error if the page was not migrated
+    if (result.response === retrieveResponse) {
       throw error;
     }
-    return createResponse;
+    return result;
   }
 }
 
-async function recreatePageIfDatabaseDiffers(
+/**
+ * Migrate a page into the desired database, along with its content, if it
+ * belongs to a different database. This happens when the target database of
+ * an item changes.
+ */
+async function migratePageIfDatabaseDiffers(
   notion: Client,
   desiredDatabaseID: string,
   properties: DatabaseRequestProperties,
   response: CreatePageResponse,
-): Promise<CreatePageResponse> {
+  item: Zotero.Item,
+): Promise<PageResult> {
   if (!isFullPage(response) || response.parent.type !== 'database_id') {
-    return response;
+    return { response };
   }
 
   const currentDatabaseID = normalizeID(response.parent.database_id);
   if (currentDatabaseID === normalizeID(desiredDatabaseID)) {
-    return response;
+    return { response };
   }
 
-  logger.debug(
-    'Recreating page found in different database',
-    currentDatabaseID,
+  logger.debug('Migrating page found in different database', currentDatabaseID);
+  return migratePage(
+    notion,
+    response.id,
+    desiredDatabaseID,
+    properties,
+    getSyncedNotes(item),
   );
-  return createPage(notion, desiredDatabaseID, properties);
 }
@@ -0,0 +1,41 @@
+import type { ItemSyncError } from '../errors';
+
+/**
+ * The outcome of syncing a single item:
+ * - `created`: A new Notion page or note block was created
+ * - `updated`: An existing Notion page or note block was updated
+ * - `skipped`: Nothing needed to be sent to Notion
+ */
+export type SyncOutcome = 'created' | 'updated' | 'skipped';
+
+export type ItemSyncResult =
+  | {
+      item: Zotero.Item;
+      outcome: SyncOutcome;
+    }
+  | {
+      item: Zotero.Item;
+      outcome: 'failed';
+      error: ItemSyncError;
+      errorMessage: string;
+    };
+
+export type FailedItemSyncResult = Extract<
+  ItemSyncResult,
+  { outcome: 'failed' }
+>;
+
+export type SyncSummary = Record<ItemSyncResult['outcome'], number>;
+
+export function isFailedResult(
+  result: ItemSyncResult,
+): result is FailedItemSyncResult {
+  return result.outcome === 'failed';
+}
+
+export function summarizeResults(results: ItemSyncResult[]): SyncSummary {
+  return results.reduce<SyncSummary>(
+    (summary, { outcome }) => ({ ...summary, [outcome]: summary[outcome] + 1 }),
+    { created: 0, updated: 0, skipped: 0, failed: 0 },
+  );
+}
@@ -0,0 +1,162 @@
+import { APIErrorCode, type Client, isFullPage } from '@notionhq/client';
+
+import {
+  getNotionPageID,
+  getTrashedItemAction,
+  saveTrashedItemAction,
+} from '../data/item-data';
+import { LocalizableError } from '../errors';
+import {
+  getNoteroPref,
+  NoteroPref,
+  TrashedItemAction,
+} from '../prefs/notero-pref';
+import { logger } from '../utils';
+
+import type { DatabaseRequestProperty } from './notion-types';
+import { isNotionErrorWithCode } from './notion-utils';
+import type { SyncOutcome } from './sync-result';
+
+const DELETED_PROPERTY_NAME = 'Deleted';
+const DELETED_OPTION_NAME = 'Deleted';
+
+/**
+ * Apply the configured `TrashedItemAction` to the Notion page of an item that
+ * has been moved to the trash. The applied action is saved in Zotero so that
+ * it can be reverted if the item is restored.
+ *
+ * @param item the trashed Zotero item
+ * @param notion an initialized Notion `Client` instance
+ * @returns whether the Notion page was updated
+ */
+export async function syncTrashedItem(
+  item: Zotero.Item,
+  notion: Client,
+): Promise<SyncOutcome> {
+  const action = getNoteroPref(NoteroPref.trashedItemAction);
+  const pageID = getNotionPageID(item);
+
+  if (
+    !pageID ||
+    action === TrashedItemAction.none ||
+    action === getTrashedItemAction(item)
+  ) {
+    return 'skipped';
+  }
+
+  await applyTrashedItemAction(notion, pageID, action);
+  await saveTrashedItemAction(item, action);
+
+  return 'updated';
+}
+
+/**
+ * Revert the action that was applied to the Notion page of an item when it
+ * was moved to the trash, if the item has since been restored.
+ *
+ * @param item the restored Zotero item
+ * @param notion an initialized Notion `Client` instance
+ */
+export async function restoreTrashedItem(
+  item: Zotero.Item,
+  notion: Client,
+): Promise<void> {
+  const action = getTrashedItemAction(item);
+  const pageID = getNotionPageID(item);
+
+  if (!action || !pageID || item.deleted) return;
+
+  logger.debug('Restoring page of item restored from trash', pageID, action);
+
+  try {
+    await revertTrashedItemAction(notion, pageID, action);
+  } catch (error) {
+    if (!isNotionErrorWithCode(error, APIErrorCode.ObjectNotFound)) {
+      throw error;
+    }
+    logger.debug('Page of restored item not found', pageID);
+  }
+
+  await saveTrashedItemAction(item, undefined);
+}
+
+export async function applyTrashedItemAction(
+  notion: Client,
+  pageID: string,
+  action: TrashedItemAction,
+): Promise<void> {
+  switch (action) {
+    case TrashedItemAction.archivePage:
+      logger.debug('Archiving page of trashed item', pageID);
+      await notion.pages.update({ page_id: pageID, archived: true });
+      return;
+    case TrashedItemAction.flagPage:
+      logger.debug('Flagging page of trashed item', pageID);
+      await setDeletedProperty(notion, pageID, true);
+      return;
+    case TrashedItemAction.none:
+      return;
+  }
+}
+
+async function revertTrashedItemAction(
+  notion: Client,
+  pageID: string,
+  action: TrashedItemAction,
+): Promise<void> {
+  switch (action) {
+    case TrashedItemAction.archivePage:
+      await notion.pages.update({ page_id: pageID, archived: false });
+      return;
+    case TrashedItemAction.flagPage:
+      await setDeletedProperty(notion, pageID, false);
+      return;
+    case TrashedItemAction.none:
+      return;
+  }
+}
+
+/**
+ * Set the "Deleted" property of a page, which may be a checkbox, select, or
+ * status property. Status properties cannot be cleared, so they are left
+ * unchanged when `deleted` is `false`.
+ */
+async function setDeletedProperty(
+  notion: Client,
+  pageID: string,
+  deleted: boolean,
+): Promise<void> {
+  const page = await notion.pages.retrieve({ page_id: pageID });
+  const property = isFullPage(page)
+    ? page.properties[DELETED_PROPERTY_NAME]
+    : undefined;
+
+  let request: DatabaseRequestProperty;
+
+  switch (property?.type) {
+    case 'checkbox':
+      request = { checkbox: deleted };
+      break;
+    case 'select':
+      request = { select: deleted ? { name: DELETED_OPTION_NAME } : null };
+      break;
+    case 'status':
+      if (!deleted) {
+        logger.warn('Cannot clear status property of restored page', pageID);
+        return;
+      }
+      request = { status: { name: DELETED_OPTION_NAME } };
+      break;
+    default:
+      throw new LocalizableError(
+        `Notion database has no "${DELETED_PROPERTY_NAME}" property`,
+        'notero-error-missing-deleted-property',
+        { l10nArgs: { property: DELETED_PROPERTY_NAME } },
+      );
+  }
+
+  await notion.pages.update({
+    page_id: pageID,
+    properties: { [DELETED_PROPERTY_NAME]: request },
+  });
+}
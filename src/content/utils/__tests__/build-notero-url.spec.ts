@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildNoteroURL } from '../build-notero-url';
+
+describe('buildNoteroURL', () => {
+  it('returns URL without search params when none are given', () => {
+    expect(buildNoteroURL('notion-auth')).toBe('zotero://notero/notion-auth');
+  });
+
+  it('returns URL with encoded search params', () => {
+    expect(buildNoteroURL('sync-items', { itemIDs: '1,2,3' })).toBe(
+      'zotero://notero/sync-items?itemIDs=1%2C2%2C3',
+    );
+  });
+});
@@ -0,0 +1,17 @@
+const NOTERO_URL = 'zotero://notero';
+
+/**
+ * Build a URL that is handled by Notero's extension of the Zotero protocol
+ * handler (see `ProtocolHandlerExtension`).
+ * @param handlerName The name of the handler to invoke.
+ * @param params Search params to pass to the handler.
+ * @returns A `zotero://notero/` URL.
+ */
+export function buildNoteroURL(
+  handlerName: string,
+  params: Record<string, string> = {},
+): string {
+  const searchParams = new URLSearchParams(params).toString();
+  const url = `${NOTERO_URL}/${handlerName}`;
+  return searchParams ? `${url}?${searchParams}` : url;
+}
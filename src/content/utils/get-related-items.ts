@@ -0,0 +1,11 @@
+/**
+ * Returns the items that are linked to an item as related in Zotero.
+ * Related items that are deleted or no longer exist are excluded.
+ * @param item The item to get related items for.
+ */
+export function getRelatedItems(item: Zotero.Item): Zotero.Item[] {
+  return item.relatedItems.flatMap((key) => {
+    const relatedItem = Zotero.Items.getByLibraryAndKey(item.libraryID, key);
+    return relatedItem && !relatedItem.deleted ? [relatedItem] : [];
+  });
+}
@@ -1,5 +1,6 @@
 export { urlSafeBase64Decode, urlSafeBase64Encode } from './base64';
 export { buildCollectionFullName } from './build-collection-full-name';
+export { buildNoteroURL } from './build-notero-url';
 export { chunkString } from './chunk-string';
 export {
   createHTMLElement,
@@ -13,6 +14,7 @@ export { getGlobalNotero } from './get-global-notero';
 export { getItemURL } from './get-item-url';
 export { getLocalizedErrorMessage } from './get-localized-error-message';
 export { getMainWindow } from './get-main-window';
+export { getRelatedItems } from './get-related-items';
 export { isObject } from './is-object';
 export { keyValue } from './key-value';
 export { logger } from './logger';
@@ -2,8 +2,14 @@
 
 notero-collection-menu-sync =
     .label = Sync Items to Notion
+notero-collection-menu-preview =
+    .label = Preview Sync to Notion…
 notero-item-menu-sync =
     .label = Sync to Notion
+notero-item-menu-force-sync =
+    .label = Force Sync to Notion
+notero-item-menu-preview =
+    .label = Preview Sync to Notion…
 notero-tools-menu-preferences =
     .label = Notero Preferences…
 
@@ -11,20 +17,108 @@ notero-tools-menu-preferences =
 
 notero-preferences-notion-groupbox-heading = Notion Connection
 notero-preferences-notion-connect-button = Connect to Notion
+notero-preferences-notion-add-workspace-button = Add Workspace…
 notero-preferences-notion-disconnect-button = Disconnect…
 notero-preferences-notion-disconnect-dialog-title = Disconnect Notion Workspace
-notero-preferences-notion-disconnect-dialog-text = Disconnecting your Notion workspace will prevent further syncing. It will not remove any content that has already been synced.
+notero-preferences-notion-disconnect-dialog-text = Disconnecting this Notion workspace will prevent further syncing to its databases. It will not remove any content that has already been synced.
 notero-preferences-notion-upgrade-button = Upgrade Connection…
 notero-preferences-notion-upgrade-dialog-title = Upgrade Notion Connection
 notero-preferences-notion-upgrade-dialog-text = Notero has evolved into a Notion public integration, enabling enhanced features and security. To upgrade, click OK and you'll be redirected to Notion to authorize the new Notero integration. After completing this one-time process, you can safely delete your previous internal integration. See the Notero README for more details.
 notero-preferences-notion-workspace = Workspace: { $workspace-name }
 notero-preferences-notion-database = Database:
+notero-preferences-notion-database-search =
+    .placeholder = Search databases
+notero-preferences-notion-parent-page-column = Parent Page
+notero-preferences-notion-last-edited-column = Last Edited
+notero-preferences-notion-enter-database-button = Enter URL or ID…
+notero-preferences-notion-enter-database-dialog-title = Enter Notion Database
+notero-preferences-notion-enter-database-dialog-text = Paste the URL or ID of a Notion database shared with Notero:
+notero-preferences-notion-enter-database-invalid = This is not a valid Notion database URL or ID.
+notero-preferences-notion-enter-database-inaccessible = The database could not be found. Make sure it is shared with the Notero integration in Notion.
+notero-preferences-notion-create-database-button = Create Database…
+notero-preferences-notion-create-database-dialog-title = Create Notion Database
+notero-preferences-notion-create-database-page-text = Choose the Notion page to create the database in:
+notero-preferences-notion-create-database-name-text = Name of the new database:
+notero-preferences-notion-create-database-default-name = Zotero Library
+notero-preferences-notion-create-database-no-pages = No Notion pages are shared with Notero. In Notion, share a page with the Notero integration, then try again.
+notero-preferences-notion-set-up-database-button = Set Up Database…
+notero-preferences-notion-set-up-database-dialog-title = Set Up Notion Database
+notero-preferences-notion-set-up-database-dialog-text =
+    The following properties will be added to the selected database so that Notero can sync to them. Existing properties will not be changed.
+
+    { $properties }
+notero-preferences-notion-set-up-database-complete = The selected database already has all properties that Notero syncs to.
 
 ## Property preferences
 
 notero-preferences-properties-groupbox-heading = Property Preferences
 notero-preferences-properties-groupbox-description = Customize how item properties sync to Notion.
 notero-preferences-page-title-format = Notion Page Title:
+notero-preferences-page-title-template = Template:
+notero-preferences-page-title-template-help = Use {"{field}"} for Zotero fields such as {"{year}"}, {"{a|b}"} to fall back to another field, {"{field:60}"} to truncate, and {"{field:upper}"} or {"{field:lower}"} to change case.
+notero-preferences-page-title-template-preview = Preview: { $title }
+notero-preferences-page-title-template-preview-unavailable = Select an item in the Zotero window to preview its page title.
+notero-preferences-property-mappings-description = Choose the Notion property that each value syncs to. To rename a property, double-click the row. To remove a row, right-click it.
+notero-preferences-people-database = People database:
+notero-preferences-people-database-none =
+    .label = None
+notero-preferences-people-database-description = To link items to a page for each author and editor, choose a People database and change the type of the Authors and Editors properties to a relation with it.
+notero-preferences-collections-database = Collections database:
+notero-preferences-collections-database-none =
+    .label = None
+notero-preferences-collections-database-description = To link items to a page for each sync-enabled collection, choose a Collections database and change the type of the Collections property to a relation with it.
+notero-preferences-source-column = Zotero Value
+notero-preferences-property-column = Notion Property
+notero-preferences-status-column = Status
+notero-preferences-property-mappings-add-button =
+    .label = Add Property
+notero-preferences-property-mappings-reset-button =
+    .label = Reset to Defaults…
+notero-preferences-property-mappings-reset-dialog-title = Reset Property Mappings
+notero-preferences-property-mappings-reset-dialog-text = All property mappings will be replaced with the default mappings. Do you want to continue?
+notero-preferences-property-mapping-dialog-title = Notion Property
+notero-preferences-property-mapping-dialog-text = Name of the Notion property to sync { $source } to:
+notero-preferences-property-mapping-rename =
+    .label = Rename Notion Property…
+notero-preferences-property-mapping-remove =
+    .label = Remove
+
+## Property mapping statuses
+
+notero-property-mapping-status-deleted-property = Deleted from database
+notero-property-mapping-status-duplicate-property = Property already mapped
+notero-property-mapping-status-incompatible-type = Incompatible property type
+notero-property-mapping-status-missing-property = Not in database
+notero-property-mapping-status-unknown-field = Unknown Zotero field
+notero-property-mapping-status-valid = OK
+
+## Computed values
+
+notero-computed-value-abstract = Abstract
+notero-computed-value-authors = Authors
+notero-computed-value-citation-key = Citation Key
+notero-computed-value-collections = Collections
+notero-computed-value-date = Date
+notero-computed-value-date-added = Date Added
+notero-computed-value-date-modified = Date Modified
+notero-computed-value-doi = DOI URL
+notero-computed-value-editors = Editors
+notero-computed-value-extra = Extra
+notero-computed-value-file-path = File Path
+notero-computed-value-full-citation = Full Citation
+notero-computed-value-in-text-citation = In-Text Citation
+notero-computed-value-item-type = Item Type
+notero-computed-value-place = Place
+notero-computed-value-proceedings-title = Proceedings Title
+notero-computed-value-publication = Publication
+notero-computed-value-related-items = Related Items
+notero-computed-value-series-title = Series Title
+notero-computed-value-short-title = Short Title
+notero-computed-value-tags = Tags
+notero-computed-value-title = Title
+notero-computed-value-url = URL
+notero-computed-value-year = Year
+notero-computed-value-zotero-uri = Zotero URI
 
 ## Page title format options
 
@@ -38,6 +132,8 @@ notero-page-title-format-item-in-text-citation =
     .label = Item In-Text Citation
 notero-page-title-format-item-short-title =
     .label = Item Short Title
+notero-page-title-format-item-template =
+    .label = Custom Template
 notero-page-title-format-item-title =
     .label = Item Title
 
@@ -46,20 +142,101 @@ notero-page-title-format-item-title =
 notero-preferences-sync-groupbox-heading = Sync Preferences
 notero-preferences-sync-groupbox-description1 = Notero will monitor the collections enabled below. Items in the enabled collections will sync to Notion when added to that collection and whenever the items are modified.
 notero-preferences-sync-groupbox-description2 = To enable/disable a collection, either select the row and press the {"[Enter]"} key or double-click the row. To select multiple rows, hold {"[Shift]"} and then click.
+notero-preferences-sync-groupbox-description3 = To sync a collection to a Notion database other than the one selected above, right-click the row and choose a database. Items in multiple collections sync to the database of the most deeply nested collection.
 notero-preferences-collection-column = Collection
 notero-preferences-sync-enabled-column = Sync Enabled
+notero-preferences-notion-database-column = Notion Database
+notero-preferences-default-database = Default Database
 notero-preferences-sync-on-modify-items =
     .label = Sync when items are modified
 notero-preferences-sync-notes =
     .label = Sync notes
+notero-preferences-trashed-item-action = When Items Are Trashed:
+notero-preferences-removed-item-action = When Items Leave Synced Collections:
+notero-preferences-sync-queue =
+    { $count ->
+        [one] { $count } item waiting to sync
+       *[other] { $count } items waiting to sync
+    }
+notero-preferences-sync-queue-show-button =
+    .label = Show…
+notero-preferences-sync-queue-clear-button =
+    .label = Clear…
+notero-preferences-sync-queue-dialog-title = Items Waiting to Sync
+notero-preferences-sync-queue-clear-dialog-text = Items waiting to sync will not be synced to Notion until they are modified or synced manually. Do you want to clear the sync queue?
+
+## Trashed item action options
+
+notero-trashed-item-action-archive-page =
+    .label = Archive Notion page
+notero-trashed-item-action-flag-page =
+    .label = Mark Notion page as Deleted
+notero-trashed-item-action-none =
+    .label = Do nothing
+
+## Sync status
+
+notero-sync-status-offline =
+    .label = Notion: Offline
+    .tooltiptext =
+        { $count ->
+            [one] { $count } item will sync to Notion when the network is back online.
+           *[other] { $count } items will sync to Notion when the network is back online.
+        }
+notero-sync-status-unreachable =
+    .label = Notion: Unreachable
+    .tooltiptext =
+        { $count ->
+            [one] { $count } item is waiting to sync because Notion could not be reached. Click to retry now.
+           *[other] { $count } items are waiting to sync because Notion could not be reached. Click to retry now.
+        }
+
+## Sync preview
+
+notero-sync-preview-title = Notion Sync Preview
+notero-sync-preview-summary =
+    { $count ->
+        [one] { $count } item would be synced. Nothing has been sent to Notion.
+       *[other] { $count } items would be synced. Nothing has been sent to Notion.
+    }
+notero-sync-preview-page-create = A new page would be created.
+notero-sync-preview-page-update =
+    { $count ->
+        [0] The existing page is up to date.
+        [one] { $count } property would change on the existing page.
+       *[other] { $count } properties would change on the existing page.
+    }
+notero-sync-preview-note-create =
+    { $count ->
+        [one] A new note block with { $count } block would be added.
+       *[other] A new note block with { $count } blocks would be added.
+    }
+notero-sync-preview-note-update =
+    { $count ->
+        [one] The existing note block would be updated to { $count } block.
+       *[other] The existing note block would be updated to { $count } blocks.
+    }
+notero-sync-preview-property-column = Property
+notero-sync-preview-change-column = Change
+notero-sync-preview-current-column = Current Value
+notero-sync-preview-new-column = New Value
+notero-sync-preview-change-added = Added
+notero-sync-preview-change-changed = Changed
+notero-sync-preview-change-removed = Removed
 
 ## Progress window
 
 notero-progress-headline = Syncing items to Notion…
 notero-progress-item = Item { $step } of { $total }
+notero-progress-retry = Notion is busy. Retrying in { $seconds }s (attempt { $attempt } of { $max-retries })…
+notero-progress-summary = Created: { $created }, Updated: { $updated }, Skipped: { $skipped }, Failed: { $failed }
+notero-progress-retry-failed = Retry failed items
+notero-progress-property-deleted = Notion property "{ $property }" was deleted from the database, so it was not synced. To sync it again, rename or remove its property mapping in Notero preferences.
+notero-progress-property-type-changed = Notion property "{ $property }" changed to an incompatible type, so it was not synced. Change its type back in Notion, or remove its property mapping in Notero preferences.
 
 ## Errors
 
+notero-error-missing-deleted-property = Cannot mark Notion page as deleted. Please add a checkbox, select, or status property named "{ $property }" to your Notion database.
 notero-error-missing-notion-database = Notion database not selected. Please select your database in Notero preferences.
 notero-error-missing-notion-token = Not authorized with Notion. Please connect to Notion in Notero preferences.
 notero-error-missing-pref = Missing value for { $pref }. Please enter it in Notero preferences.
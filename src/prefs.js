@@ -1,8 +1,19 @@
 /* eslint-disable no-undef */
 
+pref('extensions.notero.collectionPages', '');
 pref('extensions.notero.collectionSyncConfigs', '');
+pref('extensions.notero.collectionsDatabaseID', '');
+pref('extensions.notero.notionDatabaseConnections', '');
 pref('extensions.notero.notionDatabaseID', '');
 pref('extensions.notero.pageTitleFormat', 'itemAuthorDateCitation');
+pref(
+  'extensions.notero.pageTitleTemplate',
+  '{firstCreator} ({year}) – {shortTitle|title}',
+);
+pref('extensions.notero.peopleDatabaseID', '');
+pref('extensions.notero.propertyMappings', '');
+pref('extensions.notero.removedItemAction', 'none');
 pref('extensions.notero.syncNotes', false);
 pref('extensions.notero.syncOnModifyItems', true);
+pref('extensions.notero.trashedItemAction', 'none');
 pref('extensions.notero.imgurCache', '{}');
@@ -4,6 +4,27 @@ declare global {
   function dump(message: string): void;
   function pref(name: string, value: boolean | number | string): void;
 
+  /**
+   * @see https://searchfox.org/mozilla-central/source/dom/chrome-webidl/IOUtils.webidl
+   */
+  const IOUtils: {
+    exists(path: string): Promise<boolean>;
+    readJSON(path: string): Promise<unknown>;
+    remove(path: string, options?: { ignoreAbsent?: boolean }): Promise<void>;
+    writeJSON(
+      path: string,
+      value: unknown,
+      options?: { tmpPath?: string },
+    ): Promise<number>;
+  };
+
+  /**
+   * @see https://searchfox.org/mozilla-central/source/dom/chrome-webidl/PathUtils.webidl
+   */
+  const PathUtils: {
+    join(...components: string[]): string;
+  };
+
   interface Document {
     l10n: L10n.DOMLocalization;
   }
@@ -102,6 +102,21 @@ declare namespace XPCOM {
       dialogTitle: string,
       text: string,
     ): boolean;
+    prompt(
+      parent: nsIDOMWindow | null,
+      dialogTitle: string,
+      text: string,
+      value: { value: string },
+      checkMsg: string | null,
+      checkState: { value: boolean },
+    ): boolean;
+    select(
+      parent: nsIDOMWindow | null,
+      dialogTitle: string,
+      text: string,
+      options: string[],
+      selection: { value: number },
+    ): boolean;
   }
 
   type nsIProtocolHandler = nsISupports;
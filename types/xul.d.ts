@@ -44,7 +44,9 @@ declare namespace XUL {
     value: string;
   }
 
-  type MenuPopupElement = XULElement;
+  interface MenuPopupElement extends XULElement {
+    openPopupAtScreen(x: number, y: number, isContextMenu: boolean): void;
+  }
 
   /**
    * @see https://searchfox.org/mozilla-esr115/source/toolkit/content/customElements.js
@@ -74,11 +76,15 @@ declare namespace XUL {
   type XULElementTagNameMap = {
     button: ButtonElement;
     checkbox: CheckboxElement;
+    hbox: XULElement;
     label: LabelElement;
     menuitem: MenuItemElement;
     menulist: MenuListElement;
+    menupopup: MenuPopupElement;
+    menuseparator: XULElement;
     preference: PreferenceElement;
     textbox: TextboxElement;
+    toolbarbutton: ButtonElement;
     tree: TreeElement;
   };
 }
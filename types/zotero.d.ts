@@ -1,4 +1,20 @@
 declare namespace Zotero {
+  interface Annotations {
+    /** Return the path of the rendered image of an image annotation */
+    getCacheImagePath(libraryIDAndKey: {
+      libraryID: number;
+      key: DataObjectKey;
+    }): string;
+  }
+
+  type AnnotationType =
+    | 'highlight'
+    | 'image'
+    | 'ink'
+    | 'note'
+    | 'text'
+    | 'underline';
+
   interface Attachments {
     /**
      * Create a link attachment from a URL.
@@ -127,6 +143,9 @@ declare namespace Zotero {
       ids: I,
     ): I extends DataObjectID ? T | false : T[];
 
+    /** Get an object by its library ID and key */
+    getByLibraryAndKey(libraryID: number, key: DataObjectKey): T | false;
+
     /** Get all loaded objects */
     getLoaded(): T[];
   }
@@ -138,6 +157,17 @@ declare namespace Zotero {
      * Can also accept just the date part (e.g. '2006-06-13')
      */
     sqlToDate(sqldate: string, isUTC?: boolean): globalThis.Date | false;
+
+    /**
+     * Parse a date string in any format that Zotero understands. Parts that
+     * cannot be parsed are undefined, and `month` is zero-based.
+     */
+    strToDate(str: string): {
+      year?: number | string;
+      month?: number;
+      day?: number | string;
+      part?: string;
+    };
   }
 
   interface Item extends DataObject {
@@ -148,6 +178,18 @@ declare namespace Zotero {
     parentItem: Item | undefined;
     topLevelItem: Item;
 
+    /** Keys of the related items in the same library */
+    readonly relatedItems: DataObjectKey[];
+
+    readonly annotationColor: string;
+    readonly annotationComment: string | null;
+    readonly annotationPageLabel: string | null;
+    /** JSON of the position of the annotation within its attachment */
+    readonly annotationPosition: string;
+    readonly annotationSortIndex: string;
+    readonly annotationText: string | null;
+    readonly annotationType: AnnotationType;
+
     dateAdded: string;
     dateModified: string;
     version: number;
@@ -167,6 +209,9 @@ declare namespace Zotero {
      */
     addTag(name: string, type?: number): boolean;
 
+    /** Get the annotation items of a PDF, EPUB, or snapshot attachment */
+    getAnnotations(includeTrashed?: boolean): Item[];
+
     getAttachments(includeTrashed: boolean): DataObjectID[];
 
     getBestAttachment(): Promise<Item | false>;
@@ -193,8 +238,16 @@ declare namespace Zotero {
 
     getTags(): { tag: string; type: number }[];
 
+    isAnnotation(): boolean;
+
+    isAttachment(): boolean;
+
+    isEPUBAttachment(): boolean;
+
     isNote(): boolean;
 
+    isPDFAttachment(): boolean;
+
     isRegularItem(): boolean;
 
     isTopLevelItem(): boolean;
@@ -204,6 +257,12 @@ declare namespace Zotero {
     setNote(text: string): boolean;
   }
 
+  interface ItemFields {
+    getAll(): { id: number; name: string }[];
+    getID(field: number | string): number | false;
+    getLocalizedString(field: number | string): string;
+  }
+
   interface Items extends DataObjects<Item> {
     /** Get the top-level items of all passed items */
     getTopLevel(items: Item[]): Item[];
@@ -212,6 +271,7 @@ declare namespace Zotero {
   interface ItemTypes extends CachedTypes {
     getImageSrc(itemType: string): string;
     getLocalizedString(idOrName: number | string): string;
+    getTypes(): { id: number; name: string }[];
   }
 
   interface Notifier {
@@ -348,6 +408,11 @@ declare namespace Zotero {
   type ProgressWindow = {
     new (options?: { closeOnClick?: boolean; window?: Window }): ProgressWindow;
 
+    /**
+     * Add a line of text to the window. The text may contain
+     * `<a href="...">` markup, which is rendered as a link that opens the URL
+     * via `ZoteroPane.loadURI()` when clicked.
+     */
     addDescription(text: string): void;
 
     addLines(
@@ -357,6 +422,8 @@ declare namespace Zotero {
 
     changeHeadline(text: string, icon?: string, postText?: string): void;
 
+    close(): void;
+
     show(): boolean;
 
     startCloseTimer(ms?: number, requireMouseOver?: boolean): void;
@@ -435,6 +502,9 @@ declare namespace Zotero {
   }
 
   interface UtilitiesInternal {
+    /** Return the hex-encoded (or base64-encoded) MD5 hash of a string */
+    md5(str: string, base64?: boolean): string;
+
     openPreferences(
       paneID?: string,
       options?: {
@@ -475,10 +545,13 @@ declare namespace Zotero {
 }
 
 declare interface Zotero {
+  Annotations: Zotero.Annotations;
   Attachments: Zotero.Attachments;
   Collections: Zotero.Collections;
   CreatorTypes: Zotero.CreatorTypes;
+  DataDirectory: { readonly dir: string };
   Date: Zotero.Date;
+  ItemFields: Zotero.ItemFields;
   Items: Zotero.Items;
   ItemTypes: Zotero.ItemTypes;
   Notifier: Zotero.Notifier;